@@ -0,0 +1,267 @@
+/**
+ * Pi Messenger - Bash Mutation Targets
+ *
+ * Best-effort extraction of the paths a bash command would modify, so the
+ * reservation hook can cover `sed -i`, `mv`, `rm`, `git checkout -- file`,
+ * `> file` and friends, not just the edit/write tools. Anything it can't
+ * understand (variables, subshells, xargs) is skipped rather than guessed.
+ */
+
+import { join, isAbsolute } from "node:path";
+
+type Token = { text: string; op: boolean; quoted?: boolean };
+
+const SEPARATORS = new Set([";", "&&", "||", "|", "&", "\n"]);
+const REDIRECTS = /^(?:\d*|&)>>?\|?$/;
+const IGNORED_TARGETS = new Set(["/dev/null", "/dev/stdout", "/dev/stderr", "/dev/tty"]);
+const PREFIX_COMMANDS = new Set(["sudo", "command", "env", "nice", "nohup", "time", "builtin", "exec"]);
+
+// Commands where every positional argument is modified
+const ALL_ARGS = new Set(["rm", "rmdir", "unlink", "touch", "mkdir", "shred", "tee", "mv"]);
+// Commands where only the last positional argument (the destination) is modified
+const LAST_ARG = new Set(["cp", "ln", "install", "rsync"]);
+// Commands whose first positional argument is not a path (mode, owner, size)
+const SKIP_FIRST = new Set(["chmod", "chown", "chgrp"]);
+
+/**
+ * Paths (as written, relative to the command's cwd) that `command` would
+ * create, overwrite, move or delete. `cd DIR` inside the command is followed.
+ */
+export function extractMutatedPaths(command: string): string[] {
+  const targets: string[] = [];
+  let dir = "";
+
+  for (const words of splitCommands(tokenize(command))) {
+    const redirected: string[] = [];
+    const args: string[] = [];
+
+    for (let i = 0; i < words.length; i++) {
+      const word = words[i].text;
+      if (words[i].quoted) {
+        args.push(word);
+        continue;
+      }
+      const attached = word.match(/^((?:\d*|&)>>?\|?)(.+)$/);
+      if (/^\d*<{1,3}$/.test(word)) {
+        i++; // Input redirection or here-doc delimiter: nothing is written
+      } else if (REDIRECTS.test(word)) {
+        const target = words[i + 1]?.text;
+        if (target !== undefined && !target.startsWith("&")) redirected.push(target);
+        i++;
+      } else if (attached && !attached[2].startsWith("&")) {
+        redirected.push(attached[2]);
+      } else if (!/^\d*[<>]&/.test(word) && !/^\d*</.test(word)) {
+        args.push(word);
+      }
+    }
+
+    const paths = [...redirected, ...commandTargets(args)];
+    for (const p of paths) {
+      if (!p || IGNORED_TARGETS.has(p) || /[$`]/.test(p)) continue;
+      targets.push(dir && !isAbsolute(p) ? join(dir, p) : p);
+    }
+
+    const name = stripPrefixes(args)[0];
+    if (name === "cd") {
+      const next = stripPrefixes(args)[1];
+      if (next && !/[$`~]/.test(next) && next !== "-") {
+        dir = isAbsolute(next) ? next : join(dir, next);
+      }
+    }
+  }
+
+  return [...new Set(targets)];
+}
+
+// =============================================================================
+// Command Rules
+// =============================================================================
+
+function commandTargets(rawArgs: string[]): string[] {
+  const args = stripPrefixes(rawArgs);
+  const name = args[0]?.replace(/^.*\//, "");
+  if (!name) return [];
+  const rest = args.slice(1);
+
+  if (ALL_ARGS.has(name)) return positionals(rest);
+  if (LAST_ARG.has(name)) {
+    const targetDir = optionValue(rest, ["-t", "--target-directory"]);
+    if (targetDir) return [targetDir];
+    const pos = positionals(rest);
+    return pos.length >= 2 ? [pos[pos.length - 1]] : [];
+  }
+  if (SKIP_FIRST.has(name)) return positionals(rest).slice(1);
+  if (name === "truncate") return positionals(rest, ["-s", "--size", "-r", "--reference"]);
+  if (name === "sed") return sedTargets(rest);
+  if (name === "perl") return perlTargets(rest);
+  if (name === "dd") {
+    const of = rest.find(a => a.startsWith("of="));
+    return of ? [of.slice(3)] : [];
+  }
+  if (name === "git") return gitTargets(rest);
+  return [];
+}
+
+function sedTargets(args: string[]): string[] {
+  const inPlace = args.some(a => /^-[a-zA-Z]*i/.test(a) || a.startsWith("--in-place"));
+  if (!inPlace) return [];
+  const hasScriptOption = args.some(a => a === "-e" || a === "-f" || a.startsWith("--expression") || a.startsWith("--file"));
+  const pos = positionals(args, ["-e", "--expression", "-f", "--file", "-l", "--line-length"]);
+  return hasScriptOption ? pos : pos.slice(1);
+}
+
+function perlTargets(args: string[]): string[] {
+  const inPlace = args.some(a => /^-[a-zA-Z]*i/.test(a));
+  if (!inPlace) return [];
+  const hasScriptOption = args.some(a => /^-[a-zA-Z]*[eE]$/.test(a));
+  const pos = positionalsAfterScript(args);
+  return hasScriptOption ? pos : pos.slice(1);
+}
+
+function gitTargets(args: string[]): string[] {
+  const sub = args[0];
+  const rest = args.slice(1);
+  const dashDash = rest.indexOf("--");
+
+  switch (sub) {
+    case "checkout":
+      // Only `git checkout [<tree-ish>] -- <paths>` touches files; a bare branch switch is left alone
+      return dashDash === -1 ? [] : rest.slice(dashDash + 1);
+    case "restore":
+      return positionals(rest, ["-s", "--source"]);
+    case "rm":
+    case "mv":
+      return positionals(rest);
+    default:
+      return [];
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function tokenize(command: string): Token[] {
+  const tokens: Token[] = [];
+  let current = "";
+  let hasCurrent = false;
+  let quoted = false;
+  let quote: "'" | "\"" | null = null;
+
+  const flush = () => {
+    if (hasCurrent) tokens.push({ text: current, op: false, ...(quoted ? { quoted } : {}) });
+    current = "";
+    hasCurrent = false;
+    quoted = false;
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote) {
+      if (char === quote) quote = null;
+      else if (char === "\\" && quote === "\"" && i + 1 < command.length) current += command[++i];
+      else current += char;
+      continue;
+    }
+    if (char === "'" || char === "\"") {
+      quote = char;
+      quoted = hasCurrent = true;
+    } else if (char === "\\" && i + 1 < command.length) {
+      if (command[i + 1] !== "\n") current += command[i + 1];
+      hasCurrent = true;
+      i++;
+    } else if (char === "#" && !hasCurrent) {
+      while (i + 1 < command.length && command[i + 1] !== "\n") i++;
+    } else if (char === " " || char === "\t") {
+      flush();
+    } else if (char === "\n" || char === ";" || char === "(" || char === ")") {
+      flush();
+      tokens.push({ text: char === "(" || char === ")" ? ";" : char, op: true });
+    } else if (char === "&" || char === "|") {
+      const double = command[i + 1] === char;
+      // Keep "&>" and ">&2" / ">|" attached to the redirection they belong to
+      if (char === "&" && (command[i + 1] === ">" || current.endsWith(">"))) {
+        current += char;
+        hasCurrent = true;
+        continue;
+      }
+      if (char === "|" && current.endsWith(">")) {
+        current += char;
+        continue;
+      }
+      flush();
+      tokens.push({ text: double ? char + char : char, op: true });
+      if (double) i++;
+    } else if (char === ">" && hasCurrent && !/^(?:\d*|&)>?$/.test(current) && !current.endsWith(">")) {
+      // "cmd>out": split the word from the redirection
+      flush();
+      current = char;
+      hasCurrent = true;
+    } else {
+      current += char;
+      hasCurrent = true;
+    }
+  }
+  flush();
+  return tokens;
+}
+
+function splitCommands(tokens: Token[]): Token[][] {
+  const commands: Token[][] = [[]];
+  for (const token of tokens) {
+    if (token.op && SEPARATORS.has(token.text)) commands.push([]);
+    else if (!token.op) commands[commands.length - 1].push(token);
+  }
+  return commands.filter(c => c.length > 0);
+}
+
+function stripPrefixes(args: string[]): string[] {
+  let i = 0;
+  while (i < args.length && (/^[A-Za-z_][A-Za-z0-9_]*=/.test(args[i]) || PREFIX_COMMANDS.has(args[i]))) i++;
+  return args.slice(i);
+}
+
+/**
+ * Non-option arguments. `valued` options consume the following word.
+ * Everything after "--" is positional.
+ */
+function positionals(args: string[], valued: string[] = []): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--") {
+      result.push(...args.slice(i + 1));
+      break;
+    }
+    if (valued.includes(arg)) {
+      i++;
+      continue;
+    }
+    if (arg.startsWith("-") && arg !== "-") continue;
+    result.push(arg);
+  }
+  return result;
+}
+
+function positionalsAfterScript(args: string[]): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (/^-[a-zA-Z]*[eE]$/.test(arg)) {
+      i++;
+      continue;
+    }
+    if (arg.startsWith("-")) continue;
+    result.push(arg);
+  }
+  return result;
+}
+
+function optionValue(args: string[], names: string[]): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    if (names.includes(args[i])) return args[i + 1];
+    const long = names.find(n => n.startsWith("--") && args[i].startsWith(`${n}=`));
+    if (long) return args[i].slice(long.length + 1);
+  }
+  return undefined;
+}
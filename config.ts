@@ -11,6 +11,7 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
 import { homedir } from "node:os";
 import { join } from "node:path";
+import type { MessagePriority } from "./lib.js";
 
 export interface MessengerConfig {
   autoRegister: boolean;
@@ -23,10 +24,17 @@ export interface MessengerConfig {
   nameTheme: string;
   nameWords?: { adjectives: string[]; nouns: string[] };
   feedRetention: number;
+  messageLogRetention: number;
   stuckThreshold: number;
   stuckNotify: boolean;
   autoStatus: boolean;
   crewEventsInFeed: boolean;
+  bashReservations: "block" | "warn" | "off";
+  reservationRequestTimeout: number;
+  maxMessagePriority: MessagePriority;
+  transport: "filesystem" | "relay";
+  relayUrl?: string;
+  relayToken?: string;
 }
 
 const DEFAULT_CONFIG: MessengerConfig = {
@@ -39,10 +47,15 @@ const DEFAULT_CONFIG: MessengerConfig = {
   senderDetailsOnFirstContact: true,
   nameTheme: "default",
   feedRetention: 50,
+  messageLogRetention: 2000,
   stuckThreshold: 900,
   stuckNotify: true,
   autoStatus: true,
   crewEventsInFeed: true,
+  bashReservations: "block",
+  reservationRequestTimeout: 120,
+  maxMessagePriority: "urgent",
+  transport: "filesystem",
 };
 
 function readJsonFile(path: string): Record<string, unknown> | null {
@@ -152,10 +165,28 @@ export function loadConfig(cwd: string): MessengerConfig {
     nameTheme: typeof merged.nameTheme === "string" ? merged.nameTheme : DEFAULT_CONFIG.nameTheme,
     nameWords: nameWords && Array.isArray(nameWords.adjectives) && Array.isArray(nameWords.nouns) ? nameWords : undefined,
     feedRetention: typeof merged.feedRetention === "number" ? merged.feedRetention : DEFAULT_CONFIG.feedRetention,
+    messageLogRetention: typeof merged.messageLogRetention === "number" && merged.messageLogRetention > 0
+      ? merged.messageLogRetention
+      : DEFAULT_CONFIG.messageLogRetention,
     stuckThreshold: typeof merged.stuckThreshold === "number" ? merged.stuckThreshold : DEFAULT_CONFIG.stuckThreshold,
     stuckNotify: merged.stuckNotify !== false,
     autoStatus: merged.autoStatus !== false,
     crewEventsInFeed: merged.crewEventsInFeed !== false,
+    bashReservations: merged.bashReservations === "warn" || merged.bashReservations === "off"
+      ? merged.bashReservations
+      : DEFAULT_CONFIG.bashReservations,
+    reservationRequestTimeout: typeof merged.reservationRequestTimeout === "number" && merged.reservationRequestTimeout > 0
+      ? merged.reservationRequestTimeout
+      : DEFAULT_CONFIG.reservationRequestTimeout,
+    maxMessagePriority: merged.maxMessagePriority === "normal" || merged.maxMessagePriority === "fyi"
+      ? merged.maxMessagePriority
+      : DEFAULT_CONFIG.maxMessagePriority,
+    // The relay transport needs somewhere to connect to
+    transport: merged.transport === "relay" && typeof merged.relayUrl === "string" && merged.relayUrl
+      ? "relay" as const
+      : DEFAULT_CONFIG.transport,
+    relayUrl: typeof merged.relayUrl === "string" && merged.relayUrl ? merged.relayUrl : undefined,
+    relayToken: typeof merged.relayToken === "string" && merged.relayToken ? merged.relayToken : undefined,
   };
 
   if (merged.contextMode === "none") {
@@ -3,6 +3,7 @@
  * 
  * Renders the Crew tab content for the messenger overlay.
  * Shows flat task list under PRD name with status and dependencies.
+ * When several named plans exist, a plan bar lets the user switch between them.
  */
 
 import { truncateToWidth, visibleWidth } from "@mariozechner/pi-tui";
@@ -11,6 +12,11 @@ import * as crewStore from "./crew/store.js";
 import { autonomousState } from "./crew/state.js";
 import type { Task } from "./crew/types.js";
 import { getLiveWorkers, type LiveWorkerInfo } from "./crew/live-progress.js";
+import { addUsage, emptyUsage, formatCost, formatTokens, totalTokens } from "./crew/utils/usage.js";
+import { formatIssueLocation } from "./crew/utils/verdict.js";
+
+// Review issue locations listed under the selected task
+const MAX_ISSUE_LINES = 3;
 
 // Status icons
 const STATUS_ICONS: Record<string, string> = {
@@ -23,15 +29,41 @@ const STATUS_ICONS: Record<string, string> = {
 export interface CrewViewState {
   scrollOffset: number;
   selectedTaskIndex: number;
+  plan: string | null;  // Plan being viewed (null = active plan)
 }
 
 export function createCrewViewState(): CrewViewState {
   return {
     scrollOffset: 0,
     selectedTaskIndex: 0,
+    plan: null,
   };
 }
 
+/**
+ * Slug of the plan shown in the Crew tab, falling back to the active plan
+ * if the viewed one no longer exists.
+ */
+export function getViewedPlan(cwd: string, viewState: CrewViewState): string {
+  if (viewState.plan && crewStore.hasPlan(cwd, viewState.plan)) {
+    return viewState.plan;
+  }
+  viewState.plan = null;
+  return crewStore.resolvePlanSlug(cwd);
+}
+
+export function cyclePlan(viewState: CrewViewState, cwd: string, direction: 1 | -1): void {
+  const plans = crewStore.listPlans(cwd);
+  if (plans.length < 2) return;
+
+  const current = getViewedPlan(cwd, viewState);
+  const idx = plans.findIndex(p => p.slug === current);
+  const next = plans[(idx + direction + plans.length) % plans.length];
+  viewState.plan = next.slug;
+  viewState.selectedTaskIndex = 0;
+  viewState.scrollOffset = 0;
+}
+
 /**
  * Render the crew overview content - flat task list under PRD.
  */
@@ -43,23 +75,32 @@ export function renderCrewContent(
   viewState: CrewViewState
 ): string[] {
   const lines: string[] = [];
-  const plan = crewStore.getPlan(cwd);
+  const slug = getViewedPlan(cwd, viewState);
+  const plan = crewStore.getPlan(cwd, slug);
 
   if (!plan) {
     return renderEmptyState(theme, width, height);
   }
 
-  const tasks = crewStore.getTasks(cwd);
+  const tasks = crewStore.getTasks(cwd, slug);
   const workers = getLiveWorkers(cwd);
+
+  const plans = crewStore.listPlans(cwd);
+  if (plans.length > 1) {
+    lines.push(renderPlanBar(theme, plans, slug, width));
+  }
   
-  // Header: PRD with progress
-  const progressText = `[${plan.completed_count}/${plan.task_count}]`;
+  // Header: PRD with spend and progress
+  const spendText = plan.usage
+    ? `${formatTokens(totalTokens(plan.usage))} tok ${formatCost(plan.usage.cost)}  `
+    : "";
+  const progressText = `${spendText}[${plan.completed_count}/${plan.task_count}]`;
   const prdLine = `📋 ${plan.prd}`;
   const prdWidth = visibleWidth(prdLine);
   const progressWidth = visibleWidth(progressText);
   const padding = Math.max(1, width - prdWidth - progressWidth - 2);
   
-  lines.push(prdLine + " ".repeat(padding) + theme.fg("accent", progressText));
+  lines.push(prdLine + " ".repeat(padding) + theme.fg("dim", spendText) + theme.fg("accent", progressText.slice(spendText.length)));
   lines.push("");
 
   if (workers.size > 0) {
@@ -99,6 +140,9 @@ export function renderCrewContent(
         workers.get(task.id),
       );
       lines.push(taskLine);
+      if (i === viewState.selectedTaskIndex) {
+        lines.push(...renderReviewIssues(theme, task, width));
+      }
     }
   }
 
@@ -129,17 +173,18 @@ export function renderCrewContent(
   return lines.slice(0, height);
 }
 
-export function renderCrewStatusBar(theme: Theme, cwd: string, width: number): string {
-  const plan = crewStore.getPlan(cwd);
+export function renderCrewStatusBar(theme: Theme, cwd: string, width: number, viewState?: CrewViewState): string {
+  const slug = viewState ? getViewedPlan(cwd, viewState) : crewStore.resolvePlanSlug(cwd);
+  const plan = crewStore.getPlan(cwd, slug);
   
   if (!plan) {
     return theme.fg("dim", "No active plan");
   }
 
-  if (!autonomousState.active) {
+  if (!autonomousState.active || (autonomousState.plan ?? slug) !== slug) {
     // Show plan progress
     const progress = `${plan.completed_count}/${plan.task_count}`;
-    const ready = crewStore.getReadyTasks(cwd);
+    const ready = crewStore.getReadyTasks(cwd, slug);
     const readyText = ready.length > 0 ? ` │ ${ready.length} ready` : "";
     return truncateToWidth(
       `📋 ${plan.prd}: ${progress} tasks${readyText}`,
@@ -160,7 +205,7 @@ export function renderCrewStatusBar(theme: Theme, cwd: string, width: number): s
     elapsed = `${minutes}:${seconds.toString().padStart(2, "0")}`;
   }
 
-  const readyTasks = crewStore.getReadyTasks(cwd);
+  const readyTasks = crewStore.getReadyTasks(cwd, slug);
   
   const parts = [
     `Wave ${autonomousState.waveNumber}`,
@@ -172,6 +217,11 @@ export function renderCrewStatusBar(theme: Theme, cwd: string, width: number): s
     parts.push(`⏱️ ${elapsed}`);
   }
 
+  const runUsage = autonomousState.waveHistory.reduce((sum, w) => addUsage(sum, w.usage), emptyUsage());
+  if (runUsage.cost > 0) {
+    parts.push(formatCost(runUsage.cost));
+  }
+
   return truncateToWidth(
     theme.fg("accent", "● AUTO ") + parts.join(" │ "),
     width
@@ -200,6 +250,14 @@ function renderEmptyState(theme: Theme, width: number, height: number): string[]
   return lines;
 }
 
+function renderPlanBar(theme: Theme, plans: crewStore.PlanInfo[], viewed: string, width: number): string {
+  const parts = plans.map(p => {
+    const label = `${p.slug}${p.active ? "*" : ""}`;
+    return p.slug === viewed ? theme.fg("accent", `▸ ${label}`) : theme.fg("dim", label);
+  });
+  return truncateToWidth(`Plans: ${parts.join(" │ ")}  ${theme.fg("dim", "[p] switch")}`, width);
+}
+
 function renderTaskLine(
   theme: Theme,
   task: Task,
@@ -249,6 +307,29 @@ function renderTaskLine(
   return truncateToWidth(fullLine, width);
 }
 
+/**
+ * Located issues from the task's last non-SHIP review, one per line.
+ * Lines follow the selected task, so they don't shift the scroll target.
+ */
+function renderReviewIssues(theme: Theme, task: Task, width: number): string[] {
+  const review = task.last_review;
+  if (!review || review.verdict === "SHIP") return [];
+
+  const located = review.issues.filter(issue => formatIssueLocation(issue) !== "");
+  const lines = located.slice(0, MAX_ISSUE_LINES).map(issue => {
+    const severity = typeof issue !== "string" && issue.severity ? ` [${issue.severity}]` : "";
+    const description = typeof issue === "string" ? issue : issue.description;
+    return truncateToWidth(
+      `      ↳ ${theme.fg("warning", formatIssueLocation(issue))}${theme.fg("dim", `${severity} ${description}`)}`,
+      width
+    );
+  });
+  if (located.length > MAX_ISSUE_LINES) {
+    lines.push(theme.fg("dim", `      ↳ …${located.length - MAX_ISSUE_LINES} more`));
+  }
+  return lines;
+}
+
 function renderLegend(theme: Theme, width: number): string {
   const items = [
     `${theme.fg("accent", STATUS_ICONS.done)} done`,
@@ -25,7 +25,8 @@ import {
   ensureArtifactsDir,
   writeArtifact,
   writeMetadata,
-  appendJsonl
+  appendJsonl,
+  pruneArtifacts
 } from "./utils/artifacts.js";
 import { loadCrewConfig, getTruncationForRole, type CrewConfig } from "./utils/config.js";
 import { removeLiveWorker, updateLiveWorker } from "./live-progress.js";
@@ -108,6 +109,7 @@ export async function spawnAgents(
   const artifactsDir = path.join(crewDir, "artifacts");
   if (config.artifacts.enabled) {
     ensureArtifactsDir(artifactsDir);
+    pruneArtifacts(artifactsDir, config.artifacts);
   }
 
   const results: AgentResult[] = [];
@@ -211,7 +213,7 @@ async function runAgent(
       : undefined;
 
     const proc = spawn("pi", args, {
-      cwd,
+      cwd: task.cwd ?? cwd,
       stdio: ["ignore", "pipe", "pipe"],
       ...(env ? { env } : {}),
     });
@@ -239,6 +241,7 @@ async function runAgent(
               progress: {
                 ...progress,
                 recentTools: progress.recentTools.map(tool => ({ ...tool })),
+                usage: { ...progress.usage },
               },
               startedAt: startTime,
             });
@@ -267,9 +270,12 @@ async function runAgent(
           runId,
           agent: task.agent,
           index,
+          taskId: task.taskId,
           exitCode: code ?? 1,
           durationMs: progress.durationMs,
           tokens: progress.tokens,
+          usage: progress.usage,
+          model: progress.model,
           truncated: truncation.truncated,
           error: progress.error,
         });
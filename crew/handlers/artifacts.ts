@@ -0,0 +1,180 @@
+/**
+ * Crew - Artifacts Handler
+ *
+ * Lists, shows and purges debug artifacts written by spawnAgents.
+ * Operations: crew.artifacts (list), crew.artifacts.show, crew.artifacts.purge
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { CrewParams } from "../types.js";
+import { result } from "../utils/result.js";
+import { loadCrewConfig } from "../utils/config.js";
+import {
+  deleteArtifacts,
+  listArtifacts,
+  pruneArtifacts,
+  type ArtifactEntry
+} from "../utils/artifacts.js";
+import * as store from "../store.js";
+
+const SHOW_OUTPUT_CHARS = 4000;
+
+export async function execute(op: string, params: CrewParams, cwd: string) {
+  const artifactsDir = path.join(store.getCrewDir(cwd), "artifacts");
+
+  switch (op) {
+    case "list":
+      return artifactsList(artifactsDir, params);
+    case "show":
+      return artifactsShow(artifactsDir, params);
+    case "purge":
+      return artifactsPurge(artifactsDir, params, cwd);
+    default:
+      return result(`Unknown artifacts operation: ${op}`, {
+        mode: "crew.artifacts",
+        error: "unknown_operation",
+        operation: op
+      });
+  }
+}
+
+// =============================================================================
+// crew.artifacts
+// =============================================================================
+
+function artifactsList(artifactsDir: string, params: CrewParams) {
+  const entries = filterEntries(listArtifacts(artifactsDir), params);
+  if (entries.length === 0) {
+    return result(hasSelector(params) ? "No artifacts match." : "No artifacts yet.", {
+      mode: "crew.artifacts",
+      entries: []
+    });
+  }
+
+  const limit = params.limit ?? 20;
+  const shown = entries.slice(0, limit);
+  const totalBytes = entries.reduce((sum, e) => sum + e.bytes, 0);
+
+  let text = `# Crew Artifacts\n\n${entries.length} run(s), ${formatBytes(totalBytes)}\n`;
+  for (const e of shown) {
+    const task = e.taskId ? ` ${e.taskId}` : "";
+    const exit = e.exitCode !== undefined && e.exitCode !== 0 ? ` exit ${e.exitCode}` : "";
+    text += `\n- \`${e.runId}\` ${e.agent}${task}${exit} — ${new Date(e.mtimeMs).toISOString()} (${formatBytes(e.bytes)})`;
+  }
+  if (entries.length > shown.length) {
+    text += `\n\n…${entries.length - shown.length} more (raise \`limit\` to see them)`;
+  }
+
+  return result(text, {
+    mode: "crew.artifacts",
+    entries: shown.map(summarize),
+    total: entries.length,
+    totalBytes
+  });
+}
+
+// =============================================================================
+// crew.artifacts.show
+// =============================================================================
+
+function artifactsShow(artifactsDir: string, params: CrewParams) {
+  if (!params.runId) {
+    return result("Error: runId required for crew.artifacts.show.", {
+      mode: "crew.artifacts.show",
+      error: "missing_run_id"
+    });
+  }
+
+  const entries = filterEntries(listArtifacts(artifactsDir), params);
+  if (entries.length === 0) {
+    return result(`Error: No artifacts for run ${params.runId}.`, {
+      mode: "crew.artifacts.show",
+      error: "not_found",
+      runId: params.runId
+    });
+  }
+
+  let text = `# Run ${params.runId}\n`;
+  for (const e of entries) {
+    text += `\n## ${e.agent}${e.index !== undefined ? ` #${e.index}` : ""}${e.taskId ? ` (${e.taskId})` : ""}\n`;
+    text += e.files.map(f => `- ${f}`).join("\n") + "\n";
+
+    const outputFile = e.files.find(f => f.endsWith("_output.md"));
+    if (outputFile) {
+      let output = "";
+      try {
+        output = fs.readFileSync(outputFile, "utf-8");
+      } catch {}
+      const truncated = output.length > SHOW_OUTPUT_CHARS
+        ? output.slice(0, SHOW_OUTPUT_CHARS) + `\n\n[Output truncated - read ${outputFile}]`
+        : output;
+      text += `\n${truncated || "*Empty output*"}\n`;
+    }
+  }
+
+  return result(text, {
+    mode: "crew.artifacts.show",
+    runId: params.runId,
+    entries: entries.map(summarize)
+  });
+}
+
+// =============================================================================
+// crew.artifacts.purge
+// =============================================================================
+
+function artifactsPurge(artifactsDir: string, params: CrewParams, cwd: string) {
+  // Without a selector, apply the configured retention policy right away
+  if (!hasSelector(params)) {
+    const config = loadCrewConfig(store.getCrewDir(cwd));
+    const pruned = pruneArtifacts(artifactsDir, config.artifacts);
+    return result(`🧹 Retention applied: removed ${pruned.removed.length} run(s), freed ${formatBytes(pruned.freedBytes)}.`, {
+      mode: "crew.artifacts.purge",
+      removed: pruned.removed.map(summarize),
+      freedBytes: pruned.freedBytes
+    });
+  }
+
+  const entries = filterEntries(listArtifacts(artifactsDir), params);
+  const freedBytes = deleteArtifacts(entries);
+  return result(`🧹 Removed ${entries.length} run(s), freed ${formatBytes(freedBytes)}.`, {
+    mode: "crew.artifacts.purge",
+    removed: entries.map(summarize),
+    freedBytes
+  });
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function hasSelector(params: CrewParams): boolean {
+  return !!(params.runId || params.id || params.agent);
+}
+
+function filterEntries(entries: ArtifactEntry[], params: CrewParams): ArtifactEntry[] {
+  return entries.filter(e =>
+    (!params.runId || e.runId === params.runId) &&
+    (!params.id || e.taskId === params.id) &&
+    (!params.agent || e.agent === params.agent)
+  );
+}
+
+function summarize(e: ArtifactEntry) {
+  return {
+    runId: e.runId,
+    agent: e.agent,
+    index: e.index,
+    taskId: e.taskId,
+    exitCode: e.exitCode,
+    bytes: e.bytes,
+    modifiedAt: new Date(e.mtimeMs).toISOString()
+  };
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${bytes} B`;
+}
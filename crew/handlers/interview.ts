@@ -13,6 +13,8 @@ import type { CrewParams } from "../types.js";
 import { result } from "../utils/result.js";
 import { spawnAgents } from "../agents.js";
 import { discoverCrewAgents } from "../utils/discover.js";
+import { loadCrewConfig } from "../utils/config.js";
+import { usageFromResult } from "../utils/usage.js";
 import * as store from "../store.js";
 import { getCrewDir } from "../store.js";
 
@@ -37,7 +39,7 @@ export async function execute(
 
   // Determine feature description from plan or target
   let featureDescription: string;
-  const plan = store.getPlan(cwd);
+  const plan = store.getPlan(cwd, params.plan);
 
   if (target) {
     // Use target as feature description
@@ -48,7 +50,7 @@ export async function execute(
     if (fs.existsSync(prdPath)) {
       featureDescription = fs.readFileSync(prdPath, "utf-8");
     } else {
-      const planSpec = store.getPlanSpec(cwd);
+      const planSpec = store.getPlanSpec(cwd, params.plan);
       featureDescription = planSpec ?? `Plan: ${plan.prd}`;
     }
   } else {
@@ -68,6 +70,9 @@ ${featureDescription}
 Follow your output format exactly for question parsing.`
   }], 1, cwd);
 
+  const { pricing } = loadCrewConfig(getCrewDir(cwd));
+  store.recordUsage(cwd, usageFromResult(genResult, pricing), undefined, params.plan);
+
   if (genResult.exitCode !== 0) {
     return result(`Error: Interview generator failed: ${genResult.error ?? "Unknown error"}`, {
       mode: "interview",
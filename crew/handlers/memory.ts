@@ -0,0 +1,82 @@
+/**
+ * Crew - Memory Handler
+ *
+ * Lets humans curate the lessons fed into worker and planner prompts.
+ * Operations: crew.memory (list), crew.memory.add, crew.memory.forget
+ */
+
+import type { CrewParams } from "../types.js";
+import { result } from "../utils/result.js";
+import { loadCrewConfig } from "../utils/config.js";
+import { addMemory, forgetMemory, listMemories } from "../memory.js";
+import * as store from "../store.js";
+
+export async function execute(op: string, params: CrewParams, cwd: string) {
+  switch (op) {
+    case "list":
+      return memoryList(cwd);
+    case "add":
+      return memoryAdd(cwd, params);
+    case "forget":
+      return memoryForget(cwd, params);
+    default:
+      return result(`Unknown memory operation: ${op}`, {
+        mode: "crew.memory",
+        error: "unknown_operation",
+        operation: op
+      });
+  }
+}
+
+function memoryList(cwd: string) {
+  const entries = listMemories(cwd);
+  const enabled = loadCrewConfig(store.getCrewDir(cwd)).memory.enabled;
+  const note = enabled
+    ? ""
+    : "\n\n⚠️ `memory.enabled` is off: lessons are not captured or injected into prompts.";
+
+  if (entries.length === 0) {
+    return result(`No lessons stored yet.${note}`, { mode: "crew.memory", enabled, entries: [] });
+  }
+
+  let text = `# Crew Memory\n`;
+  for (const e of entries) {
+    const origin = [e.source, e.taskId, e.plan].filter(Boolean).join(", ");
+    text += `\n- **${e.id}** (${origin}): ${e.lesson}`;
+  }
+  text += `\n\nForget with: \`pi_messenger({ action: "crew.memory.forget", id: "mem-N" })\`${note}`;
+
+  return result(text, { mode: "crew.memory", enabled, entries });
+}
+
+function memoryAdd(cwd: string, params: CrewParams) {
+  if (!params.content) {
+    return result("Error: content (the lesson) required for crew.memory.add.", {
+      mode: "crew.memory.add",
+      error: "missing_content"
+    });
+  }
+
+  const entry = addMemory(cwd, params.content, "manual", {
+    plan: params.plan ? store.toPlanSlug(params.plan) : undefined
+  });
+  return result(`🧠 Stored **${entry.id}**: ${entry.lesson}`, { mode: "crew.memory.add", entry });
+}
+
+function memoryForget(cwd: string, params: CrewParams) {
+  if (!params.id) {
+    return result("Error: id (mem-N) required for crew.memory.forget.", {
+      mode: "crew.memory.forget",
+      error: "missing_id"
+    });
+  }
+
+  if (!forgetMemory(cwd, params.id)) {
+    return result(`Error: Lesson ${params.id} not found.`, {
+      mode: "crew.memory.forget",
+      error: "not_found",
+      id: params.id
+    });
+  }
+  return result(`🗑️ Forgot ${params.id}.`, { mode: "crew.memory.forget", id: params.id });
+}
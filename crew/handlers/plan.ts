@@ -8,12 +8,14 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
-import type { CrewParams } from "../types.js";
+import type { CrewParams, TaskPriority } from "../types.js";
 import { result } from "../utils/result.js";
 import { spawnAgents } from "../agents.js";
 import { discoverCrewAgents } from "../utils/discover.js";
 import { loadCrewConfig } from "../utils/config.js";
 import { parseVerdict, type ParsedReview } from "../utils/verdict.js";
+import { usageFromResult } from "../utils/usage.js";
+import { formatMemoriesForPrompt, getRelevantMemories } from "../memory.js";
 import * as store from "../store.js";
 
 const PRD_PATTERNS = [
@@ -30,12 +32,12 @@ const PLANNER_AGENT = "crew-planner";
 const PROGRESS_FILE = "planning-progress.md";
 const MAX_PROGRESS_PROMPT_SIZE = 50000;
 
-function getProgressPath(cwd: string): string {
-  return path.join(store.getCrewDir(cwd), PROGRESS_FILE);
+function getProgressPath(planDir: string): string {
+  return path.join(planDir, PROGRESS_FILE);
 }
 
-function readProgressFile(cwd: string): string {
-  const progressPath = getProgressPath(cwd);
+function readProgressFile(planDir: string): string {
+  const progressPath = getProgressPath(planDir);
   if (!fs.existsSync(progressPath)) return "";
   try {
     return fs.readFileSync(progressPath, "utf-8");
@@ -44,8 +46,8 @@ function readProgressFile(cwd: string): string {
   }
 }
 
-function readProgressForPrompt(cwd: string): string {
-  const content = readProgressFile(cwd);
+function readProgressForPrompt(planDir: string): string {
+  const content = readProgressFile(planDir);
   if (!content) return "";
   if (content.length <= MAX_PROGRESS_PROMPT_SIZE) return content;
 
@@ -72,8 +74,8 @@ function readProgressForPrompt(cwd: string): string {
   return `${prefix}${truncatedRun}`;
 }
 
-function startRunInProgress(cwd: string, prdPath: string): void {
-  const progressPath = getProgressPath(cwd);
+function startRunInProgress(planDir: string, prdPath: string): void {
+  const progressPath = getProgressPath(planDir);
   if (!fs.existsSync(progressPath)) {
     const initial = `# Planning Progress\n\n## Notes\n<!-- User notes here are read by the planner on every run.\n     Add steering like "ignore auth" or "prioritize performance". -->\n\n`;
     fs.mkdirSync(path.dirname(progressPath), { recursive: true });
@@ -88,19 +90,19 @@ function formatProgressTime(): string {
   return new Date().toISOString().slice(11, 16);
 }
 
-function appendPassToProgress(cwd: string, passNum: number, content: string): void {
-  const progressPath = getProgressPath(cwd);
+function appendPassToProgress(planDir: string, passNum: number, content: string): void {
+  const progressPath = getProgressPath(planDir);
   const header = `### Pass ${passNum} (${formatProgressTime()})\n`;
   fs.appendFileSync(progressPath, `\n${header}${content}\n`);
 }
 
 function appendReviewToProgress(
-  cwd: string,
+  planDir: string,
   reviewNum: number,
   verdict: string,
   content: string
 ): void {
-  const progressPath = getProgressPath(cwd);
+  const progressPath = getProgressPath(planDir);
   const header = `### Review ${reviewNum} (${formatProgressTime()})\n`;
   fs.appendFileSync(progressPath, `\n${header}**Verdict: ${verdict}**\n${content}\n`);
 }
@@ -112,15 +114,6 @@ export async function execute(
   const cwd = ctx.cwd ?? process.cwd();
   const { prd } = params;
 
-  const existingPlan = store.getPlan(cwd);
-  if (existingPlan) {
-    return result(`A plan already exists for ${existingPlan.prd}.\n\nTo create a new plan, first delete the existing one:\n  - Delete .pi/messenger/crew/ directory\n  - Or reset tasks manually`, {
-      mode: "plan",
-      error: "plan_exists",
-      existingPrd: existingPlan.prd
-    });
-  }
-
   let prdPath: string;
   let prdContent: string;
 
@@ -151,6 +144,17 @@ export async function execute(
     prdContent = discovered.content;
   }
 
+  const slug = params.plan ? store.toPlanSlug(params.plan) : store.planSlugFromPrd(prdPath);
+  const existingPlan = store.getPlan(cwd, slug);
+  if (existingPlan) {
+    return result(`A plan named "${slug}" already exists for ${existingPlan.prd}.\n\nTo plan alongside it, pick another name:\n  pi_messenger({ action: "plan", prd: "${prdPath}", plan: "<name>" })\n\nTo replace it, delete .pi/messenger/crew/plans/${slug}/ first.`, {
+      mode: "plan",
+      error: "plan_exists",
+      plan: slug,
+      existingPrd: existingPlan.prd
+    });
+  }
+
   const availableAgents = discoverCrewAgents(cwd);
 
   if (!availableAgents.some(a => a.name === PLANNER_AGENT)) {
@@ -164,10 +168,14 @@ export async function execute(
   const maxPasses = Math.max(1, config.planning.maxPasses);
   const hasReviewer = availableAgents.some(a => a.name === "crew-reviewer");
 
-  const existingProgress = readProgressForPrompt(cwd);
+  const planDir = store.getPlanDir(cwd, slug);
+  const existingProgress = readProgressForPrompt(planDir);
+  const lessons = config.memory.enabled
+    ? formatMemoriesForPrompt(getRelevantMemories(cwd, prdContent, { plan: slug }))
+    : "";
 
-  store.createPlan(cwd, prdPath);
-  startRunInProgress(cwd, prdPath);
+  store.createPlan(cwd, prdPath, slug);
+  startRunInProgress(planDir, prdPath);
 
   let lastPlannerOutput = "";
   let lastVerdict: ParsedReview | null = null;
@@ -177,8 +185,8 @@ export async function execute(
 
   for (let pass = 1; pass <= maxPasses; pass++) {
     const plannerPrompt = pass === 1
-      ? buildFirstPassPrompt(prdPath, prdContent, existingProgress)
-      : buildRefinementPrompt(prdPath, prdContent, readProgressForPrompt(cwd));
+      ? buildFirstPassPrompt(prdPath, prdContent, existingProgress, lessons)
+      : buildRefinementPrompt(prdPath, prdContent, readProgressForPrompt(planDir), lessons);
 
     const [plannerResult] = await spawnAgents([{
       agent: PLANNER_AGENT,
@@ -186,23 +194,25 @@ export async function execute(
       modelOverride: config.models?.planner,
     }], 1, cwd);
 
+    store.recordUsage(cwd, usageFromResult(plannerResult, config.pricing), undefined, slug);
+
     if (plannerResult.exitCode !== 0) {
       if (pass === 1) {
-        store.deletePlan(cwd);
+        store.deletePlan(cwd, slug);
         return result(`Error: Planner failed: ${plannerResult.error ?? "Unknown error"}`, {
           mode: "plan",
           error: "planner_failed"
         });
       }
 
-      appendPassToProgress(cwd, pass, `[Planner failed: ${plannerResult.error ?? "Unknown error"}]`);
+      appendPassToProgress(planDir, pass, `[Planner failed: ${plannerResult.error ?? "Unknown error"}]`);
       plannerFailedPass = pass;
       break;
     }
 
     lastPlannerOutput = plannerResult.output;
     passesCompleted = pass;
-    appendPassToProgress(cwd, pass, lastPlannerOutput);
+    appendPassToProgress(planDir, pass, lastPlannerOutput);
 
     if (pass >= maxPasses) break;
     if (!hasReviewer) break;
@@ -221,13 +231,15 @@ export async function execute(
       modelOverride: config.models?.reviewer,
     }], 1, cwd);
 
+    store.recordUsage(cwd, usageFromResult(reviewResult, config.pricing), undefined, slug);
+
     if (reviewResult.exitCode !== 0) {
       break;
     }
 
     lastVerdict = parseVerdict(reviewResult.output);
     lastReviewOutput = reviewResult.output;
-    appendReviewToProgress(cwd, pass, lastVerdict.verdict, reviewResult.output);
+    appendReviewToProgress(planDir, pass, lastVerdict.verdict, reviewResult.output);
 
     if (lastVerdict.verdict === "SHIP") break;
   }
@@ -235,11 +247,12 @@ export async function execute(
   const tasks = parseJsonTaskBlock(lastPlannerOutput) ?? parseTasksFromOutput(lastPlannerOutput);
 
   if (tasks.length === 0) {
-    store.setPlanSpec(cwd, lastPlannerOutput);
+    store.setPlanSpec(cwd, lastPlannerOutput, slug);
 
     return result(`Plan analysis complete but no tasks could be parsed.\n\nAnalysis saved to plan.md. Review and create tasks manually.`, {
       mode: "plan",
       prd: prdPath,
+      plan: slug,
       analysisLength: lastPlannerOutput.length
     });
   }
@@ -249,7 +262,7 @@ export async function execute(
 
   for (let i = 0; i < tasks.length; i++) {
     const task = tasks[i];
-    const created = store.createTask(cwd, task.title, task.description);
+    const created = store.createTask(cwd, task.title, task.description, undefined, slug, task.priority);
     createdTasks.push({ id: created.id, title: task.title, dependsOn: task.dependsOn });
     titleToId.set(task.title.toLowerCase(), created.id);
     titleToId.set(`task ${i + 1}`, created.id);
@@ -266,15 +279,15 @@ export async function execute(
         }
       }
       if (resolvedDeps.length > 0) {
-        store.updateTask(cwd, task.id, { depends_on: resolvedDeps });
+        store.updateTask(cwd, task.id, { depends_on: resolvedDeps }, slug);
       }
     }
   }
 
-  store.setPlanSpec(cwd, lastPlannerOutput);
+  store.setPlanSpec(cwd, lastPlannerOutput, slug);
 
   const taskList = createdTasks.map(t => {
-    const task = store.getTask(cwd, t.id);
+    const task = store.getTask(cwd, t.id, slug);
     const deps = task?.depends_on.length ? ` → deps: ${task.depends_on.join(", ")}` : "";
     return `  - ${t.id}: ${t.title}${deps}`;
   }).join("\n");
@@ -300,7 +313,7 @@ export async function execute(
   const planningBlock = planningSummary ? `${planningSummary}\n` : "";
   const warningBlock = warningLine ? `${warningLine}\n` : "";
 
-  const text = `✅ Plan created from **${prdPath}**
+  const text = `✅ Plan **${slug}** created from **${prdPath}** (now the active plan)
 
 ${planningBlock}**Tasks created:** ${createdTasks.length}
 ${warningBlock}
@@ -315,6 +328,7 @@ ${taskList}
   return result(text, {
     mode: "plan",
     prd: prdPath,
+    plan: slug,
     plannerAgent: PLANNER_AGENT,
     tasksCreated: createdTasks.map(t => ({ id: t.id, title: t.title }))
   });
@@ -324,24 +338,31 @@ ${taskList}
 // Prompt Builders
 // =============================================================================
 
-function buildFirstPassPrompt(prdPath: string, prdContent: string, existingProgress: string): string {
+function buildFirstPassPrompt(
+  prdPath: string,
+  prdContent: string,
+  existingProgress: string,
+  lessons: string
+): string {
   const progressSection = existingProgress
     ? `\n## Previous Planning Context\n${existingProgress}\n`
     : "";
+  const lessonsSection = lessons ? `\n${lessons}` : "";
 
   return `Create a task breakdown for implementing this PRD.
 
 ## PRD: ${prdPath}
 
 ${prdContent}
-${progressSection}
+${progressSection}${lessonsSection}
 Explore the codebase, identify patterns and conventions, then create a task breakdown following the output format in your instructions.`;
 }
 
 function buildRefinementPrompt(
   prdPath: string,
   prdContent: string,
-  progressFileContent: string
+  progressFileContent: string,
+  lessons: string
 ): string {
   return `Refine your task breakdown based on review feedback.
 
@@ -350,7 +371,7 @@ ${prdContent}
 
 ## Planning Progress
 ${progressFileContent}
-
+${lessons ? `\n${lessons}` : ""}
 The planning progress above contains your previous findings and the reviewer's
 feedback. Address the issues raised. You can use tools to re-examine specific
 files if needed, but focus on refinement rather than full re-exploration.
@@ -390,7 +411,7 @@ Evaluate this plan against the PRD:
 5. Parallelism — are there unnecessary sequential dependencies? Tasks that don't share files or types should be independent. Flag any chain that could be split into concurrent streams.
 6. Critical path — what's the longest dependency chain? Could it be shortened by restructuring?
 
-Output your verdict as SHIP, NEEDS_WORK, or MAJOR_RETHINK with detailed feedback.`;
+Give detailed feedback, then end with the fenced \`\`\`json verdict block (SHIP, NEEDS_WORK, or MAJOR_RETHINK).`;
 }
 
 // =============================================================================
@@ -401,6 +422,15 @@ interface ParsedTask {
   title: string;
   description: string;
   dependsOn: string[];
+  priority?: TaskPriority;
+}
+
+function parsePriority(value: unknown): TaskPriority | undefined {
+  if (typeof value !== "string") return undefined;
+  const normalized = value.trim().toLowerCase();
+  return normalized === "high" || normalized === "normal" || normalized === "low"
+    ? normalized
+    : undefined;
 }
 
 function parseJsonTaskBlock(output: string): ParsedTask[] | null {
@@ -414,7 +444,8 @@ function parseJsonTaskBlock(output: string): ParsedTask[] | null {
       .map((t: Record<string, unknown>) => ({
         title: (t.title as string).trim(),
         description: typeof t.description === "string" ? t.description : "",
-        dependsOn: Array.isArray(t.dependsOn) ? t.dependsOn.filter((d: unknown) => typeof d === "string") : []
+        dependsOn: Array.isArray(t.dependsOn) ? t.dependsOn.filter((d: unknown) => typeof d === "string") : [],
+        priority: parsePriority(t.priority)
       }));
     return tasks.length > 0 ? tasks : null;
   } catch {
@@ -429,6 +460,7 @@ function parseJsonTaskBlock(output: string): ParsedTask[] | null {
  * ### Task 1: [Title]
  * [Description...]
  * Dependencies: none | Task 1, Task 2
+ * Priority: high | normal | low (optional)
  */
 function parseTasksFromOutput(output: string): ParsedTask[] {
   const tasks: ParsedTask[] = [];
@@ -453,11 +485,15 @@ function parseTasksFromOutput(output: string): ParsedTask[] {
       }
     }
 
+    const priorityMatch = body.match(/Priority:\s*(\w+)/i);
+    const priority = priorityMatch ? parsePriority(priorityMatch[1]) : undefined;
+
     const description = body
       .replace(/Dependencies?:\s*.+?(?:\n|$)/i, "")
+      .replace(/Priority:\s*\w+[^\n]*(?:\n|$)/i, "")
       .trim();
 
-    tasks.push({ title, description, dependsOn });
+    tasks.push({ title, description, dependsOn, priority });
   }
 
   return tasks;
@@ -11,9 +11,12 @@ import type { CrewParams } from "../types.js";
 import { result } from "../utils/result.js";
 import { spawnAgents } from "../agents.js";
 import { discoverCrewAgents } from "../utils/discover.js";
-import { loadCrewConfig } from "../utils/config.js";
-import { parseVerdict, type ParsedReview } from "../utils/verdict.js";
+import { loadCrewConfig, type CrewConfig } from "../utils/config.js";
+import { usageFromResult } from "../utils/usage.js";
+import { formatIssue, parseVerdict, type ParsedReview } from "../utils/verdict.js";
 import * as store from "../store.js";
+import { autonomousState, stopAutonomous } from "../state.js";
+import { addMemory, lessonFromReview } from "../memory.js";
 
 export async function execute(
   params: CrewParams,
@@ -22,7 +25,6 @@ export async function execute(
   const cwd = ctx.cwd ?? process.cwd();
   const { target, type } = params;
   const config = loadCrewConfig(store.getCrewDir(cwd));
-  const reviewerModel = config.models?.reviewer;
 
   if (!target) {
     return result("Error: target (task ID) required for review action.\n\nUsage: pi_messenger({ action: \"review\", target: \"task-1\" })", {
@@ -45,9 +47,9 @@ export async function execute(
   const reviewType = type ?? (target.startsWith("task-") ? "impl" : "plan");
 
   if (reviewType === "impl") {
-    return reviewImplementation(cwd, target, reviewerModel);
+    return reviewImplementation(cwd, target, config, params.plan);
   } else {
-    return reviewPlan(cwd, reviewerModel);
+    return reviewPlan(cwd, config, params.plan);
   }
 }
 
@@ -55,8 +57,8 @@ export async function execute(
 // Implementation Review
 // =============================================================================
 
-async function reviewImplementation(cwd: string, taskId: string, modelOverride?: string) {
-  const task = store.getTask(cwd, taskId);
+async function reviewImplementation(cwd: string, taskId: string, config: CrewConfig, planSlug?: string) {
+  const task = store.getTask(cwd, taskId, planSlug);
   if (!task) {
     return result(`Error: Task ${taskId} not found.`, {
       mode: "review",
@@ -73,21 +75,82 @@ async function reviewImplementation(cwd: string, taskId: string, modelOverride?:
     });
   }
 
-  // Get git diff
-  const baseCommit = task.base_commit;
-  if (!baseCommit) {
+  if (!task.base_commit) {
     return result(`Error: Task ${taskId} has no base_commit. Cannot generate diff.`, {
       mode: "review",
       error: "no_base_commit"
     });
   }
 
-  const diff = getGitDiff(baseCommit, cwd);
-  const commitLog = getCommitLog(baseCommit, cwd);
+  const outcome = await reviewTask(cwd, taskId, config, planSlug);
+  if (!outcome.verdict) {
+    return result(`Error: Reviewer failed: ${outcome.error ?? "Unknown error"}`, {
+      mode: "review",
+      error: "reviewer_failed"
+    });
+  }
+  const verdict = outcome.verdict;
+
+  const text = `# Review: ${taskId}
+
+**Verdict:** ${verdict.verdict}
+
+${verdict.summary}
+
+${verdict.issues.length > 0 ? `## Issues\n${verdict.issues.map(i => `- ${formatIssue(i)}`).join("\n")}` : ""}
+
+${verdict.suggestions.length > 0 ? `## Suggestions\n${verdict.suggestions.map(s => `- ${s}`).join("\n")}` : ""}
+
+${formatNote(verdict)}${verdict.verdict === "SHIP" ? "✅ Ready to merge!" : verdict.verdict === "NEEDS_WORK" ? "⚠️ Address issues and re-review." : "🔄 Consider re-planning this task."}`;
+
+  return result(text, {
+    mode: "review",
+    type: "impl",
+    taskId,
+    verdict: verdict.verdict,
+    verdictFormat: verdict.format,
+    issues: verdict.issues,
+    issueCount: verdict.issues.length,
+    suggestionCount: verdict.suggestions.length
+  });
+}
+
+/**
+ * Run the reviewer on a task's changes since its base_commit and store the
+ * verdict as last_review. `repoDir` is where the diff is taken (the task's
+ * worktree when isolated). Used by the review action and by work's review loop.
+ */
+export async function reviewTask(
+  cwd: string,
+  taskId: string,
+  config: CrewConfig,
+  planSlug?: string,
+  repoDir: string = cwd
+): Promise<{ verdict?: ParsedReview; error?: string }> {
+  const task = store.getTask(cwd, taskId, planSlug);
+  if (!task) return { error: `Task ${taskId} not found` };
+  const baseCommit = task.base_commit;
+  if (!baseCommit) return { error: `Task ${taskId} has no base_commit` };
+
+  const diff = getGitDiff(baseCommit, repoDir);
+  const commitLog = getCommitLog(baseCommit, repoDir);
 
   // Get task spec for context
-  const taskSpec = store.getTaskSpec(cwd, taskId) ?? "";
-  const plan = store.getPlan(cwd);
+  const taskSpec = store.getTaskSpec(cwd, taskId, planSlug) ?? "";
+  const plan = store.getPlan(cwd, planSlug);
+
+  // On a re-review, remind the reviewer what it asked for last time
+  const previousReview = task.last_review?.verdict === "NEEDS_WORK"
+    ? `## Previous Review (NEEDS_WORK)
+
+${task.last_review.summary}
+
+${task.last_review.issues.map(i => `- ${formatIssue(i)}`).join("\n")}
+
+Check that these issues were addressed.
+
+`
+    : "";
 
   // Build review prompt
   const prompt = `# Code Review Request
@@ -102,7 +165,7 @@ async function reviewImplementation(cwd: string, taskId: string, modelOverride?:
 
 ${taskSpec || "*No spec available*"}
 
-## Changes
+${previousReview}## Changes
 
 ### Commits
 ${commitLog || "*No commits*"}
@@ -115,20 +178,21 @@ ${diff}
 ## Your Review
 
 Review this implementation following the crew-reviewer protocol.
-Output your verdict as SHIP, NEEDS_WORK, or MAJOR_RETHINK with detailed feedback.`;
+End with the fenced \`\`\`json verdict block (SHIP, NEEDS_WORK, or MAJOR_RETHINK).
+Give each issue the file and line it refers to.`;
 
   // Spawn reviewer
   const [reviewResult] = await spawnAgents([{
     agent: "crew-reviewer",
     task: prompt,
-    modelOverride,
+    modelOverride: config.models?.reviewer,
+    cwd: repoDir,
   }], 1, cwd);
 
+  store.recordUsage(cwd, usageFromResult(reviewResult, config.pricing), taskId, planSlug);
+
   if (reviewResult.exitCode !== 0) {
-    return result(`Error: Reviewer failed: ${reviewResult.error ?? "Unknown error"}`, {
-      mode: "review",
-      error: "reviewer_failed"
-    });
+    return { error: reviewResult.error ?? "Unknown error" };
   }
 
   // Parse verdict from output
@@ -143,36 +207,26 @@ Output your verdict as SHIP, NEEDS_WORK, or MAJOR_RETHINK with detailed feedback
       suggestions: verdict.suggestions,
       reviewed_at: new Date().toISOString()
     }
-  });
-
-  const text = `# Review: ${taskId}
+  }, planSlug);
 
-**Verdict:** ${verdict.verdict}
+  if (verdict.verdict === "MAJOR_RETHINK") stopOnMajorRethink(cwd, config, `${taskId} reviewed as MAJOR_RETHINK`);
 
-${verdict.summary}
-
-${verdict.issues.length > 0 ? `## Issues\n${verdict.issues.map(i => `- ${i}`).join("\n")}` : ""}
-
-${verdict.suggestions.length > 0 ? `## Suggestions\n${verdict.suggestions.map(s => `- ${s}`).join("\n")}` : ""}
-
-${verdict.verdict === "SHIP" ? "✅ Ready to merge!" : verdict.verdict === "NEEDS_WORK" ? "⚠️ Address issues and re-review." : "🔄 Consider re-planning this task."}`;
+  if (verdict.verdict === "NEEDS_WORK" && config.memory.enabled) {
+    addMemory(cwd, lessonFromReview(task.title, verdict), "review", {
+      taskId,
+      plan: store.resolvePlanSlug(cwd, planSlug)
+    });
+  }
 
-  return result(text, {
-    mode: "review",
-    type: "impl",
-    taskId,
-    verdict: verdict.verdict,
-    issueCount: verdict.issues.length,
-    suggestionCount: verdict.suggestions.length
-  });
+  return { verdict };
 }
 
 // =============================================================================
 // Plan Review
 // =============================================================================
 
-async function reviewPlan(cwd: string, modelOverride?: string) {
-  const plan = store.getPlan(cwd);
+async function reviewPlan(cwd: string, config: CrewConfig, planSlug?: string) {
+  const plan = store.getPlan(cwd, planSlug);
   if (!plan) {
     return result("Error: No plan found.", {
       mode: "review",
@@ -180,12 +234,12 @@ async function reviewPlan(cwd: string, modelOverride?: string) {
     });
   }
 
-  const planSpec = store.getPlanSpec(cwd);
-  const tasks = store.getTasks(cwd);
+  const planSpec = store.getPlanSpec(cwd, planSlug);
+  const tasks = store.getTasks(cwd, planSlug);
 
   // Build task overview
   const taskOverview = tasks.map(t => {
-    const spec = store.getTaskSpec(cwd, t.id);
+    const spec = store.getTaskSpec(cwd, t.id, planSlug);
     const deps = t.depends_on.length > 0 ? ` (deps: ${t.depends_on.join(", ")})` : "";
     const specPreview = spec && !spec.includes("*Spec pending*")
       ? `\n  ${spec.slice(0, 200)}${spec.length > 200 ? "..." : ""}`
@@ -220,15 +274,17 @@ Review this plan for:
 5. Parallelism - Are there unnecessary sequential dependencies? Tasks that don't share files or types should be independent.
 6. Critical path - What's the longest dependency chain? Could it be shortened?
 
-Output your verdict as SHIP (plan is solid), NEEDS_WORK (minor adjustments), or MAJOR_RETHINK (fundamental issues).`;
+End with the fenced \`\`\`json verdict block: SHIP (plan is solid), NEEDS_WORK (minor adjustments), or MAJOR_RETHINK (fundamental issues).`;
 
   // Spawn reviewer
   const [reviewResult] = await spawnAgents([{
     agent: "crew-reviewer",
     task: prompt,
-    modelOverride,
+    modelOverride: config.models?.reviewer,
   }], 1, cwd);
 
+  store.recordUsage(cwd, usageFromResult(reviewResult, config.pricing), undefined, planSlug);
+
   if (reviewResult.exitCode !== 0) {
     return result(`Error: Reviewer failed: ${reviewResult.error ?? "Unknown error"}`, {
       mode: "review",
@@ -239,6 +295,8 @@ Output your verdict as SHIP (plan is solid), NEEDS_WORK (minor adjustments), or
   // Parse verdict
   const verdict: ParsedReview = parseVerdict(reviewResult.output);
 
+  if (verdict.verdict === "MAJOR_RETHINK") stopOnMajorRethink(cwd, config, "plan reviewed as MAJOR_RETHINK");
+
   const text = `# Plan Review
 
 **PRD:** ${plan.prd}
@@ -246,17 +304,19 @@ Output your verdict as SHIP (plan is solid), NEEDS_WORK (minor adjustments), or
 
 ${verdict.summary}
 
-${verdict.issues.length > 0 ? `## Issues\n${verdict.issues.map(i => `- ${i}`).join("\n")}` : ""}
+${verdict.issues.length > 0 ? `## Issues\n${verdict.issues.map(i => `- ${formatIssue(i)}`).join("\n")}` : ""}
 
 ${verdict.suggestions.length > 0 ? `## Suggestions\n${verdict.suggestions.map(s => `- ${s}`).join("\n")}` : ""}
 
-${verdict.verdict === "SHIP" ? "✅ Plan is ready for execution!" : verdict.verdict === "NEEDS_WORK" ? "⚠️ Adjust plan before starting work." : "🔄 Consider re-planning with more context."}`;
+${formatNote(verdict)}${verdict.verdict === "SHIP" ? "✅ Plan is ready for execution!" : verdict.verdict === "NEEDS_WORK" ? "⚠️ Adjust plan before starting work." : "🔄 Consider re-planning with more context."}`;
 
   return result(text, {
     mode: "review",
     type: "plan",
     prd: plan.prd,
     verdict: verdict.verdict,
+    verdictFormat: verdict.format,
+    issues: verdict.issues,
     issueCount: verdict.issues.length,
     suggestionCount: verdict.suggestions.length
   });
@@ -266,6 +326,25 @@ ${verdict.verdict === "SHIP" ? "✅ Plan is ready for execution!" : verdict.verd
 // Helpers
 // =============================================================================
 
+/**
+ * Halt a running autonomous session when the stopOnMajorRethink policy is set.
+ * Work also checks this after each wave; stopping here avoids one more wave.
+ */
+function stopOnMajorRethink(cwd: string, config: CrewConfig, detail: string): void {
+  if (!autonomousState.active || autonomousState.cwd !== cwd) return;
+  if (!config.work.stopOnMajorRethink) return;
+  stopAutonomous("major_rethink", detail);
+}
+
+/**
+ * Flag reviews whose JSON verdict block was rejected, so a malformed block
+ * doesn't pass silently as the markdown fallback's NEEDS_WORK default.
+ */
+function formatNote(verdict: ParsedReview): string {
+  if (!verdict.errors) return "";
+  return `⚠️ Verdict block was invalid (${verdict.errors.join("; ")}); fell back to the markdown sections.\n\n`;
+}
+
 function getGitDiff(baseCommit: string, cwd: string): string {
   try {
     const diff = execSync(
@@ -6,7 +6,7 @@
 
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
 import type { MessengerState, Dirs } from "../../lib.js";
-import type { CrewParams } from "../types.js";
+import type { CrewParams, TokenUsage } from "../types.js";
 import { result } from "../utils/result.js";
 import { discoverCrewAgents } from "../utils/discover.js";
 import { 
@@ -17,23 +17,28 @@ import {
 } from "../utils/install.js";
 import * as store from "../store.js";
 import { autonomousState } from "../state.js";
+import { describeStopReason, getTotalTokens } from "../stop-policy.js";
+import { loadCrewConfig } from "../utils/config.js";
+import { addUsage, emptyUsage, formatCost, formatTokens, formatUsage, totalTokens } from "../utils/usage.js";
 
 /**
  * Execute status action - shows plan progress.
  */
 export async function execute(
-  _params: CrewParams,
+  params: CrewParams,
   _state: MessengerState,
   _dirs: Dirs,
   ctx: ExtensionContext
 ) {
   const cwd = ctx.cwd ?? process.cwd();
-  const plan = store.getPlan(cwd);
+  const slug = store.resolvePlanSlug(cwd, params.plan);
+  const plan = store.getPlan(cwd, slug);
 
   if (!plan) {
+    const heading = params.plan ? `**No plan named "${slug}".**` : "**No active plan.**";
     return result(`# Crew Status
 
-**No active plan.**
+${heading}
 
 Create a plan from your PRD:
   pi_messenger({ action: "plan" })                    # Auto-discovers PRD.md
@@ -43,11 +48,11 @@ Create a plan from your PRD:
     });
   }
 
-  const tasks = store.getTasks(cwd);
+  const tasks = store.getTasks(cwd, slug);
   const done = tasks.filter(t => t.status === "done");
   const inProgress = tasks.filter(t => t.status === "in_progress");
   const blocked = tasks.filter(t => t.status === "blocked");
-  const ready = store.getReadyTasks(cwd);
+  const ready = store.getReadyTasks(cwd, slug);
   const waiting = tasks.filter(t => 
     t.status === "todo" && !ready.some(r => r.id === t.id)
   );
@@ -56,8 +61,8 @@ Create a plan from your PRD:
 
   let text = `# Crew Status
 
-**Plan:** ${plan.prd}
-**Progress:** ${done.length}/${tasks.length} tasks (${pct}%)
+**Plan:** ${slug} (${plan.prd})
+**Progress:** ${done.length}/${tasks.length} tasks (${pct}%)${spendLine(cwd, plan.usage)}
 
 ## Tasks
 `;
@@ -105,10 +110,20 @@ Create a plan from your PRD:
     }
   }
 
+  // List sibling plans so switching is discoverable
+  const plans = store.listPlans(cwd);
+  if (plans.length > 1) {
+    text += `\n## Plans\n`;
+    for (const p of plans) {
+      const marker = p.active ? " ← active" : "";
+      text += `  - ${p.slug}: ${p.plan.prd} (${p.plan.completed_count}/${p.plan.task_count})${marker}\n`;
+    }
+  }
+
   // Add autonomous status if active
   if (autonomousState.active) {
     text += `\n## Autonomous Mode\n`;
-    text += `Wave ${autonomousState.waveNumber} running...\n`;
+    text += `Wave ${autonomousState.waveNumber} running on ${autonomousState.plan ?? slug}...\n`;
     if (autonomousState.startedAt) {
       const startTime = new Date(autonomousState.startedAt).getTime();
       const elapsedMs = Date.now() - startTime;
@@ -116,6 +131,17 @@ Create a plan from your PRD:
       const seconds = Math.floor((elapsedMs % 60000) / 1000);
       text += `Elapsed: ${minutes}:${seconds.toString().padStart(2, "0")}\n`;
     }
+    const runUsage = autonomousState.waveHistory.reduce((sum, w) => addUsage(sum, w.usage), emptyUsage());
+    if (runUsage.cost > 0 || totalTokens(runUsage) > 0) {
+      text += `This run: ${formatUsage(runUsage)}\n`;
+    } else {
+      const tokens = getTotalTokens(autonomousState);
+      if (tokens > 0) text += `Tokens: ${tokens}\n`;
+    }
+  } else if (autonomousState.stopReason && autonomousState.cwd === cwd) {
+    const detail = autonomousState.stopDetail ? ` — ${autonomousState.stopDetail}` : "";
+    text += `\n## Autonomous Mode\n`;
+    text += `Stopped after ${autonomousState.waveHistory.length} wave(s): ${describeStopReason(autonomousState.stopReason)}${detail}\n`;
   }
 
   // Add next steps
@@ -133,8 +159,11 @@ Create a plan from your PRD:
   return result(text, {
     mode: "status",
     hasPlan: true,
+    plan: slug,
+    plans: plans.map(p => p.slug),
     prd: plan.prd,
     progress: { done: done.length, total: tasks.length, pct },
+    usage: plan.usage ?? null,
     tasks: {
       done: done.map(t => t.id),
       inProgress: inProgress.map(t => t.id),
@@ -142,16 +171,33 @@ Create a plan from your PRD:
       waiting: waiting.map(t => t.id),
       blocked: blocked.map(t => t.id)
     },
-    autonomous: autonomousState.active
+    autonomous: autonomousState.active,
+    stopReason: autonomousState.stopReason,
+    stopDetail: autonomousState.stopDetail
   });
 }
 
 /**
- * Execute crew.* actions (crew.status, crew.agents, crew.install, crew.uninstall)
+ * Plan spend plus the configured budget, as an extra status line.
+ */
+function spendLine(cwd: string, usage: TokenUsage | undefined): string {
+  const { budget } = loadCrewConfig(store.getCrewDir(cwd));
+  const limits: string[] = [];
+  if (budget?.maxCostUsd !== undefined) limits.push(formatCost(budget.maxCostUsd));
+  if (budget?.maxTokens !== undefined) limits.push(`${formatTokens(budget.maxTokens)} tokens`);
+  if (!usage && limits.length === 0) return "";
+
+  const spent = usage ? formatUsage(usage) : "nothing yet";
+  const budgetText = limits.length > 0 ? ` (budget ${limits.join(", ")})` : "";
+  return `\n**Spend:** ${spent}${budgetText}`;
+}
+
+/**
+ * Execute crew.* actions (crew.status, crew.plans, crew.use, crew.artifacts.*, crew.memory.*, crew.agents, crew.install, crew.uninstall)
  */
 export async function executeCrew(
   op: string,
-  _params: CrewParams,
+  params: CrewParams,
   _state: MessengerState,
   _dirs: Dirs,
   ctx: ExtensionContext
@@ -161,7 +207,72 @@ export async function executeCrew(
   switch (op) {
     case "status": {
       // Same as main status
-      return execute(_params, _state, _dirs, ctx);
+      return execute(params, _state, _dirs, ctx);
+    }
+
+    case "plans": {
+      const plans = store.listPlans(cwd);
+      if (plans.length === 0) {
+        return result("No plans yet. Create one with: pi_messenger({ action: \"plan\" })", {
+          mode: "crew.plans",
+          plans: []
+        });
+      }
+
+      let text = "# Crew Plans\n";
+      for (const p of plans) {
+        const marker = p.active ? " ← active" : "";
+        text += `\n- **${p.slug}**: ${p.plan.prd} (${p.plan.completed_count}/${p.plan.task_count})${marker}`;
+      }
+      text += `\n\nSwitch with: \`pi_messenger({ action: "crew.use", plan: "<name>" })\``;
+
+      return result(text, {
+        mode: "crew.plans",
+        plans: plans.map(p => ({
+          slug: p.slug,
+          prd: p.plan.prd,
+          completed: p.plan.completed_count,
+          total: p.plan.task_count,
+          active: p.active
+        }))
+      });
+    }
+
+    case "use": {
+      if (!params.plan) {
+        return result("Error: plan required for crew.use.", { mode: "crew.use", error: "missing_plan" });
+      }
+      const slug = store.toPlanSlug(params.plan);
+      const plan = store.getPlan(cwd, slug);
+      if (!plan) {
+        return result(`Error: No plan named "${slug}". See pi_messenger({ action: "crew.plans" }).`, {
+          mode: "crew.use",
+          error: "not_found",
+          plan: slug
+        });
+      }
+      store.setActivePlan(cwd, slug);
+      return result(`✅ Active plan is now **${slug}** (${plan.prd})`, {
+        mode: "crew.use",
+        plan: slug,
+        prd: plan.prd
+      });
+    }
+
+    case "artifacts":
+    case "artifacts.list":
+    case "artifacts.show":
+    case "artifacts.purge": {
+      const artifactsHandler = await import("./artifacts.js");
+      return artifactsHandler.execute(op.split(".")[1] ?? "list", params, cwd);
+    }
+
+    case "memory":
+    case "memory.list":
+    case "memory.add":
+    case "memory.forget": {
+      const memoryHandler = await import("./memory.js");
+      return memoryHandler.execute(op.split(".")[1] ?? "list", params, cwd);
     }
 
     case "agents": {
@@ -222,7 +333,7 @@ export async function executeCrew(
     }
 
     case "validate": {
-      const validation = store.validatePlan(cwd);
+      const validation = store.validatePlan(cwd, params.plan);
       
       if (validation.valid && validation.warnings.length === 0) {
         return result("✅ Plan is valid with no warnings.", {
@@ -2,15 +2,20 @@
  * Crew - Sync Handler
  * 
  * Updates downstream specs after task completion.
- * Works with current plan's tasks.
+ * Works with current plan's tasks. Runs on demand via the sync action, or
+ * after every completed task in work when planSync.enabled is set.
  */
 
+import * as fs from "node:fs";
+import * as path from "node:path";
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
 import type { MessengerState, Dirs } from "../../lib.js";
 import type { CrewParams } from "../types.js";
 import { result } from "../utils/result.js";
 import { spawnAgents } from "../agents.js";
 import { discoverCrewAgents } from "../utils/discover.js";
+import { loadCrewConfig } from "../utils/config.js";
+import { usageFromResult } from "../utils/usage.js";
 import * as store from "../store.js";
 
 export async function execute(
@@ -30,7 +35,7 @@ export async function execute(
   }
 
   // Verify plan exists
-  const plan = store.getPlan(cwd);
+  const plan = store.getPlan(cwd, params.plan);
   if (!plan) {
     return result("Error: No plan found.", {
       mode: "sync",
@@ -39,7 +44,7 @@ export async function execute(
   }
 
   // Verify task exists and is completed
-  const task = store.getTask(cwd, target);
+  const task = store.getTask(cwd, target, params.plan);
   if (!task) {
     return result(`Error: Task ${target} not found.`, {
       mode: "sync",
@@ -66,14 +71,9 @@ export async function execute(
     });
   }
 
-  const allTasks = store.getTasks(cwd);
-  
-  // Find dependent tasks (tasks that depend on the completed task)
-  const dependentTasks = allTasks.filter(t => 
-    t.depends_on.includes(target) && t.status === "todo"
-  );
+  const outcome = await syncTask(cwd, target, params.plan);
 
-  if (dependentTasks.length === 0) {
+  if (outcome.dependentTasks.length === 0) {
     return result(`No downstream tasks depend on ${target}. No sync needed.`, {
       mode: "sync",
       taskId: target,
@@ -82,13 +82,76 @@ export async function execute(
     });
   }
 
+  if (outcome.error) {
+    return result(`Error: Sync agent failed: ${outcome.error}`, {
+      mode: "sync",
+      error: "sync_failed"
+    });
+  }
+
+  const { updates, updatedCount } = outcome;
+  const readyTasks = store.getReadyTasks(cwd, params.plan);
+  const text = `# Sync Complete: ${target}
+
+**Dependent tasks checked:** ${outcome.dependentTasks.length}
+**Specs updated:** ${updatedCount}
+
+${updates.length > 0 ? `## Updates\n${updates.map(u => `- **${u.taskId}**: ${u.reason}`).join("\n")}` : "## No Updates Needed\n\nDependent task specs are already up to date."}
+
+${updatedCount > 0 ? `\n**Ready tasks:** ${readyTasks.map(t => t.id).join(", ") || "none"}\n**Sync log:** ${SYNC_LOG_FILE}` : ""}`;
+
+  return result(text, {
+    mode: "sync",
+    taskId: target,
+    dependentTasks: outcome.dependentTasks,
+    updatedCount,
+    updated: outcome.updatedTasks,
+    updates: updates.map(u => ({ taskId: u.taskId, reason: u.reason }))
+  });
+}
+
+// =============================================================================
+// Sync Core
+// =============================================================================
+
+export interface SyncOutcome {
+  dependentTasks: string[];
+  updates: SyncUpdate[];
+  updatedCount: number;
+  updatedTasks: string[];
+  error?: string;
+}
+
+/**
+ * Run crew-plan-sync for a completed task and apply its updates to the specs
+ * of todo tasks that depend on it. Every applied change is appended to the
+ * plan's sync log as a diff. Used by the sync action and by work when
+ * planSync.enabled is set.
+ */
+export async function syncTask(cwd: string, target: string, planSlug?: string): Promise<SyncOutcome> {
+  const task = store.getTask(cwd, target, planSlug);
+  const allTasks = store.getTasks(cwd, planSlug);
+
+  // Find dependent tasks (tasks that depend on the completed task)
+  const dependentTasks = allTasks.filter(t =>
+    t.depends_on.includes(target) && t.status === "todo"
+  );
+
+  const outcome: SyncOutcome = {
+    dependentTasks: dependentTasks.map(t => t.id),
+    updates: [],
+    updatedCount: 0,
+    updatedTasks: []
+  };
+  if (!task || dependentTasks.length === 0) return outcome;
+
   // Get completed task details for context
-  const taskSpec = store.getTaskSpec(cwd, target);
+  const taskSpec = store.getTaskSpec(cwd, target, planSlug);
   const taskSummary = task.summary ?? "No summary";
 
   // Build task overview for dependent tasks
   const dependentOverview = dependentTasks.map(t => {
-    const spec = store.getTaskSpec(cwd, t.id);
+    const spec = store.getTaskSpec(cwd, t.id, planSlug);
     return `### ${t.id}: ${t.title}
 
 ${spec || "*No spec*"}
@@ -129,26 +192,25 @@ Follow the output format in your instructions.`;
     task: prompt
   }], 1, cwd);
 
+  const { pricing } = loadCrewConfig(store.getCrewDir(cwd));
+  store.recordUsage(cwd, usageFromResult(syncResult, pricing), target, planSlug);
+
   if (syncResult.exitCode !== 0) {
-    return result(`Error: Sync agent failed: ${syncResult.error ?? "Unknown error"}`, {
-      mode: "sync",
-      error: "sync_failed"
-    });
+    return { ...outcome, error: syncResult.error ?? "Unknown error" };
   }
 
   // Parse sync results
-  const updates = parseSyncUpdates(syncResult.output);
+  outcome.updates = parseSyncUpdates(syncResult.output);
 
   // Apply updates to task specs
-  let updatedCount = 0;
-  for (const update of updates) {
+  for (const update of outcome.updates) {
     const matchingTask = dependentTasks.find(t => 
       t.id === update.taskId || 
       t.title.toLowerCase().includes(update.taskId.toLowerCase())
     );
 
     if (matchingTask && update.newContent) {
-      const currentSpec = store.getTaskSpec(cwd, matchingTask.id) ?? "";
+      const currentSpec = store.getTaskSpec(cwd, matchingTask.id, planSlug) ?? "";
       
       // Append update to spec (don't replace)
       const updatedSpec = `${currentSpec}
@@ -158,28 +220,79 @@ Follow the output format in your instructions.`;
 
 ${update.newContent}`;
 
-      store.setTaskSpec(cwd, matchingTask.id, updatedSpec);
-      updatedCount++;
+      store.setTaskSpec(cwd, matchingTask.id, updatedSpec, planSlug);
+      appendSyncLog(cwd, planSlug, target, matchingTask.id, update.reason, currentSpec, updatedSpec);
+      outcome.updatedCount++;
+      outcome.updatedTasks.push(matchingTask.id);
     }
   }
 
-  const readyTasks = store.getReadyTasks(cwd);
-  const text = `# Sync Complete: ${target}
+  return outcome;
+}
 
-**Dependent tasks checked:** ${dependentTasks.length}
-**Specs updated:** ${updatedCount}
+// =============================================================================
+// Sync Log
+// =============================================================================
 
-${updates.length > 0 ? `## Updates\n${updates.map(u => `- **${u.taskId}**: ${u.reason}`).join("\n")}` : "## No Updates Needed\n\nDependent task specs are already up to date."}
+const SYNC_LOG_FILE = "sync-log.md";
 
-${updatedCount > 0 ? `\n**Ready tasks:** ${readyTasks.map(t => t.id).join(", ") || "none"}` : ""}`;
+/**
+ * Append one spec rewrite to plans/<slug>/sync-log.md as a unified diff.
+ */
+function appendSyncLog(
+  cwd: string,
+  planSlug: string | undefined,
+  sourceTask: string,
+  targetTask: string,
+  reason: string,
+  before: string,
+  after: string
+): void {
+  const logPath = path.join(store.getPlanDir(cwd, planSlug), SYNC_LOG_FILE);
+  const header = fs.existsSync(logPath) ? "" : "# Plan Sync Log\n";
+  const entry = `
+## ${new Date().toISOString()} — ${targetTask} (after ${sourceTask})
+
+${reason}
+
+\`\`\`diff
+${diffLines(before, after, `tasks/${targetTask}.md`)}
+\`\`\`
+`;
+  fs.mkdirSync(path.dirname(logPath), { recursive: true });
+  fs.appendFileSync(logPath, header + entry);
+}
 
-  return result(text, {
-    mode: "sync",
-    taskId: target,
-    dependentTasks: dependentTasks.map(t => t.id),
-    updatedCount,
-    updates: updates.map(u => ({ taskId: u.taskId, reason: u.reason }))
-  });
+/**
+ * Minimal unified diff: one hunk spanning the lines between the common
+ * prefix and suffix. Enough to audit spec rewrites, which are mostly appends.
+ */
+export function diffLines(before: string, after: string, label: string): string {
+  const a = before === "" ? [] : before.split("\n");
+  const b = after === "" ? [] : after.split("\n");
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const removed = a.slice(prefix, a.length - suffix);
+  const added = b.slice(prefix, b.length - suffix);
+  const context = prefix > 0 ? [` ${a[prefix - 1]}`] : [];
+  const start = Math.max(prefix, 1);
+
+  return [
+    `--- a/${label}`,
+    `+++ b/${label}`,
+    `@@ -${start},${removed.length + context.length} +${start},${added.length + context.length} @@`,
+    ...context,
+    ...removed.map(l => `-${l}`),
+    ...added.map(l => `+${l}`),
+  ].join("\n");
 }
 
 // =============================================================================
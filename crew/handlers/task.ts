@@ -7,11 +7,16 @@
 
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
 import type { MessengerState, Dirs } from "../../lib.js";
-import type { CrewParams, TaskEvidence } from "../types.js";
+import type { CrewParams, TaskEvidence, TaskPriority } from "../types.js";
 import { result } from "../utils/result.js";
+import { formatUsage } from "../utils/usage.js";
 import * as store from "../store.js";
+import { loadCrewConfig } from "../utils/config.js";
+import { addMemory, lessonFromBlock } from "../memory.js";
 import { logFeedEvent } from "../../feed.js";
 
+const TASK_PRIORITIES: TaskPriority[] = ["high", "normal", "low"];
+
 export async function execute(
   op: string,
   params: CrewParams,
@@ -27,7 +32,7 @@ export async function execute(
     case "show":
       return taskShow(cwd, params);
     case "list":
-      return taskList(cwd);
+      return taskList(cwd, params);
     case "start":
       return taskStart(cwd, params, state, dirs);
     case "done":
@@ -37,7 +42,7 @@ export async function execute(
     case "unblock":
       return taskUnblock(cwd, params);
     case "ready":
-      return taskReady(cwd);
+      return taskReady(cwd, params);
     case "reset":
       return taskReset(cwd, params);
     default:
@@ -55,33 +60,41 @@ function taskCreate(cwd: string, params: CrewParams) {
   }
 
   // Verify plan exists
-  const plan = store.getPlan(cwd);
+  const plan = store.getPlan(cwd, params.plan);
   if (!plan) {
     return result("Error: No plan exists. Create one first with pi_messenger({ action: \"plan\" })", { 
       mode: "task.create", error: "no_plan" 
     });
   }
 
+  if (params.priority && !TASK_PRIORITIES.includes(params.priority)) {
+    return result(`Error: priority must be one of ${TASK_PRIORITIES.join(", ")}`, {
+      mode: "task.create", error: "invalid_priority", priority: params.priority
+    });
+  }
+
   // Validate dependencies exist
   if (params.dependsOn && params.dependsOn.length > 0) {
     for (const depId of params.dependsOn) {
-      const dep = store.getTask(cwd, depId);
+      const dep = store.getTask(cwd, depId, params.plan);
       if (!dep) {
         return result(`Error: Dependency ${depId} not found`, { mode: "task.create", error: "dependency_not_found", dependency: depId });
       }
     }
   }
 
-  const task = store.createTask(cwd, params.title, params.content, params.dependsOn);
+  const task = store.createTask(cwd, params.title, params.content, params.dependsOn, params.plan, params.priority);
 
   const depsText = task.depends_on.length > 0 
     ? `\n**Depends on:** ${task.depends_on.join(", ")}`
     : "";
 
+  const priorityText = task.priority ? `\n**Priority:** ${task.priority}` : "";
+
   const text = `✅ Created task **${task.id}**
 
 **Title:** ${task.title}
-**Status:** ${task.status}${depsText}
+**Status:** ${task.status}${priorityText}${depsText}
 
 Start with: \`pi_messenger({ action: "task.start", id: "${task.id}" })\``;
 
@@ -91,6 +104,7 @@ Start with: \`pi_messenger({ action: "task.start", id: "${task.id}" })\``;
       id: task.id,
       title: task.title,
       status: task.status,
+      priority: task.priority ?? "normal",
       depends_on: task.depends_on,
     }
   });
@@ -106,12 +120,12 @@ function taskShow(cwd: string, params: CrewParams) {
     return result("Error: id required for task.show", { mode: "task.show", error: "missing_id" });
   }
 
-  const task = store.getTask(cwd, id);
+  const task = store.getTask(cwd, id, params.plan);
   if (!task) {
     return result(`Error: Task ${id} not found`, { mode: "task.show", error: "not_found", id });
   }
 
-  const spec = store.getTaskSpec(cwd, id);
+  const spec = store.getTaskSpec(cwd, id, params.plan);
 
   // Build status details
   let statusDetails = "";
@@ -133,6 +147,8 @@ function taskShow(cwd: string, params: CrewParams) {
     ? `\n**Depends on:** ${task.depends_on.join(", ")}`
     : "";
 
+  const usageText = task.usage ? `\n**Usage:** ${formatUsage(task.usage)}` : "";
+
   // Spec preview
   let specPreview = "";
   if (spec && !spec.includes("*Spec pending*")) {
@@ -150,7 +166,8 @@ function taskShow(cwd: string, params: CrewParams) {
   const text = `# Task ${task.id}: ${task.title}
 
 ${statusIcon} **Status:** ${task.status}${statusDetails}
-**Attempts:** ${task.attempt_count}${depsText}${specPreview}`;
+**Priority:** ${task.priority ?? "normal"}
+**Attempts:** ${task.attempt_count}${usageText}${depsText}${specPreview}`;
 
   return result(text, {
     mode: "task.show",
@@ -163,15 +180,15 @@ ${statusIcon} **Status:** ${task.status}${statusDetails}
 // task.list
 // =============================================================================
 
-function taskList(cwd: string) {
-  const plan = store.getPlan(cwd);
+function taskList(cwd: string, params: CrewParams) {
+  const plan = store.getPlan(cwd, params.plan);
   if (!plan) {
     return result("No plan found. Create one with: pi_messenger({ action: \"plan\" })", { 
       mode: "task.list", tasks: [], hasPlan: false 
     });
   }
 
-  const tasks = store.getTasks(cwd);
+  const tasks = store.getTasks(cwd, params.plan);
   if (tasks.length === 0) {
     return result(`No tasks in plan. Create with: \`pi_messenger({ action: "task.create", title: "..." })\``, {
       mode: "task.list",
@@ -180,13 +197,15 @@ function taskList(cwd: string) {
     });
   }
 
-  const lines: string[] = [`# Tasks for ${plan.prd}\n`];
+  const slug = store.resolvePlanSlug(cwd, params.plan);
+  const lines: string[] = [`# Tasks for ${plan.prd} (plan: ${slug})\n`];
   
   for (const task of tasks) {
     const icon = { todo: "⬜", in_progress: "🔄", done: "✅", blocked: "🚫" }[task.status];
     const deps = task.depends_on.length > 0 ? ` → deps: ${task.depends_on.join(", ")}` : "";
     const assignee = task.assigned_to ? ` [${task.assigned_to}]` : "";
-    lines.push(`${icon} **${task.id}**: ${task.title}${assignee}${deps}`);
+    const priority = task.priority && task.priority !== "normal" ? ` (${task.priority})` : "";
+    lines.push(`${icon} **${task.id}**: ${task.title}${priority}${assignee}${deps}`);
   }
 
   const done = tasks.filter(t => t.status === "done").length;
@@ -195,10 +214,12 @@ function taskList(cwd: string) {
   return result(lines.join("\n"), {
     mode: "task.list",
     prd: plan.prd,
+    plan: slug,
     tasks: tasks.map(t => ({
       id: t.id,
       title: t.title,
       status: t.status,
+      priority: t.priority ?? "normal",
       depends_on: t.depends_on,
     })),
   });
@@ -214,7 +235,7 @@ function taskStart(cwd: string, params: CrewParams, state: MessengerState, dirs:
     return result("Error: id required for task.start", { mode: "task.start", error: "missing_id" });
   }
 
-  const task = store.getTask(cwd, id);
+  const task = store.getTask(cwd, id, params.plan);
   if (!task) {
     return result(`Error: Task ${id} not found`, { mode: "task.start", error: "not_found", id });
   }
@@ -229,7 +250,7 @@ function taskStart(cwd: string, params: CrewParams, state: MessengerState, dirs:
   if (task.depends_on.length > 0) {
     const notDone: string[] = [];
     for (const depId of task.depends_on) {
-      const dep = store.getTask(cwd, depId);
+      const dep = store.getTask(cwd, depId, params.plan);
       if (dep && dep.status !== "done") {
         notDone.push(`${depId} (${dep.status})`);
       }
@@ -245,7 +266,7 @@ function taskStart(cwd: string, params: CrewParams, state: MessengerState, dirs:
   }
 
   const agentName = state.agentName || "unknown";
-  const started = store.startTask(cwd, id, agentName);
+  const started = store.startTask(cwd, id, agentName, params.plan);
 
   if (!started) {
     return result(`Error: Failed to start task ${id}`, { mode: "task.start", error: "start_failed", id });
@@ -253,7 +274,7 @@ function taskStart(cwd: string, params: CrewParams, state: MessengerState, dirs:
 
   logFeedEvent(dirs, agentName, "task.start", id, started.title);
 
-  const spec = store.getTaskSpec(cwd, id);
+  const spec = store.getTaskSpec(cwd, id, params.plan);
   const specPreview = spec && !spec.includes("*Spec pending*")
     ? `\n\n**Spec:**\n\`\`\`\n${spec.length > 1000 ? spec.slice(0, 1000) + "..." : spec}\n\`\`\``
     : "";
@@ -291,7 +312,7 @@ function taskDone(cwd: string, params: CrewParams, state: MessengerState, dirs:
     return result("Error: id required for task.done", { mode: "task.done", error: "missing_id" });
   }
 
-  const task = store.getTask(cwd, id);
+  const task = store.getTask(cwd, id, params.plan);
   if (!task) {
     return result(`Error: Task ${id} not found`, { mode: "task.done", error: "not_found", id });
   }
@@ -305,22 +326,22 @@ function taskDone(cwd: string, params: CrewParams, state: MessengerState, dirs:
   const summary = params.summary ?? "Task completed";
   const evidence: TaskEvidence | undefined = params.evidence;
 
-  const completed = store.completeTask(cwd, id, summary, evidence);
+  const completed = store.completeTask(cwd, id, summary, evidence, params.plan);
   if (!completed) {
     return result(`Error: Failed to complete task ${id}`, { mode: "task.done", error: "complete_failed", id });
   }
 
   logFeedEvent(dirs, state.agentName || "unknown", "task.done", id, summary);
 
-  const plan = store.getPlan(cwd);
-  const tasks = store.getTasks(cwd);
+  const plan = store.getPlan(cwd, params.plan);
+  const tasks = store.getTasks(cwd, params.plan);
   const remaining = tasks.filter(t => t.status !== "done");
 
   let nextSteps = "";
   if (remaining.length === 0) {
     nextSteps = `\n\n🎉 **All tasks complete!** Plan is finished.`;
   } else {
-    const ready = store.getReadyTasks(cwd);
+    const ready = store.getReadyTasks(cwd, params.plan);
     if (ready.length > 0) {
       nextSteps = `\n\n**Ready tasks:** ${ready.map(t => t.id).join(", ")}`;
     }
@@ -360,7 +381,7 @@ function taskBlock(cwd: string, params: CrewParams, state: MessengerState, dirs:
     return result("Error: reason required for task.block", { mode: "task.block", error: "missing_reason" });
   }
 
-  const task = store.getTask(cwd, id);
+  const task = store.getTask(cwd, id, params.plan);
   if (!task) {
     return result(`Error: Task ${id} not found`, { mode: "task.block", error: "not_found", id });
   }
@@ -371,13 +392,20 @@ function taskBlock(cwd: string, params: CrewParams, state: MessengerState, dirs:
     });
   }
 
-  const blocked = store.blockTask(cwd, id, params.reason);
+  const blocked = store.blockTask(cwd, id, params.reason, params.plan);
   if (!blocked) {
     return result(`Error: Failed to block task ${id}`, { mode: "task.block", error: "block_failed", id });
   }
 
   logFeedEvent(dirs, state.agentName || "unknown", "task.block", id, params.reason);
 
+  if (loadCrewConfig(store.getCrewDir(cwd)).memory.enabled) {
+    addMemory(cwd, lessonFromBlock(task.title, params.reason), "block", {
+      taskId: id,
+      plan: store.resolvePlanSlug(cwd, params.plan)
+    });
+  }
+
   const text = `🚫 Blocked task **${id}**
 
 **Reason:** ${params.reason}
@@ -405,7 +433,7 @@ function taskUnblock(cwd: string, params: CrewParams) {
     return result("Error: id required for task.unblock", { mode: "task.unblock", error: "missing_id" });
   }
 
-  const task = store.getTask(cwd, id);
+  const task = store.getTask(cwd, id, params.plan);
   if (!task) {
     return result(`Error: Task ${id} not found`, { mode: "task.unblock", error: "not_found", id });
   }
@@ -416,7 +444,7 @@ function taskUnblock(cwd: string, params: CrewParams) {
     });
   }
 
-  const unblocked = store.unblockTask(cwd, id);
+  const unblocked = store.unblockTask(cwd, id, params.plan);
   if (!unblocked) {
     return result(`Error: Failed to unblock task ${id}`, { mode: "task.unblock", error: "unblock_failed", id });
   }
@@ -439,18 +467,19 @@ Task is now ready to start: \`pi_messenger({ action: "task.start", id: "${id}" }
 // task.ready
 // =============================================================================
 
-function taskReady(cwd: string) {
-  const plan = store.getPlan(cwd);
+function taskReady(cwd: string, params: CrewParams) {
+  const plan = store.getPlan(cwd, params.plan);
   if (!plan) {
     return result("No plan found. Create one with: pi_messenger({ action: \"plan\" })", { 
       mode: "task.ready", ready: [], hasPlan: false 
     });
   }
 
-  const ready = store.getReadyTasks(cwd);
+  // Scheduler order: priority, then critical path
+  const ready = store.getScheduledReadyTasks(cwd, params.plan);
 
   if (ready.length === 0) {
-    const tasks = store.getTasks(cwd);
+    const tasks = store.getTasks(cwd, params.plan);
     const inProgress = tasks.filter(t => t.status === "in_progress");
     const blocked = tasks.filter(t => t.status === "blocked");
     const done = tasks.filter(t => t.status === "done");
@@ -499,13 +528,13 @@ function taskReset(cwd: string, params: CrewParams) {
     return result("Error: id required for task.reset", { mode: "task.reset", error: "missing_id" });
   }
 
-  const task = store.getTask(cwd, id);
+  const task = store.getTask(cwd, id, params.plan);
   if (!task) {
     return result(`Error: Task ${id} not found`, { mode: "task.reset", error: "not_found", id });
   }
 
   const cascade = params.cascade ?? false;
-  const resetTasks = store.resetTask(cwd, id, cascade);
+  const resetTasks = store.resetTask(cwd, id, cascade, params.plan);
 
   if (resetTasks.length === 0) {
     return result(`Error: Failed to reset task ${id}`, { mode: "task.reset", error: "reset_failed", id });
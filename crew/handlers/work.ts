@@ -15,6 +15,22 @@ import { discoverCrewAgents } from "../utils/discover.js";
 import * as store from "../store.js";
 import { getCrewDir } from "../store.js";
 import { autonomousState, startAutonomous, stopAutonomous, addWaveResult } from "../state.js";
+import { evaluateStopPolicies, describeStopReason, checkBudget } from "../stop-policy.js";
+import { addUsage, emptyUsage, formatUsage, usageFromResult } from "../utils/usage.js";
+import { formatMemoriesForPrompt, getRelevantMemories } from "../memory.js";
+import { formatIssue } from "../utils/verdict.js";
+import { syncTask } from "./sync.js";
+import { reviewTask } from "./review.js";
+import {
+  createTaskWorktree,
+  getHeadCommit,
+  getTaskBranch,
+  isGitRepo,
+  mergeTaskBranch,
+  orderByDependencies,
+  removeTaskWorktree,
+  type TaskWorktree
+} from "../worktree.js";
 
 export async function execute(
   params: CrewParams,
@@ -27,12 +43,20 @@ export async function execute(
   const config = loadCrewConfig(getCrewDir(cwd));
   const { autonomous, concurrency: concurrencyOverride } = params;
 
+  // Autonomous continuation stays on the plan it started with
+  const continuing = autonomousState.active && autonomousState.cwd === cwd;
+  const planSlug = store.resolvePlanSlug(
+    cwd,
+    params.plan ?? (continuing ? autonomousState.plan ?? undefined : undefined)
+  );
+
   // Verify plan exists
-  const plan = store.getPlan(cwd);
+  const plan = store.getPlan(cwd, planSlug);
   if (!plan) {
     return result("No plan found. Create one first:\n\n  pi_messenger({ action: \"plan\" })\n  pi_messenger({ action: \"plan\", prd: \"path/to/PRD.md\" })", {
       mode: "work",
-      error: "no_plan"
+      error: "no_plan",
+      plan: planSlug
     });
   }
 
@@ -47,10 +71,10 @@ export async function execute(
   }
 
   // Get ready tasks
-  const readyTasks = store.getReadyTasks(cwd);
+  const readyTasks = store.getReadyTasks(cwd, planSlug);
 
   if (readyTasks.length === 0) {
-    const tasks = store.getTasks(cwd);
+    const tasks = store.getTasks(cwd, planSlug);
     const inProgress = tasks.filter(t => t.status === "in_progress");
     const blocked = tasks.filter(t => t.status === "blocked");
     const done = tasks.filter(t => t.status === "done");
@@ -69,6 +93,7 @@ export async function execute(
     return result(`No ready tasks.\n\n${reason}`, {
       mode: "work",
       prd: plan.prd,
+      plan: planSlug,
       ready: [],
       reason,
       inProgress: inProgress.map(t => t.id),
@@ -76,18 +101,55 @@ export async function execute(
     });
   }
 
-  // Determine concurrency
+  // Determine concurrency. When there are more ready tasks than workers,
+  // high-priority and critical-path tasks go first.
   const concurrency = concurrencyOverride ?? config.concurrency.workers;
-  const tasksToRun = readyTasks.slice(0, concurrency);
+  const tasksToRun = store.getScheduledReadyTasks(cwd, planSlug).slice(0, concurrency);
 
-  // If autonomous mode, set up state and persist (only on first wave or cwd change)
-  if (autonomous && (!autonomousState.active || autonomousState.cwd !== cwd)) {
-    startAutonomous(cwd);
+  // Autonomous mode never starts a wave once the plan's budget is spent
+  const overBudget = autonomous ? checkBudget(config.budget, plan.usage) : null;
+  if (overBudget) {
+    if (continuing) {
+      stopAutonomous(overBudget.reason, overBudget.detail);
+      appendEntry("crew-state", autonomousState);
+    }
+    return result(`Autonomous mode refused to start a wave: ${overBudget.detail}.\n\nRaise \`crew.budget\` in config or run \`work\` without autonomous.`, {
+      mode: "work",
+      error: "budget_exceeded",
+      prd: plan.prd,
+      plan: planSlug,
+      usage: plan.usage
+    });
+  }
+
+  // If autonomous mode, set up state and persist (only on first wave or cwd/plan change)
+  if (autonomous && (!continuing || autonomousState.plan !== planSlug)) {
+    startAutonomous(cwd, planSlug);
     appendEntry("crew-state", autonomousState);
   }
 
+  // Worktree isolation: one worktree per task, cut from the current HEAD
+  const worktrees = new Map<string, TaskWorktree>();
+  const setupBlocked: string[] = [];
+  const isolationNote = config.work.isolation === "worktree" && !isGitRepo(cwd)
+    ? "⚠️ work.isolation is \"worktree\" but this is not a git repository; workers share the working tree."
+    : "";
+  if (config.work.isolation === "worktree" && !isolationNote) {
+    const baseCommit = getHeadCommit(cwd);
+    for (const task of tasksToRun) {
+      try {
+        const resume = task.last_review?.verdict === "NEEDS_WORK";
+        worktrees.set(task.id, createTaskWorktree(cwd, planSlug, task.id, baseCommit, { resume }));
+      } catch (err) {
+        const message = err instanceof Error ? err.message.split("\n")[0] : "unknown error";
+        store.blockTask(cwd, task.id, `Worktree setup failed: ${message}`, planSlug);
+        setupBlocked.push(task.id);
+      }
+    }
+  }
+
   // Spawn workers
-  const workerTasks = tasksToRun.map(task => {
+  const workerTasks = tasksToRun.filter(task => !setupBlocked.includes(task.id)).map(task => {
     const taskModel = resolveModel(
       task.model,
       params.model,
@@ -97,9 +159,10 @@ export async function execute(
 
     return {
       agent: "crew-worker",
-      task: buildWorkerPrompt(task, plan.prd, cwd),
+      task: buildWorkerPrompt(task, plan.prd, cwd, planSlug, config.memory.enabled, worktrees.get(task.id)),
       taskId: task.id,
       modelOverride: taskModel,
+      cwd: worktrees.get(task.id)?.dir,
     };
   });
 
@@ -116,16 +179,21 @@ export async function execute(
   // Process results
   const succeeded: string[] = [];
   const failed: string[] = [];
-  const blocked: string[] = [];
+  const blocked: string[] = [...setupBlocked];
+
+  let waveUsage = emptyUsage();
 
   for (let i = 0; i < workerResults.length; i++) {
     const r = workerResults[i];
     const taskId = r.taskId;
+    const usage = usageFromResult(r, config.pricing);
+    waveUsage = addUsage(waveUsage, usage);
+    store.recordUsage(cwd, usage, taskId, planSlug);
     if (!taskId) {
       failed.push(`unknown-result-${i}`);
       continue;
     }
-    const task = store.getTask(cwd, taskId);
+    const task = store.getTask(cwd, taskId, planSlug);
 
     if (r.exitCode === 0) {
       if (task?.status === "done") {
@@ -133,7 +201,7 @@ export async function execute(
       } else if (task?.status === "blocked") {
         blocked.push(taskId);
       } else if (r.wasGracefullyShutdown && task?.status === "in_progress") {
-        store.updateTask(cwd, taskId, { status: "todo", assigned_to: undefined });
+        store.updateTask(cwd, taskId, { status: "todo", assigned_to: undefined }, planSlug);
       } else {
         failed.push(taskId);
       }
@@ -144,10 +212,10 @@ export async function execute(
         } else if (task?.status === "blocked") {
           blocked.push(taskId);
         } else if (task?.status === "in_progress") {
-          store.updateTask(cwd, taskId, { status: "todo", assigned_to: undefined });
+          store.updateTask(cwd, taskId, { status: "todo", assigned_to: undefined }, planSlug);
         }
       } else if (autonomous && task?.status === "in_progress") {
-        store.blockTask(cwd, taskId, `Worker failed: ${r.error ?? "Unknown error"}`);
+        store.blockTask(cwd, taskId, `Worker failed: ${r.error ?? "Unknown error"}`, planSlug);
         blocked.push(taskId);
       } else {
         failed.push(taskId);
@@ -155,42 +223,143 @@ export async function execute(
     }
   }
 
+  // Review loop: a finished task only counts as succeeded once the reviewer
+  // ships it. NEEDS_WORK reopens it for the next wave with last_review set,
+  // up to review.maxIterations reviews; after that, or on MAJOR_RETHINK, it blocks.
+  const reviews: Array<{ taskId: string; verdict: string; iteration: number }> = [];
+  const hasReviewer = availableAgents.some(a => a.name === "crew-reviewer");
+  if (config.review.enabled && hasReviewer && !signal?.aborted) {
+    for (const taskId of [...succeeded]) {
+      const task = store.getTask(cwd, taskId, planSlug);
+      if (!task?.base_commit) continue;
+      const iteration = (task.review_count ?? 0) + 1;
+      const outcome = await reviewTask(cwd, taskId, config, planSlug, worktrees.get(taskId)?.dir ?? cwd);
+      if (!outcome.verdict) {
+        reviews.push({ taskId, verdict: "FAILED", iteration });
+        continue;
+      }
+      const verdict = outcome.verdict.verdict;
+      store.updateTask(cwd, taskId, { review_count: iteration }, planSlug);
+      reviews.push({ taskId, verdict, iteration });
+      if (verdict === "SHIP") continue;
+
+      succeeded.splice(succeeded.indexOf(taskId), 1);
+      if (verdict === "NEEDS_WORK" && iteration < config.review.maxIterations) {
+        store.reopenTask(cwd, taskId, planSlug);
+      } else {
+        const reason = verdict === "NEEDS_WORK"
+          ? `Review still NEEDS_WORK after ${iteration} iteration(s): ${outcome.verdict.summary}`
+          : `Review verdict MAJOR_RETHINK: ${outcome.verdict.summary}`;
+        store.blockTask(cwd, taskId, reason, planSlug);
+        blocked.push(taskId);
+      }
+    }
+  }
+
+  // Merge finished task branches back in dependency order. A conflict
+  // blocks the task and keeps its worktree for manual resolution.
+  const merged: string[] = [];
+  if (worktrees.size > 0) {
+    const conflicted: string[] = [];
+    for (const taskId of orderByDependencies([...succeeded], store.getTasks(cwd, planSlug))) {
+      const task = store.getTask(cwd, taskId, planSlug);
+      if (!task) continue;
+      const outcome = mergeTaskBranch(cwd, planSlug, task);
+      if (outcome.ok) {
+        merged.push(taskId);
+        removeTaskWorktree(cwd, planSlug, taskId);
+        continue;
+      }
+      const detail = outcome.conflicts.length > 0 ? `conflicts in ${outcome.conflicts.join(", ")}` : outcome.error;
+      store.blockTask(
+        cwd,
+        taskId,
+        `Merge of ${getTaskBranch(planSlug, taskId)} failed: ${detail}. Resolve in ${worktrees.get(taskId)!.dir}, merge by hand, then task.unblock.`,
+        planSlug
+      );
+      succeeded.splice(succeeded.indexOf(taskId), 1);
+      blocked.push(taskId);
+      conflicted.push(taskId);
+    }
+
+    // Unfinished tasks get a fresh worktree on their next attempt
+    for (const taskId of worktrees.keys()) {
+      if (!merged.includes(taskId) && !conflicted.includes(taskId)) {
+        removeTaskWorktree(cwd, planSlug, taskId, { keepBranch: true });
+      }
+    }
+  }
+
+  // Plan sync: refresh downstream specs before the next wave picks them up
+  const synced: string[] = [];
+  const hasSyncAgent = availableAgents.some(a => a.name === "crew-plan-sync");
+  if (config.planSync.enabled && hasSyncAgent && !signal?.aborted) {
+    for (const taskId of succeeded) {
+      const outcome = await syncTask(cwd, taskId, planSlug);
+      for (const id of outcome.updatedTasks) {
+        if (!synced.includes(id)) synced.push(id);
+      }
+    }
+  }
+
   // Save current wave number BEFORE addWaveResult increments it
   const currentWave = autonomous ? autonomousState.waveNumber : 1;
   
+  let policyStop: string | null = null;
+
   if (autonomous) {
-    addWaveResult({
+    const wave = {
       waveNumber: currentWave,
       tasksAttempted: tasksToRun.map(t => t.id),
       succeeded,
       failed,
       blocked,
+      tokens: workerResults.reduce((sum, r) => sum + (r.progress?.tokens ?? 0), 0),
+      usage: waveUsage,
       timestamp: new Date().toISOString()
-    });
+    };
+    addWaveResult(wave);
 
     if (signal?.aborted) {
       stopAutonomous("manual");
       appendEntry("crew-state", autonomousState);
     } else {
-      const nextReady = store.getReadyTasks(cwd);
-      const allTasks = store.getTasks(cwd);
+      const nextReady = store.getReadyTasks(cwd, planSlug);
+      const allTasks = store.getTasks(cwd, planSlug);
       const allDone = allTasks.every(t => t.status === "done");
       const allBlockedOrDone = allTasks.every(t => t.status === "done" || t.status === "blocked");
+      const stop = allDone
+        ? null
+        : evaluateStopPolicies(config.work, autonomousState, wave, allTasks)
+          ?? checkBudget(config.budget, store.getPlan(cwd, planSlug)?.usage);
 
       if (allDone) {
         stopAutonomous("completed");
         appendEntry("crew-state", autonomousState);
         appendEntry("crew_wave_complete", {
           prd: plan.prd,
+          plan: planSlug,
           status: "completed",
           totalWaves: currentWave,
           totalTasks: allTasks.length
         });
+      } else if (stop) {
+        stopAutonomous(stop.reason, stop.detail);
+        policyStop = `${describeStopReason(stop.reason)}: ${stop.detail}`;
+        appendEntry("crew-state", autonomousState);
+        appendEntry("crew_wave_stopped", {
+          prd: plan.prd,
+          plan: planSlug,
+          status: stop.reason,
+          detail: stop.detail,
+          totalWaves: currentWave
+        });
       } else if (allBlockedOrDone || nextReady.length === 0) {
         stopAutonomous("blocked");
         appendEntry("crew-state", autonomousState);
         appendEntry("crew_wave_blocked", {
           prd: plan.prd,
+          plan: planSlug,
           status: "blocked",
           blockedTasks: allTasks.filter(t => t.status === "blocked").map(t => t.id)
         });
@@ -198,6 +367,7 @@ export async function execute(
         appendEntry("crew-state", autonomousState);
         appendEntry("crew_wave_continue", {
           prd: plan.prd,
+          plan: planSlug,
           nextWave: autonomousState.waveNumber,
           readyTasks: nextReady.map(t => t.id)
         });
@@ -206,7 +376,7 @@ export async function execute(
   }
 
   // Build result
-  const updatedPlan = store.getPlan(cwd);
+  const updatedPlan = store.getPlan(cwd, planSlug);
   const progress = updatedPlan 
     ? `${updatedPlan.completed_count}/${updatedPlan.task_count}`
     : "unknown";
@@ -215,22 +385,31 @@ export async function execute(
   if (succeeded.length > 0) statusText += `\n✅ Completed: ${succeeded.join(", ")}`;
   if (failed.length > 0) statusText += `\n❌ Failed: ${failed.join(", ")}`;
   if (blocked.length > 0) statusText += `\n🚫 Blocked: ${blocked.join(", ")}`;
+  if (reviews.length > 0) {
+    statusText += `\n🔍 Reviewed: ${reviews.map(r => `${r.taskId} ${r.verdict} (${r.iteration}/${config.review.maxIterations})`).join(", ")}`;
+  }
+  if (merged.length > 0) statusText += `\n🔀 Merged: ${merged.map(id => getTaskBranch(planSlug, id)).join(", ")}`;
+  if (synced.length > 0) statusText += `\n🔄 Specs synced: ${synced.join(", ")}`;
+  if (isolationNote) statusText += `\n${isolationNote}`;
 
-  const nextReady = store.getReadyTasks(cwd);
+  const nextReady = store.getReadyTasks(cwd, planSlug);
   const nextText = nextReady.length > 0
     ? `\n\n**Ready for next wave:** ${nextReady.map(t => t.id).join(", ")}`
     : "";
-  const continueText = autonomous && !signal?.aborted && nextReady.length > 0
-    ? "Autonomous mode: Continuing to next wave..."
-    : signal?.aborted && autonomous
-      ? "Autonomous mode stopped (cancelled)."
-      : "";
+  const continueText = policyStop
+    ? `Autonomous mode stopped (${policyStop}).`
+    : autonomous && !signal?.aborted && nextReady.length > 0
+      ? "Autonomous mode: Continuing to next wave..."
+      : signal?.aborted && autonomous
+        ? "Autonomous mode stopped (cancelled)."
+        : "";
 
   const text = `# Work Wave ${currentWave}
 
-**PRD:** ${plan.prd}
+**PRD:** ${plan.prd} (plan: ${planSlug})
 **Tasks attempted:** ${tasksToRun.length}
 **Progress:** ${progress}
+**Usage:** ${formatUsage(waveUsage)}
 ${statusText}${nextText}
 
 ${continueText}`;
@@ -238,13 +417,19 @@ ${continueText}`;
   return result(text, {
     mode: "work",
     prd: plan.prd,
+    plan: planSlug,
     wave: currentWave,
     attempted: tasksToRun.map(t => t.id),
     succeeded,
     failed,
     blocked,
+    reviews,
+    synced,
+    merged,
     nextReady: nextReady.map(t => t.id),
-    autonomous: !!autonomous
+    usage: waveUsage,
+    autonomous: !!autonomous,
+    stopReason: autonomous && !autonomousState.active ? autonomousState.stopReason : null
   });
 }
 
@@ -252,14 +437,22 @@ ${continueText}`;
 // Worker Prompt Builder
 // =============================================================================
 
-function buildWorkerPrompt(task: Task, prdPath: string, cwd: string): string {
-  const taskSpec = store.getTaskSpec(cwd, task.id);
-  const planSpec = store.getPlanSpec(cwd);
+function buildWorkerPrompt(
+  task: Task,
+  prdPath: string,
+  cwd: string,
+  planSlug: string,
+  memoryEnabled: boolean,
+  worktree?: TaskWorktree
+): string {
+  const taskSpec = store.getTaskSpec(cwd, task.id, planSlug);
+  const planSpec = store.getPlanSpec(cwd, planSlug);
 
   let prompt = `# Task Assignment
 
 **Task ID:** ${task.id}
 **Task Title:** ${task.title}
+**Plan:** ${planSlug}
 **PRD:** ${prdPath}
 ${task.attempt_count >= 1 ? `**Attempt:** ${task.attempt_count + 1} (retry after previous attempt)` : ""}
 
@@ -273,7 +466,19 @@ Implement this task following the crew-worker protocol:
 5. Commit your changes
 6. Release reservations and mark complete
 
+Pass \`plan: "${planSlug}"\` to every task.* action so updates land in this plan.
+
+`;
+
+  if (worktree) {
+    prompt += `## Isolated Worktree
+
+You are working in your own git worktree on branch \`${worktree.branch}\`.
+Commit your work on this branch. Do not merge, rebase or push: the crew
+merges finished branches back in dependency order.
+
 `;
+  }
 
   // Include previous review feedback if this is a retry
   if (task.last_review) {
@@ -283,7 +488,7 @@ Implement this task following the crew-worker protocol:
 
 ${task.last_review.summary}
 
-${task.last_review.issues.length > 0 ? `**Issues to fix:**\n${task.last_review.issues.map(i => `- ${i}`).join("\n")}\n` : ""}
+${task.last_review.issues.length > 0 ? `**Issues to fix:**\n${task.last_review.issues.map(i => `- ${formatIssue(i)}`).join("\n")}\n` : ""}
 ${task.last_review.suggestions.length > 0 ? `**Suggestions:**\n${task.last_review.suggestions.map(s => `- ${s}`).join("\n")}\n` : ""}
 
 **You MUST address the issues above in this attempt.**
@@ -291,6 +496,11 @@ ${task.last_review.suggestions.length > 0 ? `**Suggestions:**\n${task.last_revie
 `;
   }
 
+  if (memoryEnabled) {
+    const lessons = getRelevantMemories(cwd, `${task.title}\n${taskSpec ?? ""}`, { plan: planSlug });
+    prompt += formatMemoriesForPrompt(lessons);
+  }
+
   if (taskSpec && !taskSpec.includes("*Spec pending*")) {
     prompt += `## Task Specification
 
@@ -311,7 +521,7 @@ These tasks are already complete - you can reference their implementations.
   if (planSpec && !planSpec.includes("*Spec pending*")) {
     // Include truncated plan spec for context
     const truncatedSpec = planSpec.length > 2000 
-      ? planSpec.slice(0, 2000) + `\n\n[Spec truncated - read full spec from .pi/messenger/crew/plan.md]`
+      ? planSpec.slice(0, 2000) + `\n\n[Spec truncated - read full spec from .pi/messenger/crew/plans/${planSlug}/plan.md]`
       : planSpec;
     prompt += `## Plan Context
 
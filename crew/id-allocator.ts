@@ -5,15 +5,12 @@
  */
 
 import * as fs from "node:fs";
-import * as path from "node:path";
 
 /**
- * Scans existing tasks to determine the next sequence number.
- * Returns task ID in format: task-N
+ * Scans existing tasks in a plan's tasks directory to determine the next
+ * sequence number. Returns task ID in format: task-N
  */
-export function allocateTaskId(cwd: string): string {
-  const tasksDir = path.join(cwd, ".pi", "messenger", "crew", "tasks");
-
+export function allocateTaskId(tasksDir: string): string {
   let maxN = 0;
   if (fs.existsSync(tasksDir)) {
     for (const file of fs.readdirSync(tasksDir)) {
@@ -27,4 +24,3 @@ export function allocateTaskId(cwd: string): string {
 
   return `task-${maxN + 1}`;
 }
-
@@ -26,6 +26,8 @@ export interface CrewActionConfig {
   crewEventsInFeed?: boolean;
   nameTheme?: NameThemeConfig;
   feedRetention?: number;
+  messageLogRetention?: number;
+  reservationRequestTimeout?: number;
 }
 
 /**
@@ -56,7 +58,7 @@ export async function executeCrewAction(
 
   // join - this is how you register
   if (group === 'join') {
-    return handlers.executeJoin(state, dirs, ctx, deliverMessage, updateStatus, params.spec, config?.nameTheme, config?.feedRetention);
+    return handlers.executeJoin(state, dirs, ctx, deliverMessage, updateStatus, params.spec, config?.nameTheme, config?.feedRetention, config?.messageLogRetention);
   }
 
   // autoRegisterPath - config management, not agent operation
@@ -115,16 +117,90 @@ export async function executeCrewAction(
       return handlers.executeSetSpec(state, dirs, ctx, params.spec);
 
     case 'send':
-      return handlers.executeSend(state, dirs, params.to, false, params.message, params.replyTo);
+      if (params.at !== undefined || params.delay !== undefined) {
+        return handlers.executeSchedule(state, dirs, params.to, false, params.message, {
+          at: params.at,
+          delay: params.delay,
+          replyTo: params.replyTo,
+          priority: params.messagePriority,
+          payload: params.payload,
+        });
+      }
+      if (params.waitFor) {
+        return handlers.executeSendAndWait(state, dirs, params.to, params.message, params.replyTo, params.waitFor, params.timeout, signal, params.messagePriority, params.payload);
+      }
+      return handlers.executeSend(state, dirs, params.to, false, params.message, params.replyTo, params.messagePriority, params.payload);
+
+    case 'channel':
+      switch (op) {
+        case 'join':
+          return handlers.executeChannelJoin(state, dirs, ctx, params.channel);
+        case 'leave':
+          return handlers.executeChannelLeave(state, dirs, ctx, params.channel);
+        case 'send':
+          return handlers.executeChannelSend(state, dirs, params.channel, params.message, params.replyTo, params.messagePriority, params.payload);
+        case null:
+        case 'list':
+          return handlers.executeChannelList(state, dirs);
+        default:
+          return result(`Unknown action: ${action}`, { mode: "error", error: "unknown_action", action });
+      }
+
+    case 'schedule':
+      if (op === 'cancel') {
+        return handlers.executeScheduleCancel(state, dirs, params.id);
+      }
+      if (op && op !== 'list') {
+        return result(`Unknown action: ${action}`, { mode: "error", error: "unknown_action", action });
+      }
+      return handlers.executeScheduleList(state, dirs);
+
+    case 'ask':
+      return handlers.executeAsk(state, dirs, params.to, params.message, params.timeout, signal);
+
+    case 'reply':
+      return handlers.executeReply(state, dirs, params.id ?? params.replyTo, params.message, params.payload);
+
+    case 'history':
+      return handlers.executeHistory(state, dirs, {
+        peer: params.name,
+        since: params.since,
+        until: params.until,
+        query: params.query,
+        limit: params.limit,
+      });
+
+    case 'thread':
+      return handlers.executeThread(state, params.id, params.limit);
 
     case 'broadcast':
-      return handlers.executeSend(state, dirs, undefined, true, params.message, params.replyTo);
+      if (params.at !== undefined || params.delay !== undefined) {
+        return handlers.executeSchedule(state, dirs, undefined, true, params.message, {
+          at: params.at,
+          delay: params.delay,
+          replyTo: params.replyTo,
+          priority: params.messagePriority,
+          payload: params.payload,
+        });
+      }
+      return handlers.executeSend(state, dirs, undefined, true, params.message, params.replyTo, params.messagePriority, params.payload);
 
     case 'reserve':
       if (!params.paths || params.paths.length === 0) {
         return result("Error: paths required for reserve action.", { mode: "reserve", error: "missing_paths" });
       }
-      return handlers.executeReserve(state, dirs, ctx, params.paths, params.reason);
+      if (op === 'request') {
+        return handlers.executeReserveRequest(state, dirs, ctx, params.paths, params.reason, params.ttl, params.mode, {
+          timeout: config?.reservationRequestTimeout,
+        });
+      }
+      if (op === 'steal') {
+        return handlers.executeReserveSteal(state, dirs, ctx, params.paths, params.reason, params.ttl, params.mode);
+      }
+      if (op) {
+        return result(`Unknown action: ${action}`, { mode: "error", error: "unknown_action", action });
+      }
+      return handlers.executeReserve(state, dirs, ctx, params.paths, params.reason, params.ttl, params.mode, params.wait);
 
     case 'release':
       return handlers.executeRelease(state, dirs, ctx, params.paths ?? true);
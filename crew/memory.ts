@@ -0,0 +1,191 @@
+/**
+ * Crew - Memory
+ *
+ * Project-level lessons learned, kept in memory.json under the crew dir.
+ * Lessons are captured from NEEDS_WORK reviews and task blocks (when
+ * memory.enabled is set) or added by hand, and the relevant ones are fed
+ * into worker and planner prompts.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { getCrewDir } from "./store.js";
+import type { ReviewIssue } from "./types.js";
+import { formatIssue } from "./utils/verdict.js";
+
+export type MemorySource = "review" | "block" | "manual";
+
+export interface MemoryEntry {
+  id: string;                    // mem-N format
+  lesson: string;
+  source: MemorySource;
+  taskId?: string;               // Task the lesson came from
+  plan?: string;                 // Plan the lesson came from
+  created_at: string;            // ISO timestamp
+}
+
+interface MemoryFile {
+  entries: MemoryEntry[];
+}
+
+const MEMORY_FILE = "memory.json";
+const MAX_LESSON_CHARS = 400;
+const DEFAULT_PROMPT_LIMIT = 5;
+
+// Words that carry no signal when matching lessons to a task
+const STOPWORDS = new Set([
+  "this", "that", "with", "from", "have", "will", "should", "when", "into",
+  "then", "than", "they", "them", "there", "their", "were", "been", "also",
+  "task", "tasks", "make", "need", "needs", "work", "using", "used",
+]);
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+function getMemoryPath(cwd: string): string {
+  return path.join(getCrewDir(cwd), MEMORY_FILE);
+}
+
+function readMemory(cwd: string): MemoryFile {
+  try {
+    const data = JSON.parse(fs.readFileSync(getMemoryPath(cwd), "utf-8"));
+    return { entries: Array.isArray(data?.entries) ? data.entries : [] };
+  } catch {
+    return { entries: [] };
+  }
+}
+
+function writeMemory(cwd: string, data: MemoryFile): void {
+  const filePath = getMemoryPath(cwd);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmp = `${filePath}.tmp-${process.pid}-${Date.now()}`;
+  fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
+  fs.renameSync(tmp, filePath);
+}
+
+// =============================================================================
+// Operations
+// =============================================================================
+
+export function listMemories(cwd: string): MemoryEntry[] {
+  return readMemory(cwd).entries;
+}
+
+/**
+ * Add a lesson. Returns the existing entry instead when the same lesson is
+ * already stored, so repeated reviews don't pile up duplicates.
+ */
+export function addMemory(
+  cwd: string,
+  lesson: string,
+  source: MemorySource,
+  origin: { taskId?: string; plan?: string } = {}
+): MemoryEntry {
+  const data = readMemory(cwd);
+  const text = clip(lesson.trim().replace(/\s+/g, " "));
+  const existing = data.entries.find(e => e.lesson.toLowerCase() === text.toLowerCase());
+  if (existing) return existing;
+
+  const maxId = data.entries.reduce((max, e) => {
+    const n = parseInt(e.id.replace("mem-", ""), 10);
+    return Number.isNaN(n) ? max : Math.max(max, n);
+  }, 0);
+
+  const entry: MemoryEntry = {
+    id: `mem-${maxId + 1}`,
+    lesson: text,
+    source,
+    ...(origin.taskId ? { taskId: origin.taskId } : {}),
+    ...(origin.plan ? { plan: origin.plan } : {}),
+    created_at: new Date().toISOString(),
+  };
+  data.entries.push(entry);
+  writeMemory(cwd, data);
+  return entry;
+}
+
+export function forgetMemory(cwd: string, id: string): boolean {
+  const data = readMemory(cwd);
+  const remaining = data.entries.filter(e => e.id !== id);
+  if (remaining.length === data.entries.length) return false;
+  writeMemory(cwd, { entries: remaining });
+  return true;
+}
+
+// =============================================================================
+// Lesson Capture
+// =============================================================================
+
+export function lessonFromReview(
+  taskTitle: string,
+  review: { summary: string; issues: Array<ReviewIssue | string> }
+): string {
+  const detail = review.issues.length > 0 ? review.issues.map(formatIssue).join("; ") : review.summary;
+  return `"${taskTitle}" needed rework: ${detail}`;
+}
+
+export function lessonFromBlock(taskTitle: string, reason: string): string {
+  return `"${taskTitle}" was blocked: ${reason}`;
+}
+
+// =============================================================================
+// Prompt Injection
+// =============================================================================
+
+/**
+ * Pick the lessons most relevant to `context` (a task spec, PRD, ...).
+ * Entries score by shared keywords, with a bonus for the same plan.
+ * Manually added lessons are always eligible; captured ones need a match.
+ */
+export function getRelevantMemories(
+  cwd: string,
+  context: string,
+  options: { plan?: string; limit?: number } = {}
+): MemoryEntry[] {
+  const entries = listMemories(cwd);
+  if (entries.length === 0) return [];
+
+  const contextWords = keywords(context);
+  const scored = entries.map(entry => {
+    let score = 0;
+    for (const word of keywords(entry.lesson)) {
+      if (contextWords.has(word)) score++;
+    }
+    if (score > 0 && options.plan && entry.plan === options.plan) score++;
+    return { entry, score };
+  });
+
+  return scored
+    .filter(s => s.score > 0 || s.entry.source === "manual")
+    .sort((a, b) => b.score - a.score || b.entry.created_at.localeCompare(a.entry.created_at))
+    .slice(0, options.limit ?? DEFAULT_PROMPT_LIMIT)
+    .map(s => s.entry);
+}
+
+/**
+ * Format lessons as a prompt section, or "" when there are none.
+ */
+export function formatMemoriesForPrompt(entries: MemoryEntry[]): string {
+  if (entries.length === 0) return "";
+  return `## Lessons From Earlier Work
+
+These were learned on this project before. Avoid repeating them.
+
+${entries.map(e => `- ${e.lesson}`).join("\n")}
+
+`;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function clip(text: string): string {
+  return text.length > MAX_LESSON_CHARS ? text.slice(0, MAX_LESSON_CHARS - 3) + "..." : text;
+}
+
+function keywords(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[a-z0-9_]{4,}/g) ?? [];
+  return new Set(words.filter(w => !STOPWORDS.has(w)));
+}
@@ -4,23 +4,46 @@
  * Tracks autonomous mode execution across turns.
  */
 
+import type { TokenUsage } from "./types.js";
+
 export interface WaveResult {
   waveNumber: number;
   tasksAttempted: string[];
   succeeded: string[];
   failed: string[];
   blocked: string[];
+  /** Tokens used by this wave's workers (absent in states saved before tracking) */
+  tokens?: number;
+  usage?: TokenUsage;
   timestamp: string;
 }
 
+/**
+ * Why autonomous mode stopped. "completed", "blocked" and "manual" are the
+ * built-in outcomes; the rest come from configured stop policies.
+ */
+export type StopReason =
+  | "completed"
+  | "blocked"
+  | "manual"
+  | "max_waves"
+  | "stop_on_block"
+  | "failure_limit"
+  | "token_budget"
+  | "time_budget"
+  | "major_rethink"
+  | "budget_exceeded";
+
 export interface AutonomousState {
   active: boolean;
   cwd: string | null;
+  plan: string | null;
   waveNumber: number;
   waveHistory: WaveResult[];
   startedAt: string | null;
   stoppedAt: string | null;
-  stopReason: "completed" | "blocked" | "manual" | null;
+  stopReason: StopReason | null;
+  stopDetail: string | null;
 }
 
 /**
@@ -31,27 +54,32 @@ export interface AutonomousState {
 export const autonomousState: AutonomousState = {
   active: false,
   cwd: null,
+  plan: null,
   waveNumber: 0,
   waveHistory: [],
   startedAt: null,
   stoppedAt: null,
   stopReason: null,
+  stopDetail: null,
 };
 
-export function startAutonomous(cwd: string): void {
+export function startAutonomous(cwd: string, plan: string | null = null): void {
   autonomousState.active = true;
   autonomousState.cwd = cwd;
+  autonomousState.plan = plan;
   autonomousState.waveNumber = 1;
   autonomousState.waveHistory = [];
   autonomousState.startedAt = new Date().toISOString();
   autonomousState.stoppedAt = null;
   autonomousState.stopReason = null;
+  autonomousState.stopDetail = null;
 }
 
-export function stopAutonomous(reason: "completed" | "blocked" | "manual"): void {
+export function stopAutonomous(reason: StopReason, detail: string | null = null): void {
   autonomousState.active = false;
   autonomousState.stoppedAt = new Date().toISOString();
   autonomousState.stopReason = reason;
+  autonomousState.stopDetail = detail;
 }
 
 export function addWaveResult(result: WaveResult): void {
@@ -62,11 +90,11 @@ export function addWaveResult(result: WaveResult): void {
 export function restoreAutonomousState(data: Partial<AutonomousState>): void {
   if (data.active !== undefined) autonomousState.active = data.active;
   if (data.cwd !== undefined) autonomousState.cwd = data.cwd;
+  if (data.plan !== undefined) autonomousState.plan = data.plan;
   if (data.waveNumber !== undefined) autonomousState.waveNumber = data.waveNumber;
   if (data.waveHistory !== undefined) autonomousState.waveHistory = data.waveHistory;
   if (data.startedAt !== undefined) autonomousState.startedAt = data.startedAt;
   if (data.stoppedAt !== undefined) autonomousState.stoppedAt = data.stoppedAt;
   if (data.stopReason !== undefined) autonomousState.stopReason = data.stopReason;
+  if (data.stopDetail !== undefined) autonomousState.stopDetail = data.stopDetail;
 }
-
-
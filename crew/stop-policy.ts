@@ -0,0 +1,127 @@
+/**
+ * Crew - Autonomous Stop Policies
+ *
+ * Decides whether autonomous mode should stop after a wave, based on the
+ * `work` section of the crew config. Pure: callers record the decision.
+ */
+
+import type { Task, TokenUsage } from "./types.js";
+import type { CrewConfig } from "./utils/config.js";
+import type { AutonomousState, StopReason, WaveResult } from "./state.js";
+import { formatCost, totalTokens } from "./utils/usage.js";
+
+export interface StopDecision {
+  reason: StopReason;
+  detail: string;
+}
+
+/**
+ * Check the configured stop policies against the wave that just finished.
+ * `state.waveHistory` is expected to already include `wave`.
+ * `tasks` is the plan's task list after the wave.
+ * Returns the first policy that trips, or null to keep going.
+ */
+export function evaluateStopPolicies(
+  policy: CrewConfig["work"],
+  state: AutonomousState,
+  wave: WaveResult,
+  tasks: Task[],
+  now: number = Date.now()
+): StopDecision | null {
+  if (policy.stopOnBlock && wave.blocked.length > 0) {
+    return {
+      reason: "stop_on_block",
+      detail: `${wave.blocked.join(", ")} blocked in wave ${wave.waveNumber}`,
+    };
+  }
+
+  if (policy.maxFailuresPerWave !== undefined && wave.failed.length > policy.maxFailuresPerWave) {
+    return {
+      reason: "failure_limit",
+      detail: `${wave.failed.length} failure(s) in wave ${wave.waveNumber} (limit ${policy.maxFailuresPerWave})`,
+    };
+  }
+
+  if (policy.stopOnMajorRethink && state.startedAt) {
+    const since = new Date(state.startedAt).getTime();
+    const rethink = tasks.find(t =>
+      t.last_review?.verdict === "MAJOR_RETHINK" &&
+      new Date(t.last_review.reviewed_at).getTime() >= since
+    );
+    if (rethink) {
+      return { reason: "major_rethink", detail: `${rethink.id} reviewed as MAJOR_RETHINK` };
+    }
+  }
+
+  if (policy.maxTotalTokens !== undefined) {
+    const used = getTotalTokens(state);
+    if (used > policy.maxTotalTokens) {
+      return {
+        reason: "token_budget",
+        detail: `${used} tokens used across ${state.waveHistory.length} wave(s) (budget ${policy.maxTotalTokens})`,
+      };
+    }
+  }
+
+  if (policy.maxDurationMinutes !== undefined && state.startedAt) {
+    const minutes = (now - new Date(state.startedAt).getTime()) / 60000;
+    if (minutes > policy.maxDurationMinutes) {
+      return {
+        reason: "time_budget",
+        detail: `${Math.round(minutes)} min elapsed (budget ${policy.maxDurationMinutes} min)`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check a plan's recorded usage against the `crew.budget` limits.
+ * Returns a decision once either limit is reached.
+ */
+export function checkBudget(
+  budget: CrewConfig["budget"],
+  usage: TokenUsage | undefined
+): StopDecision | null {
+  if (!budget || !usage) return null;
+
+  if (budget.maxCostUsd !== undefined && usage.cost >= budget.maxCostUsd) {
+    return {
+      reason: "budget_exceeded",
+      detail: `plan spend ${formatCost(usage.cost)} reached budget ${formatCost(budget.maxCostUsd)}`,
+    };
+  }
+
+  const tokens = totalTokens(usage);
+  if (budget.maxTokens !== undefined && tokens >= budget.maxTokens) {
+    return {
+      reason: "budget_exceeded",
+      detail: `plan used ${tokens} tokens, budget ${budget.maxTokens}`,
+    };
+  }
+
+  return null;
+}
+
+export function getTotalTokens(state: AutonomousState): number {
+  return state.waveHistory.reduce((sum, w) => sum + (w.tokens ?? 0), 0);
+}
+
+/**
+ * Human-readable label for a stop reason, used by crew.status and notifications.
+ */
+export function describeStopReason(reason: StopReason): string {
+  switch (reason) {
+    case "completed": return "all tasks completed";
+    case "blocked": return "no ready tasks left";
+    case "manual": return "cancelled";
+    case "max_waves": return "max waves reached";
+    case "stop_on_block": return "task blocked (stopOnBlock)";
+    case "failure_limit": return "too many failures in one wave";
+    case "token_budget": return "token budget exceeded";
+    case "time_budget": return "time budget exceeded";
+    case "major_rethink": return "review asked for a major rethink";
+    case "budget_exceeded": return "crew budget reached";
+  }
+}
@@ -1,14 +1,17 @@
 /**
  * Crew - Store Operations
  * 
- * Simplified PRD-based storage: plan.json + tasks/*.json
+ * Simplified PRD-based storage. Each named plan lives in its own directory:
+ *   plans/<slug>/plan.json + plan.md + tasks/*.json + blocks/*.md
+ * and active-plan.json points at the plan used when no selector is given.
  */
 
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { execSync } from "node:child_process";
-import type { Plan, Task, TaskEvidence } from "./types.js";
+import type { Plan, Task, TaskEvidence, TaskPriority, TokenUsage } from "./types.js";
 import { allocateTaskId } from "./id-allocator.js";
+import { addUsage } from "./utils/usage.js";
 
 // =============================================================================
 // Directory Helpers
@@ -20,16 +23,29 @@ function ensureDir(dir: string): void {
   }
 }
 
+export const DEFAULT_PLAN = "default";
+
 export function getCrewDir(cwd: string): string {
   return path.join(cwd, ".pi", "messenger", "crew");
 }
 
-function getTasksDir(cwd: string): string {
-  return path.join(getCrewDir(cwd), "tasks");
+function getPlansDir(cwd: string): string {
+  return path.join(getCrewDir(cwd), "plans");
+}
+
+/**
+ * Directory of a named plan. Without a selector, the active plan is used.
+ */
+export function getPlanDir(cwd: string, plan?: string): string {
+  return path.join(getPlansDir(cwd), resolvePlanSlug(cwd, plan));
+}
+
+export function getTasksDir(cwd: string, plan?: string): string {
+  return path.join(getPlanDir(cwd, plan), "tasks");
 }
 
-function getBlocksDir(cwd: string): string {
-  return path.join(getCrewDir(cwd), "blocks");
+function getBlocksDir(cwd: string, plan?: string): string {
+  return path.join(getPlanDir(cwd, plan), "blocks");
 }
 
 // =============================================================================
@@ -68,18 +84,126 @@ function writeText(filePath: string, content: string): void {
   fs.renameSync(temp, filePath);
 }
 
+// =============================================================================
+// Plan Selection
+// =============================================================================
+
+export interface PlanInfo {
+  slug: string;
+  plan: Plan;
+  active: boolean;
+}
+
+/**
+ * Normalize a plan name to a directory-safe slug ("Tech Debt" → "tech-debt").
+ */
+export function toPlanSlug(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || DEFAULT_PLAN;
+}
+
+/**
+ * Derive a plan slug from a PRD path ("docs/tech-debt.md" → "tech-debt").
+ */
+export function planSlugFromPrd(prdPath: string): string {
+  return toPlanSlug(path.basename(prdPath, path.extname(prdPath)));
+}
+
+export function resolvePlanSlug(cwd: string, plan?: string): string {
+  if (plan) return toPlanSlug(plan);
+  migrateLegacyPlan(cwd);
+  return getActivePlan(cwd) ?? DEFAULT_PLAN;
+}
+
+export function getActivePlan(cwd: string): string | null {
+  const pointer = readJson<{ plan?: string }>(path.join(getCrewDir(cwd), "active-plan.json"));
+  return pointer?.plan ? toPlanSlug(pointer.plan) : null;
+}
+
+export function setActivePlan(cwd: string, plan: string): void {
+  writeJson(path.join(getCrewDir(cwd), "active-plan.json"), { plan: toPlanSlug(plan) });
+}
+
+function clearActivePlan(cwd: string): void {
+  try {
+    fs.unlinkSync(path.join(getCrewDir(cwd), "active-plan.json"));
+  } catch {
+    // Ignore if doesn't exist
+  }
+}
+
+export function listPlans(cwd: string): PlanInfo[] {
+  migrateLegacyPlan(cwd);
+  const dir = getPlansDir(cwd);
+  if (!fs.existsSync(dir)) return [];
+
+  const active = getActivePlan(cwd) ?? DEFAULT_PLAN;
+  const plans: PlanInfo[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    const plan = readJson<Plan>(path.join(dir, entry.name, "plan.json"));
+    if (plan) plans.push({ slug: entry.name, plan, active: entry.name === active });
+  }
+
+  return plans.sort((a, b) =>
+    a.plan.created_at.localeCompare(b.plan.created_at) || a.slug.localeCompare(b.slug)
+  );
+}
+
+/**
+ * Tasks from every plan in the project. Used where plan membership doesn't
+ * matter, e.g. checking whether an agent is assigned to any task.
+ */
+export function getTasksAcrossPlans(cwd: string): Task[] {
+  return listPlans(cwd).flatMap(p => getTasks(cwd, p.slug));
+}
+
+/**
+ * Move a pre-named-plans layout (plan.json + tasks/ directly under the crew
+ * dir) into plans/default so existing projects keep working.
+ */
+function migrateLegacyPlan(cwd: string): void {
+  const crewDir = getCrewDir(cwd);
+  if (!fs.existsSync(path.join(crewDir, "plan.json"))) return;
+
+  const target = path.join(getPlansDir(cwd), DEFAULT_PLAN);
+  if (fs.existsSync(path.join(target, "plan.json"))) return;
+
+  try {
+    ensureDir(target);
+    for (const entry of ["plan.json", "plan.md", "planning-progress.md", "tasks", "blocks"]) {
+      const from = path.join(crewDir, entry);
+      if (!fs.existsSync(from)) continue;
+      const to = path.join(target, entry);
+      fs.rmSync(to, { recursive: true, force: true });
+      fs.renameSync(from, to);
+    }
+    if (!getActivePlan(cwd)) setActivePlan(cwd, DEFAULT_PLAN);
+  } catch {
+    // Another process may be migrating concurrently
+  }
+}
+
 // =============================================================================
 // Plan Operations
 // =============================================================================
 
-export function getPlan(cwd: string): Plan | null {
-  return readJson<Plan>(path.join(getCrewDir(cwd), "plan.json"));
+export function getPlan(cwd: string, plan?: string): Plan | null {
+  return readJson<Plan>(path.join(getPlanDir(cwd, plan), "plan.json"));
 }
 
-export function createPlan(cwd: string, prdPath: string): Plan {
+/**
+ * Create a plan and make it the active one. The slug defaults to the active
+ * plan (or "default") when not given.
+ */
+export function createPlan(cwd: string, prdPath: string, plan?: string): Plan {
   const now = new Date().toISOString();
   
-  const plan: Plan = {
+  const slug = resolvePlanSlug(cwd, plan);
+  const created: Plan = {
     prd: prdPath,
     created_at: now,
     updated_at: now,
@@ -87,46 +211,43 @@ export function createPlan(cwd: string, prdPath: string): Plan {
     completed_count: 0,
   };
 
-  writeJson(path.join(getCrewDir(cwd), "plan.json"), plan);
-  return plan;
+  writeJson(path.join(getPlanDir(cwd, slug), "plan.json"), created);
+  setActivePlan(cwd, slug);
+  return created;
 }
 
-export function updatePlan(cwd: string, updates: Partial<Plan>): Plan | null {
-  const plan = getPlan(cwd);
-  if (!plan) return null;
+export function updatePlan(cwd: string, updates: Partial<Plan>, plan?: string): Plan | null {
+  const existing = getPlan(cwd, plan);
+  if (!existing) return null;
 
   const updated: Plan = {
-    ...plan,
+    ...existing,
     ...updates,
     updated_at: new Date().toISOString(),
   };
 
-  writeJson(path.join(getCrewDir(cwd), "plan.json"), updated);
+  writeJson(path.join(getPlanDir(cwd, plan), "plan.json"), updated);
   return updated;
 }
 
-export function deletePlan(cwd: string): boolean {
-  const planPath = path.join(getCrewDir(cwd), "plan.json");
-  const planMdPath = path.join(getCrewDir(cwd), "plan.md");
-  const tasksDir = getTasksDir(cwd);
-  
-  let deleted = false;
-  
-  // Delete plan.json
-  if (fs.existsSync(planPath)) {
-    fs.unlinkSync(planPath);
-    deleted = true;
-  }
-  
-  // Delete plan.md
-  if (fs.existsSync(planMdPath)) {
-    fs.unlinkSync(planMdPath);
+export function deletePlan(cwd: string, plan?: string): boolean {
+  const slug = resolvePlanSlug(cwd, plan);
+  const planDir = getPlanDir(cwd, slug);
+  const deleted = fs.existsSync(path.join(planDir, "plan.json"));
+
+  // Delete plan.json, plan.md, tasks and blocks. planning-progress.md is kept
+  // so user notes survive a failed planning run.
+  for (const entry of ["plan.json", "plan.md", "tasks", "blocks"]) {
+    fs.rmSync(path.join(planDir, entry), { recursive: true, force: true });
   }
-  
-  // Delete all task files
-  if (fs.existsSync(tasksDir)) {
-    for (const file of fs.readdirSync(tasksDir)) {
-      fs.unlinkSync(path.join(tasksDir, file));
+
+  // Point the active plan at a remaining one
+  if (getActivePlan(cwd) === slug) {
+    const remaining = listPlans(cwd).filter(p => p.slug !== slug);
+    if (remaining.length > 0) {
+      setActivePlan(cwd, remaining[remaining.length - 1].slug);
+    } else {
+      clearActivePlan(cwd);
     }
   }
   
@@ -137,13 +258,13 @@ export function deletePlan(cwd: string): boolean {
 // Plan Spec Operations
 // =============================================================================
 
-export function getPlanSpec(cwd: string): string | null {
-  return readText(path.join(getCrewDir(cwd), "plan.md"));
+export function getPlanSpec(cwd: string, plan?: string): string | null {
+  return readText(path.join(getPlanDir(cwd, plan), "plan.md"));
 }
 
-export function setPlanSpec(cwd: string, content: string): void {
-  writeText(path.join(getCrewDir(cwd), "plan.md"), content);
-  updatePlan(cwd, {}); // Touch updated_at
+export function setPlanSpec(cwd: string, content: string, plan?: string): void {
+  writeText(path.join(getPlanDir(cwd, plan), "plan.md"), content);
+  updatePlan(cwd, {}, plan); // Touch updated_at
 }
 
 // =============================================================================
@@ -154,44 +275,48 @@ export function createTask(
   cwd: string,
   title: string,
   description?: string,
-  dependsOn?: string[]
+  dependsOn?: string[],
+  plan?: string,
+  priority?: TaskPriority
 ): Task {
-  const id = allocateTaskId(cwd);
+  const tasksDir = getTasksDir(cwd, plan);
+  const id = allocateTaskId(tasksDir);
   const now = new Date().toISOString();
 
   const task: Task = {
     id,
     title,
     status: "todo",
+    ...(priority ? { priority } : {}),
     depends_on: dependsOn ?? [],
     created_at: now,
     updated_at: now,
     attempt_count: 0,
   };
 
-  writeJson(path.join(getTasksDir(cwd), `${id}.json`), task);
+  writeJson(path.join(tasksDir, `${id}.json`), task);
 
   // Create task spec file
   const specContent = description
     ? `# ${title}\n\n${description}\n`
     : `# ${title}\n\n*Spec pending*\n`;
-  writeText(path.join(getTasksDir(cwd), `${id}.md`), specContent);
+  writeText(path.join(tasksDir, `${id}.md`), specContent);
 
   // Update plan task count
-  const plan = getPlan(cwd);
-  if (plan) {
-    updatePlan(cwd, { task_count: plan.task_count + 1 });
+  const existing = getPlan(cwd, plan);
+  if (existing) {
+    updatePlan(cwd, { task_count: existing.task_count + 1 }, plan);
   }
 
   return task;
 }
 
-export function getTask(cwd: string, taskId: string): Task | null {
-  return readJson<Task>(path.join(getTasksDir(cwd), `${taskId}.json`));
+export function getTask(cwd: string, taskId: string, plan?: string): Task | null {
+  return readJson<Task>(path.join(getTasksDir(cwd, plan), `${taskId}.json`));
 }
 
-export function updateTask(cwd: string, taskId: string, updates: Partial<Task>): Task | null {
-  const task = getTask(cwd, taskId);
+export function updateTask(cwd: string, taskId: string, updates: Partial<Task>, plan?: string): Task | null {
+  const task = getTask(cwd, taskId, plan);
   if (!task) return null;
 
   const updated: Task = {
@@ -200,12 +325,12 @@ export function updateTask(cwd: string, taskId: string, updates: Partial<Task>):
     updated_at: new Date().toISOString(),
   };
 
-  writeJson(path.join(getTasksDir(cwd), `${taskId}.json`), updated);
+  writeJson(path.join(getTasksDir(cwd, plan), `${taskId}.json`), updated);
   return updated;
 }
 
-export function getTasks(cwd: string): Task[] {
-  const dir = getTasksDir(cwd);
+export function getTasks(cwd: string, plan?: string): Task[] {
+  const dir = getTasksDir(cwd, plan);
   if (!fs.existsSync(dir)) return [];
 
   const tasks: Task[] = [];
@@ -223,21 +348,21 @@ export function getTasks(cwd: string): Task[] {
   });
 }
 
-export function getTaskSpec(cwd: string, taskId: string): string | null {
-  return readText(path.join(getTasksDir(cwd), `${taskId}.md`));
+export function getTaskSpec(cwd: string, taskId: string, plan?: string): string | null {
+  return readText(path.join(getTasksDir(cwd, plan), `${taskId}.md`));
 }
 
-export function setTaskSpec(cwd: string, taskId: string, content: string): void {
-  writeText(path.join(getTasksDir(cwd), `${taskId}.md`), content);
-  updateTask(cwd, taskId, {}); // Touch updated_at
+export function setTaskSpec(cwd: string, taskId: string, content: string, plan?: string): void {
+  writeText(path.join(getTasksDir(cwd, plan), `${taskId}.md`), content);
+  updateTask(cwd, taskId, {}, plan); // Touch updated_at
 }
 
 // =============================================================================
 // Task Lifecycle Operations
 // =============================================================================
 
-export function startTask(cwd: string, taskId: string, agentName: string): Task | null {
-  const task = getTask(cwd, taskId);
+export function startTask(cwd: string, taskId: string, agentName: string, plan?: string): Task | null {
+  const task = getTask(cwd, taskId, plan);
   if (!task || task.status !== "todo") return null;
 
   // Capture current git commit
@@ -254,16 +379,17 @@ export function startTask(cwd: string, taskId: string, agentName: string): Task
     base_commit: baseCommit,
     assigned_to: agentName,
     attempt_count: task.attempt_count + 1,
-  });
+  }, plan);
 }
 
 export function completeTask(
   cwd: string,
   taskId: string,
   summary: string,
-  evidence?: TaskEvidence
+  evidence?: TaskEvidence,
+  plan?: string
 ): Task | null {
-  const task = getTask(cwd, taskId);
+  const task = getTask(cwd, taskId, plan);
   if (!task || task.status !== "in_progress") return null;
 
   const updated = updateTask(cwd, taskId, {
@@ -272,40 +398,48 @@ export function completeTask(
     summary,
     evidence,
     assigned_to: undefined,
-  });
+  }, plan);
 
   // Update plan completed count
   if (updated) {
-    const plan = getPlan(cwd);
-    if (plan) {
-      updatePlan(cwd, { completed_count: plan.completed_count + 1 });
+    const existing = getPlan(cwd, plan);
+    if (existing) {
+      updatePlan(cwd, { completed_count: existing.completed_count + 1 }, plan);
     }
   }
 
   return updated;
 }
 
-export function blockTask(cwd: string, taskId: string, reason: string): Task | null {
-  const task = getTask(cwd, taskId);
+export function blockTask(cwd: string, taskId: string, reason: string, plan?: string): Task | null {
+  const task = getTask(cwd, taskId, plan);
   if (!task) return null;
 
   // Write block context to blocks directory
-  const blockPath = path.join(getBlocksDir(cwd), `${taskId}.md`);
+  const blockPath = path.join(getBlocksDir(cwd, plan), `${taskId}.md`);
   writeText(blockPath, `# Blocked: ${task.title}\n\n**Reason:** ${reason}\n\n**Blocked at:** ${new Date().toISOString()}\n`);
 
-  return updateTask(cwd, taskId, {
+  const updated = updateTask(cwd, taskId, {
     status: "blocked",
     blocked_reason: reason,
     assigned_to: undefined,
-  });
+  }, plan);
+
+  // A done task can be blocked after the fact (e.g. its branch failed to merge)
+  if (task.status === "done") {
+    const doneTasks = getTasks(cwd, plan).filter(t => t.status === "done");
+    updatePlan(cwd, { completed_count: doneTasks.length }, plan);
+  }
+
+  return updated;
 }
 
-export function unblockTask(cwd: string, taskId: string): Task | null {
-  const task = getTask(cwd, taskId);
+export function unblockTask(cwd: string, taskId: string, plan?: string): Task | null {
+  const task = getTask(cwd, taskId, plan);
   if (!task || task.status !== "blocked") return null;
 
   // Remove block file if exists
-  const blockPath = path.join(getBlocksDir(cwd), `${taskId}.md`);
+  const blockPath = path.join(getBlocksDir(cwd, plan), `${taskId}.md`);
   try {
     fs.unlinkSync(blockPath);
   } catch {
@@ -315,11 +449,33 @@ export function unblockTask(cwd: string, taskId: string): Task | null {
   return updateTask(cwd, taskId, {
     status: "todo",
     blocked_reason: undefined,
-  });
+  }, plan);
+}
+
+/**
+ * Send a done task back to todo after a NEEDS_WORK review. Unlike resetTask,
+ * last_review and review_count survive so the next worker sees the feedback.
+ */
+export function reopenTask(cwd: string, taskId: string, plan?: string): Task | null {
+  const task = getTask(cwd, taskId, plan);
+  if (!task || task.status !== "done") return null;
+
+  const updated = updateTask(cwd, taskId, {
+    status: "todo",
+    completed_at: undefined,
+    assigned_to: undefined,
+    summary: undefined,
+    evidence: undefined,
+  }, plan);
+
+  const doneTasks = getTasks(cwd, plan).filter(t => t.status === "done");
+  updatePlan(cwd, { completed_count: doneTasks.length }, plan);
+
+  return updated;
 }
 
-export function resetTask(cwd: string, taskId: string, cascade: boolean = false): Task[] {
-  const task = getTask(cwd, taskId);
+export function resetTask(cwd: string, taskId: string, cascade: boolean = false, plan?: string): Task[] {
+  const task = getTask(cwd, taskId, plan);
   if (!task) return [];
 
   const resetTasks: Task[] = [];
@@ -335,16 +491,17 @@ export function resetTask(cwd: string, taskId: string, cascade: boolean = false)
     summary: undefined,
     evidence: undefined,
     blocked_reason: undefined,
+    review_count: undefined,
     // Keep attempt_count for tracking
-  });
+  }, plan);
   if (updated) resetTasks.push(updated);
 
   // If cascade, reset all tasks that depend on this one
   if (cascade) {
-    const allTasks = getTasks(cwd);
+    const allTasks = getTasks(cwd, plan);
     for (const t of allTasks) {
       if (t.depends_on.includes(taskId) && t.status !== "todo") {
-        const cascaded = resetTask(cwd, t.id, true);
+        const cascaded = resetTask(cwd, t.id, true, plan);
         resetTasks.push(...cascaded);
       }
     }
@@ -352,10 +509,10 @@ export function resetTask(cwd: string, taskId: string, cascade: boolean = false)
 
   // Update plan completed count if needed
   if (wasDone && resetTasks.length > 0) {
-    const plan = getPlan(cwd);
-    if (plan) {
-      const doneTasks = getTasks(cwd).filter(t => t.status === "done");
-      updatePlan(cwd, { completed_count: doneTasks.length });
+    const existing = getPlan(cwd, plan);
+    if (existing) {
+      const doneTasks = getTasks(cwd, plan).filter(t => t.status === "done");
+      updatePlan(cwd, { completed_count: doneTasks.length }, plan);
     }
   }
 
@@ -366,8 +523,8 @@ export function resetTask(cwd: string, taskId: string, cascade: boolean = false)
 // Ready Tasks (Dependency Resolution)
 // =============================================================================
 
-export function getReadyTasks(cwd: string): Task[] {
-  const tasks = getTasks(cwd);
+export function getReadyTasks(cwd: string, plan?: string): Task[] {
+  const tasks = getTasks(cwd, plan);
   const doneIds = new Set(tasks.filter(t => t.status === "done").map(t => t.id));
 
   return tasks.filter(task => {
@@ -379,6 +536,82 @@ export function getReadyTasks(cwd: string): Task[] {
   });
 }
 
+// =============================================================================
+// Wave Scheduling
+// =============================================================================
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { high: 2, normal: 1, low: 0 };
+
+/**
+ * Length of the longest chain of unfinished tasks that starts at each task
+ * and follows dependents downstream (a task with no pending dependents is 1).
+ */
+export function getDownstreamChainLengths(tasks: Task[]): Map<string, number> {
+  const dependents = new Map<string, Task[]>();
+  for (const task of tasks) {
+    if (task.status === "done") continue;
+    for (const depId of task.depends_on) {
+      const list = dependents.get(depId) ?? [];
+      list.push(task);
+      dependents.set(depId, list);
+    }
+  }
+
+  const lengths = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  function chainLength(taskId: string): number {
+    const cached = lengths.get(taskId);
+    if (cached !== undefined) return cached;
+    if (visiting.has(taskId)) return 0; // Cycle - validatePlan reports these
+
+    visiting.add(taskId);
+    let longest = 0;
+    for (const dependent of dependents.get(taskId) ?? []) {
+      longest = Math.max(longest, chainLength(dependent.id));
+    }
+    visiting.delete(taskId);
+
+    lengths.set(taskId, longest + 1);
+    return longest + 1;
+  }
+
+  for (const task of tasks) chainLength(task.id);
+  return lengths;
+}
+
+/**
+ * Ready tasks in the order the wave scheduler should pick them:
+ * priority first, then longest downstream chain (critical path), then ID.
+ */
+export function getScheduledReadyTasks(cwd: string, plan?: string): Task[] {
+  const chains = getDownstreamChainLengths(getTasks(cwd, plan));
+  const ready = getReadyTasks(cwd, plan);
+
+  // Array.prototype.sort is stable, so equal tasks keep ID order
+  return ready.sort((a, b) => {
+    const byPriority = PRIORITY_RANK[b.priority ?? "normal"] - PRIORITY_RANK[a.priority ?? "normal"];
+    if (byPriority !== 0) return byPriority;
+    return (chains.get(b.id) ?? 1) - (chains.get(a.id) ?? 1);
+  });
+}
+
+// =============================================================================
+// Usage Accounting
+// =============================================================================
+
+/**
+ * Add an agent run's usage to the plan total and, when given, to the task.
+ */
+export function recordUsage(cwd: string, usage: TokenUsage, taskId?: string, plan?: string): void {
+  if (taskId) {
+    const task = getTask(cwd, taskId, plan);
+    if (task) updateTask(cwd, taskId, { usage: addUsage(task.usage, usage) }, plan);
+  }
+  const current = getPlan(cwd, plan);
+  if (current) updatePlan(cwd, { usage: addUsage(current.usage, usage) }, plan);
+}
+
 // =============================================================================
 // Validation
 // =============================================================================
@@ -389,16 +622,16 @@ export interface ValidationResult {
   warnings: string[];
 }
 
-export function validatePlan(cwd: string): ValidationResult {
+export function validatePlan(cwd: string, planSlug?: string): ValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
 
-  const plan = getPlan(cwd);
+  const plan = getPlan(cwd, planSlug);
   if (!plan) {
     return { valid: false, errors: ["No plan found"], warnings: [] };
   }
 
-  const tasks = getTasks(cwd);
+  const tasks = getTasks(cwd, planSlug);
 
   // Check for orphan dependencies
   const taskIds = new Set(tasks.map(t => t.id));
@@ -442,14 +675,14 @@ export function validatePlan(cwd: string): ValidationResult {
 
   // Check for tasks without specs
   for (const task of tasks) {
-    const spec = getTaskSpec(cwd, task.id);
+    const spec = getTaskSpec(cwd, task.id, planSlug);
     if (!spec || spec.includes("*Spec pending*")) {
       warnings.push(`Task ${task.id} has no detailed spec`);
     }
   }
 
   // Check plan spec
-  const planSpec = getPlanSpec(cwd);
+  const planSpec = getPlanSpec(cwd, planSlug);
   if (!planSpec || planSpec.includes("*Spec pending*")) {
     warnings.push("Plan has no detailed spec");
   }
@@ -475,6 +708,6 @@ export function validatePlan(cwd: string): ValidationResult {
 // Plan Existence Check
 // =============================================================================
 
-export function hasPlan(cwd: string): boolean {
-  return getPlan(cwd) !== null;
+export function hasPlan(cwd: string, plan?: string): boolean {
+  return getPlan(cwd, plan) !== null;
 }
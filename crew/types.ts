@@ -7,6 +7,7 @@
 import type { MaxOutputConfig } from "./utils/truncate.js";
 import type { AgentProgress } from "./utils/progress.js";
 import type { CrewAgentConfig } from "./utils/discover.js";
+import type { MessagePayload, MessagePriority, ReceiptKind, ReservationMode } from "../lib.js";
 
 // =============================================================================
 // Plan Types
@@ -18,6 +19,22 @@ export interface Plan {
   updated_at: string;            // ISO timestamp
   task_count: number;            // Total tasks
   completed_count: number;       // Completed tasks
+  usage?: TokenUsage;            // Tokens and cost of every agent run for this plan
+}
+
+// =============================================================================
+// Usage Types
+// =============================================================================
+
+export interface TokenCounts {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+export interface TokenUsage extends TokenCounts {
+  cost: number;                  // USD, 0 for models without pricing
 }
 
 // =============================================================================
@@ -26,6 +43,8 @@ export interface Plan {
 
 export type TaskStatus = "todo" | "in_progress" | "done" | "blocked";
 
+export type TaskPriority = "high" | "normal" | "low";
+
 export interface TaskEvidence {
   commits?: string[];            // Commit SHAs
   tests?: string[];              // Test commands/files run
@@ -37,6 +56,7 @@ export interface Task {
   title: string;
   status: TaskStatus;
   model?: string;
+  priority?: TaskPriority;       // Scheduling priority (default: normal)
   depends_on: string[];          // Task IDs this depends on
   created_at: string;            // ISO timestamp
   updated_at: string;            // ISO timestamp
@@ -49,12 +69,14 @@ export interface Task {
   blocked_reason?: string;       // Reason from task.block
   attempt_count: number;         // How many times attempted (for auto-block)
   last_review?: ReviewFeedback;  // Feedback from last review (for retry)
+  review_count?: number;         // Automatic reviews run by work (capped by review.maxIterations)
+  usage?: TokenUsage;            // Tokens and cost across all attempts and reviews
 }
 
 export interface ReviewFeedback {
   verdict: ReviewVerdict;
   summary: string;
-  issues: string[];
+  issues: ReviewIssue[];         // Older reviews stored plain strings
   suggestions: string[];
   reviewed_at: string;           // ISO timestamp
 }
@@ -69,14 +91,16 @@ export interface CrewParams {
 
   // Plan
   prd?: string;                  // PRD file path for plan action
+  plan?: string;                 // Named plan selector (defaults to the active plan)
 
   // Task IDs
-  id?: string;                   // Task ID (task-N)
+  id?: string;                   // Task ID (task-N), or message ID for thread/reply
   taskId?: string;               // Swarm task ID (for claim/unclaim/complete)
 
   // Creation
   title?: string;
   dependsOn?: string[];
+  priority?: TaskPriority;
 
   // Completion
   summary?: string;
@@ -97,16 +121,33 @@ export interface CrewParams {
   // Task reset
   cascade?: boolean;
 
-  // Feed
+  // Feed / history
   limit?: number;
+  since?: string;                // ISO date/time or duration ("2h") for history
+  until?: string;
+  query?: string;                // Full-text filter for history
+
+  // Artifacts
+  runId?: string;                // Artifact run ID for crew.artifacts.*
+  agent?: string;                // Agent name filter for crew.artifacts.*
 
   // Coordination (existing)
   spec?: string;
   to?: string | string[];
   message?: string;
   replyTo?: string;
+  channel?: string;              // "#api" for channel.* actions
+  messagePriority?: MessagePriority;  // urgent (default) | normal | fyi for send/channel.send
+  payload?: MessagePayload;      // Attachment for send/broadcast/channel.send/reply; validated by the handler
+  at?: string;                   // Schedule send for an ISO date/time or "HH:MM"
+  delay?: string;                // Schedule send after a duration ("20m")
+  waitFor?: ReceiptKind;         // Block send until every recipient's receipt arrives
+  timeout?: number;              // Seconds to wait for receipts (default 60) or an ask answer (default 120)
   paths?: string[];
   reason?: string;
+  ttl?: number;                  // Reservation lease in seconds
+  mode?: ReservationMode;
+  wait?: boolean;                // Queue behind the current holder instead of failing
   name?: string;
   notes?: string;
   release?: string[] | boolean;
@@ -119,10 +160,19 @@ export interface CrewParams {
 
 export type ReviewVerdict = "SHIP" | "NEEDS_WORK" | "MAJOR_RETHINK";
 
+export type IssueSeverity = "critical" | "major" | "minor";
+
+export interface ReviewIssue {
+  description: string;
+  file?: string;                 // Path relative to the repo root
+  line?: number;                 // 1-based line in the new version of the file
+  severity?: IssueSeverity;
+}
+
 export interface ReviewResult {
   verdict: ReviewVerdict;
   summary: string;
-  issues?: string[];
+  issues?: ReviewIssue[];
   suggestions?: string[];
 }
 
@@ -136,6 +186,7 @@ export interface AgentTask {
   taskId?: string;
   modelOverride?: string;
   maxOutput?: MaxOutputConfig;
+  cwd?: string;                  // Working directory override (e.g. a task worktree)
 }
 
 export interface AgentResult {
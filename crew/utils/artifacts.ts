@@ -1,7 +1,8 @@
 /**
  * Crew - Debug Artifacts
  * 
- * Writes debug files for troubleshooting agent failures.
+ * Writes debug files for troubleshooting agent failures, and lists and
+ * prunes them so the artifacts directory doesn't grow without bound.
  */
 
 import * as fs from "node:fs";
@@ -48,3 +49,130 @@ export function appendJsonl(filePath: string, line: string): void {
   fs.appendFileSync(filePath, `${line}\n`);
 }
 
+// =============================================================================
+// Listing & Retention
+// =============================================================================
+
+const ARTIFACT_SUFFIXES = ["_input.md", "_output.md", "_meta.json", ".jsonl"];
+
+/** One agent run within a spawnAgents call: its input, output, jsonl and metadata files */
+export interface ArtifactEntry {
+  runId: string;
+  agent: string;
+  index?: number;
+  taskId?: string;
+  exitCode?: number;
+  files: string[];
+  bytes: number;
+  mtimeMs: number;
+}
+
+export interface RetentionPolicy {
+  cleanupDays: number;
+  maxSizeMB?: number;
+}
+
+export interface PruneResult {
+  removed: ArtifactEntry[];
+  freedBytes: number;
+}
+
+/**
+ * List artifact entries, newest first.
+ */
+export function listArtifacts(artifactsDir: string): ArtifactEntry[] {
+  let names: string[];
+  try {
+    names = fs.readdirSync(artifactsDir);
+  } catch {
+    return [];
+  }
+
+  const byBase = new Map<string, ArtifactEntry>();
+  for (const name of names) {
+    const suffix = ARTIFACT_SUFFIXES.find(s => name.endsWith(s));
+    if (!suffix) continue;
+    const base = name.slice(0, -suffix.length);
+    const sep = base.indexOf("_");
+    if (sep <= 0) continue;
+
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(path.join(artifactsDir, name));
+    } catch {
+      continue;
+    }
+
+    let entry = byBase.get(base);
+    if (!entry) {
+      const rest = base.slice(sep + 1);
+      const indexMatch = rest.match(/^(.*)_(\d+)$/);
+      entry = {
+        runId: base.slice(0, sep),
+        agent: indexMatch ? indexMatch[1] : rest,
+        index: indexMatch ? parseInt(indexMatch[2], 10) : undefined,
+        files: [],
+        bytes: 0,
+        mtimeMs: 0,
+      };
+      byBase.set(base, entry);
+    }
+    entry.files.push(path.join(artifactsDir, name));
+    entry.bytes += stat.size;
+    entry.mtimeMs = Math.max(entry.mtimeMs, stat.mtimeMs);
+
+    if (suffix === "_meta.json") {
+      try {
+        const meta = JSON.parse(fs.readFileSync(path.join(artifactsDir, name), "utf-8"));
+        if (typeof meta.taskId === "string") entry.taskId = meta.taskId;
+        if (typeof meta.exitCode === "number") entry.exitCode = meta.exitCode;
+      } catch {}
+    }
+  }
+
+  return [...byBase.values()].sort((a, b) => b.mtimeMs - a.mtimeMs);
+}
+
+export function deleteArtifacts(entries: ArtifactEntry[]): number {
+  let freed = 0;
+  for (const entry of entries) {
+    for (const file of entry.files) {
+      try {
+        fs.rmSync(file, { force: true });
+      } catch {}
+    }
+    freed += entry.bytes;
+  }
+  return freed;
+}
+
+/**
+ * Remove entries older than cleanupDays, then the oldest remaining entries
+ * until the directory fits under maxSizeMB (when set).
+ */
+export function pruneArtifacts(
+  artifactsDir: string,
+  policy: RetentionPolicy,
+  now: number = Date.now()
+): PruneResult {
+  const entries = listArtifacts(artifactsDir);
+  const cutoff = now - policy.cleanupDays * 24 * 60 * 60 * 1000;
+
+  const expired = entries.filter(e => e.mtimeMs < cutoff);
+  const kept = entries.filter(e => e.mtimeMs >= cutoff);
+
+  const overCap: ArtifactEntry[] = [];
+  if (policy.maxSizeMB !== undefined) {
+    const maxBytes = policy.maxSizeMB * 1024 * 1024;
+    let total = kept.reduce((sum, e) => sum + e.bytes, 0);
+    // kept is newest first, so evict from the end
+    while (total > maxBytes && kept.length > 0) {
+      const oldest = kept.pop()!;
+      overCap.push(oldest);
+      total -= oldest.bytes;
+    }
+  }
+
+  const removed = [...expired, ...overCap];
+  return { removed, freedBytes: deleteArtifacts(removed) };
+}
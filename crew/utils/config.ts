@@ -8,6 +8,7 @@ import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
 import type { MaxOutputConfig } from "./truncate.js";
+import type { ModelPricing } from "./usage.js";
 
 const USER_CONFIG_PATH = path.join(os.homedir(), ".pi", "agent", "pi-messenger.json");
 const PROJECT_CONFIG_FILE = "config.json";
@@ -31,15 +32,28 @@ export interface CrewConfig {
   artifacts: {
     enabled: boolean;
     cleanupDays: number;
+    maxSizeMB?: number;
   };
   memory: { enabled: boolean };
   planSync: { enabled: boolean };
   review: { enabled: boolean; maxIterations: number };
   planning: { maxPasses: number };
+  /** Per-plan spend limits; autonomous mode will not start a wave past them */
+  budget?: {
+    maxCostUsd?: number;
+    maxTokens?: number;
+  };
+  /** Extra or overriding entries for the model pricing table (USD per million tokens) */
+  pricing?: Record<string, ModelPricing>;
   work: {
     maxAttemptsPerTask: number;
     maxWaves: number;
     stopOnBlock: boolean;
+    maxFailuresPerWave?: number;
+    maxTotalTokens?: number;
+    maxDurationMinutes?: number;
+    stopOnMajorRethink: boolean;
+    isolation: "shared" | "worktree";
     env?: Record<string, string>;
     shutdownGracePeriodMs?: number;
   };
@@ -60,7 +74,7 @@ const DEFAULT_CONFIG: CrewConfig = {
   planSync: { enabled: false },
   review: { enabled: true, maxIterations: 3 },
   planning: { maxPasses: 3 },
-  work: { maxAttemptsPerTask: 5, maxWaves: 50, stopOnBlock: false, shutdownGracePeriodMs: 30000 },
+  work: { maxAttemptsPerTask: 5, maxWaves: 50, stopOnBlock: false, stopOnMajorRethink: false, isolation: "shared", shutdownGracePeriodMs: 30000 },
 };
 
 function loadJson(filePath: string): Record<string, unknown> {
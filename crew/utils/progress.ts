@@ -4,6 +4,8 @@
  * Real-time visibility into agent execution via --mode json event parsing.
  */
 
+import type { TokenCounts } from "../types.js";
+
 export interface AgentProgress {
   agent: string;
   status: "pending" | "running" | "completed" | "failed";
@@ -12,6 +14,8 @@ export interface AgentProgress {
   recentTools: Array<{ tool: string; args: string; endMs: number }>;
   toolCallCount: number;
   tokens: number;
+  usage: TokenCounts;
+  model?: string;
   durationMs: number;
   error?: string;
 }
@@ -37,6 +41,7 @@ export function createProgress(agent: string): AgentProgress {
     recentTools: [],
     toolCallCount: 0,
     tokens: 0,
+    usage: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
     durationMs: 0,
   };
 }
@@ -76,7 +81,15 @@ export function updateProgress(progress: AgentProgress, event: PiEvent, startTim
 
     case "message_end":
       if (event.message?.usage) {
-        progress.tokens += (event.message.usage.input ?? 0) + (event.message.usage.output ?? 0);
+        const usage = event.message.usage;
+        progress.tokens += (usage.input ?? 0) + (usage.output ?? 0);
+        progress.usage.input += usage.input ?? 0;
+        progress.usage.output += usage.output ?? 0;
+        progress.usage.cacheRead += usage.cacheRead ?? 0;
+        progress.usage.cacheWrite += usage.cacheWrite ?? 0;
+      }
+      if (event.message?.model) {
+        progress.model = event.message.model;
       }
       if (event.message?.errorMessage) {
         progress.error = event.message.errorMessage;
@@ -0,0 +1,123 @@
+/**
+ * Crew - Token Usage & Pricing
+ *
+ * Accumulates token usage from spawned agents and prices it per model.
+ */
+
+import type { AgentResult, TokenCounts, TokenUsage } from "../types.js";
+
+/** USD per million tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+/**
+ * List prices keyed by model ID prefix. The longest matching prefix wins, so
+ * "claude-opus-4-5-20251101" resolves to "claude-opus-4-5", not "claude-opus-4".
+ * Override or extend via `crew.pricing` in config.
+ */
+export const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  "claude-opus-4-5": { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  "claude-opus-4": { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  "claude-sonnet-4": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  "claude-haiku-4-5": { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  "gpt-5": { input: 1.25, output: 10, cacheRead: 0.125, cacheWrite: 0 },
+  "gpt-4.1": { input: 2, output: 8, cacheRead: 0.5, cacheWrite: 0 },
+  "gpt-4o": { input: 2.5, output: 10, cacheRead: 1.25, cacheWrite: 0 },
+  "gemini-2.5-pro": { input: 1.25, output: 10, cacheRead: 0.31, cacheWrite: 0 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5, cacheRead: 0.075, cacheWrite: 0 },
+};
+
+export function emptyCounts(): TokenCounts {
+  return { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 };
+}
+
+export function emptyUsage(): TokenUsage {
+  return { ...emptyCounts(), cost: 0 };
+}
+
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage {
+  const base = a ?? emptyUsage();
+  if (!b) return { ...base };
+  return {
+    input: base.input + b.input,
+    output: base.output + b.output,
+    cacheRead: base.cacheRead + b.cacheRead,
+    cacheWrite: base.cacheWrite + b.cacheWrite,
+    cost: base.cost + b.cost,
+  };
+}
+
+/** All tokens, cache included */
+export function totalTokens(usage: TokenCounts | undefined): number {
+  if (!usage) return 0;
+  return usage.input + usage.output + usage.cacheRead + usage.cacheWrite;
+}
+
+/**
+ * Find pricing for a model. Provider prefixes ("anthropic/...") are ignored.
+ */
+export function findPricing(
+  model: string | undefined,
+  overrides?: Record<string, ModelPricing>
+): ModelPricing | undefined {
+  if (!model) return undefined;
+  const id = model.includes("/") ? model.slice(model.lastIndexOf("/") + 1) : model;
+  const table = { ...DEFAULT_PRICING, ...overrides };
+
+  let best: string | undefined;
+  for (const key of Object.keys(table)) {
+    if (id.startsWith(key) && (!best || key.length > best.length)) best = key;
+  }
+  return best ? table[best] : undefined;
+}
+
+/**
+ * Price token counts. Unknown models cost 0 so usage is still tracked.
+ */
+export function priceUsage(
+  counts: TokenCounts,
+  model: string | undefined,
+  overrides?: Record<string, ModelPricing>
+): TokenUsage {
+  const pricing = findPricing(model, overrides);
+  const cost = pricing
+    ? (counts.input * pricing.input +
+       counts.output * pricing.output +
+       counts.cacheRead * pricing.cacheRead +
+       counts.cacheWrite * pricing.cacheWrite) / 1_000_000
+    : 0;
+  return { ...counts, cost };
+}
+
+/**
+ * Priced usage for a finished agent. The model reported in the event stream
+ * wins over the agent's configured model.
+ */
+export function usageFromResult(
+  agentResult: AgentResult,
+  overrides?: Record<string, ModelPricing>
+): TokenUsage {
+  const model = agentResult.progress.model ?? agentResult.config?.model;
+  return priceUsage(agentResult.progress.usage ?? emptyCounts(), model, overrides);
+}
+
+export function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1000) return `${(n / 1000).toFixed(0)}k`;
+  return `${n}`;
+}
+
+export function formatCost(cost: number): string {
+  return cost >= 1 ? `$${cost.toFixed(2)}` : `$${cost.toFixed(3)}`;
+}
+
+/** e.g. "12k in / 3k out / 40k cache · $0.420" */
+export function formatUsage(usage: TokenUsage): string {
+  const cache = usage.cacheRead + usage.cacheWrite;
+  return `${formatTokens(usage.input)} in / ${formatTokens(usage.output)} out / ${formatTokens(cache)} cache · ${formatCost(usage.cost)}`;
+}
@@ -2,21 +2,120 @@
  * Crew - Review Verdict Parsing
  *
  * Shared verdict parsing utility for reviewer outputs.
+ * Reviewers emit a fenced ```json verdict block, validated against the schema
+ * below. Output without a valid block falls back to the markdown format
+ * (## Verdict / ## Issues / ## Suggestions).
  */
 
+import type { IssueSeverity, ReviewIssue, ReviewVerdict } from "../types.js";
+
 export interface ParsedReview {
-  verdict: "SHIP" | "NEEDS_WORK" | "MAJOR_RETHINK";
+  verdict: ReviewVerdict;
   summary: string;
-  issues: string[];
+  issues: ReviewIssue[];
   suggestions: string[];
+  format: "json" | "markdown";
+  errors?: string[];             // Why the JSON block was rejected, if one was found
 }
 
+const VERDICTS: ReviewVerdict[] = ["SHIP", "NEEDS_WORK", "MAJOR_RETHINK"];
+const SEVERITIES: IssueSeverity[] = ["critical", "major", "minor"];
+
 export function parseVerdict(output: string): ParsedReview {
+  const block = findJsonBlock(output);
+  if (block === null) return parseMarkdownVerdict(output);
+
+  let data: unknown;
+  try {
+    data = JSON.parse(block);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "invalid JSON";
+    return { ...parseMarkdownVerdict(output), errors: [message] };
+  }
+
+  const validated = validateVerdict(data);
+  if ("errors" in validated) {
+    return { ...parseMarkdownVerdict(output), errors: validated.errors };
+  }
+  return validated.review;
+}
+
+/**
+ * Validate a decoded verdict block. Schema:
+ *   { verdict: "SHIP"|"NEEDS_WORK"|"MAJOR_RETHINK", summary: string,
+ *     issues?: Array<string | { description, file?, line?, severity? }>,
+ *     suggestions?: string[] }
+ */
+export function validateVerdict(data: unknown): { review: ParsedReview } | { errors: string[] } {
+  const errors: string[] = [];
+  if (!isRecord(data)) return { errors: ["verdict block must be a JSON object"] };
+
+  const verdict = typeof data.verdict === "string" ? data.verdict.toUpperCase() : data.verdict;
+  if (!VERDICTS.includes(verdict as ReviewVerdict)) {
+    errors.push(`verdict must be one of ${VERDICTS.join(", ")}`);
+  }
+  if (typeof data.summary !== "string") {
+    errors.push("summary must be a string");
+  }
+
+  const issues: ReviewIssue[] = [];
+  if (data.issues !== undefined && !Array.isArray(data.issues)) {
+    errors.push("issues must be an array");
+  }
+  for (const [i, raw] of (Array.isArray(data.issues) ? data.issues : []).entries()) {
+    const issue = toIssue(raw, `issues[${i}]`, errors);
+    if (issue) issues.push(issue);
+  }
+
+  const suggestions: string[] = [];
+  if (data.suggestions !== undefined && !Array.isArray(data.suggestions)) {
+    errors.push("suggestions must be an array");
+  }
+  for (const [i, raw] of (Array.isArray(data.suggestions) ? data.suggestions : []).entries()) {
+    if (typeof raw === "string") suggestions.push(raw);
+    else errors.push(`suggestions[${i}] must be a string`);
+  }
+
+  if (errors.length > 0) return { errors };
+  return {
+    review: {
+      verdict: verdict as ReviewVerdict,
+      summary: (data.summary as string).trim(),
+      issues,
+      suggestions,
+      format: "json",
+    },
+  };
+}
+
+/**
+ * Render an issue as one line: "src/auth.ts:42 [major] Description".
+ * Accepts plain strings too, which is how issues were stored before
+ * verdicts carried locations.
+ */
+export function formatIssue(issue: ReviewIssue | string): string {
+  if (typeof issue === "string") return issue;
+  const location = formatIssueLocation(issue);
+  const severity = issue.severity ? `[${issue.severity}] ` : "";
+  return `${location ? `${location} ` : ""}${severity}${issue.description}`;
+}
+
+export function formatIssueLocation(issue: ReviewIssue | string): string {
+  if (typeof issue === "string" || !issue.file) return "";
+  return issue.line !== undefined ? `${issue.file}:${issue.line}` : issue.file;
+}
+
+// =============================================================================
+// Markdown Fallback
+// =============================================================================
+
+function parseMarkdownVerdict(output: string): ParsedReview {
   const result: ParsedReview = {
     verdict: "NEEDS_WORK",
     summary: "",
     issues: [],
-    suggestions: []
+    suggestions: [],
+    format: "markdown"
   };
 
   // Extract verdict
@@ -34,22 +133,96 @@ export function parseVerdict(output: string): ParsedReview {
   // Extract issues
   const issuesMatch = output.match(/##\s*Issues?\s*\n([\s\S]*?)(?=\n##|$)/i);
   if (issuesMatch) {
-    result.issues = issuesMatch[1]
-      .split("\n")
-      .filter(line => line.trim().startsWith("-") || line.trim().startsWith("*"))
-      .map(line => line.replace(/^[\s\-*]+/, "").trim())
-      .filter(Boolean);
+    result.issues = bullets(issuesMatch[1]).map(issueFromText);
   }
 
   // Extract suggestions
   const suggestionsMatch = output.match(/##\s*Suggestions?\s*\n([\s\S]*?)(?=\n##|$)/i);
   if (suggestionsMatch) {
-    result.suggestions = suggestionsMatch[1]
-      .split("\n")
-      .filter(line => line.trim().startsWith("-") || line.trim().startsWith("*"))
-      .map(line => line.replace(/^[\s\-*]+/, "").trim())
-      .filter(Boolean);
+    result.suggestions = bullets(suggestionsMatch[1]);
   }
 
   return result;
 }
+
+function bullets(section: string): string[] {
+  return section
+    .split("\n")
+    .filter(line => line.trim().startsWith("-") || line.trim().startsWith("*"))
+    .map(line => line.replace(/^[\s\-*]+/, "").trim())
+    .filter(Boolean);
+}
+
+/**
+ * Pick up a leading location ("src/a.ts:42 - ..." or "`src/a.ts:42`: ...")
+ * and a severity tag ("[major] ...") from a markdown bullet.
+ */
+function issueFromText(text: string): ReviewIssue {
+  let rest = text;
+  const issue: ReviewIssue = { description: text };
+
+  const location = rest.match(/^`([^`\s]+?)(?::(\d+))?`\s*(?:[-—:]\s*)?/)
+    ?? rest.match(/^([\w./@-]+\.\w+):(\d+)\s*(?:[-—:]\s*)?/);
+  if (location && location[0].length < rest.length) {
+    issue.file = location[1];
+    if (location[2]) issue.line = parseInt(location[2], 10);
+    rest = rest.slice(location[0].length);
+  }
+
+  const severity = rest.match(/^\[(critical|major|minor)\]\s*/i);
+  if (severity) {
+    issue.severity = severity[1].toLowerCase() as IssueSeverity;
+    rest = rest.slice(severity[0].length);
+  }
+
+  issue.description = rest.trim() || text;
+  return issue;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Return the body of the last ```json fence that mentions "verdict", or null.
+ */
+function findJsonBlock(output: string): string | null {
+  const fences = [...output.matchAll(/```json\s*\n([\s\S]*?)```/gi)];
+  for (let i = fences.length - 1; i >= 0; i--) {
+    if (fences[i][1].includes("\"verdict\"")) return fences[i][1].trim();
+  }
+  return null;
+}
+
+function toIssue(raw: unknown, label: string, errors: string[]): ReviewIssue | null {
+  if (typeof raw === "string") return { description: raw };
+  if (!isRecord(raw)) {
+    errors.push(`${label} must be a string or an object`);
+    return null;
+  }
+
+  if (typeof raw.description !== "string" || raw.description.trim() === "") {
+    errors.push(`${label}.description must be a non-empty string`);
+    return null;
+  }
+  const issue: ReviewIssue = { description: raw.description.trim() };
+
+  if (raw.file !== undefined && raw.file !== null) {
+    if (typeof raw.file === "string") issue.file = raw.file;
+    else errors.push(`${label}.file must be a string`);
+  }
+  if (raw.line !== undefined && raw.line !== null) {
+    if (typeof raw.line === "number" && Number.isInteger(raw.line) && raw.line > 0) issue.line = raw.line;
+    else errors.push(`${label}.line must be a positive integer`);
+  }
+  if (raw.severity !== undefined && raw.severity !== null) {
+    const severity = typeof raw.severity === "string" ? raw.severity.toLowerCase() : raw.severity;
+    if (SEVERITIES.includes(severity as IssueSeverity)) issue.severity = severity as IssueSeverity;
+    else errors.push(`${label}.severity must be one of ${SEVERITIES.join(", ")}`);
+  }
+  return issue;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,173 @@
+/**
+ * Crew - Worktree Isolation
+ *
+ * Opt-in (work.isolation: "worktree"): each task runs in its own git
+ * worktree on a task branch cut from the wave's base commit, so parallel
+ * workers never share a working tree or index. Finished branches are merged
+ * back in dependency order; conflicts are reported to the caller.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { execFileSync } from "node:child_process";
+import type { Task } from "./types.js";
+
+export interface TaskWorktree {
+  taskId: string;
+  branch: string;
+  dir: string;
+}
+
+export type MergeOutcome =
+  | { ok: true; commit: string }
+  | { ok: false; conflicts: string[]; error: string };
+
+const EXCLUDE_PATTERN = "/.pi/messenger/";
+
+function git(cwd: string, args: string[]): string {
+  return execFileSync("git", args, { cwd, encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"] }).trim();
+}
+
+export function isGitRepo(cwd: string): boolean {
+  try {
+    return git(cwd, ["rev-parse", "--is-inside-work-tree"]) === "true";
+  } catch {
+    return false;
+  }
+}
+
+export function getHeadCommit(cwd: string): string {
+  return git(cwd, ["rev-parse", "HEAD"]);
+}
+
+export function getTaskBranch(plan: string, taskId: string): string {
+  return `crew/${plan}/${taskId}`;
+}
+
+/**
+ * Worktrees live next to the crew dir rather than inside it, so the crew
+ * symlink placed in each worktree can't loop back into the worktrees.
+ */
+export function getWorktreeDir(cwd: string, plan: string, taskId: string): string {
+  return path.join(cwd, ".pi", "messenger", "worktrees", plan, taskId);
+}
+
+/**
+ * Create (or reset) the worktree for a task on its branch at baseCommit.
+ * With `resume`, an existing task branch is checked out as-is instead, so a
+ * task reopened by review keeps its earlier commits.
+ * The worktree's .pi/messenger/crew links back to the main crew dir so the
+ * worker's task.* calls update the shared plan.
+ */
+export function createTaskWorktree(
+  cwd: string,
+  plan: string,
+  taskId: string,
+  baseCommit: string,
+  options: { resume?: boolean } = {}
+): TaskWorktree {
+  const branch = getTaskBranch(plan, taskId);
+  const dir = getWorktreeDir(cwd, plan, taskId);
+
+  if (fs.existsSync(dir)) {
+    removeTaskWorktree(cwd, plan, taskId, { keepBranch: true });
+  }
+  fs.mkdirSync(path.dirname(dir), { recursive: true });
+  if (options.resume && branchExists(cwd, branch)) {
+    git(cwd, ["worktree", "add", dir, branch]);
+  } else {
+    git(cwd, ["worktree", "add", "-B", branch, dir, baseCommit]);
+  }
+
+  ensureCrewExcluded(cwd);
+  const crewLink = path.join(dir, ".pi", "messenger", "crew");
+  if (!fs.existsSync(crewLink)) {
+    fs.mkdirSync(path.dirname(crewLink), { recursive: true });
+    fs.symlinkSync(path.join(cwd, ".pi", "messenger", "crew"), crewLink, "dir");
+  }
+
+  return { taskId, branch, dir };
+}
+
+export function removeTaskWorktree(
+  cwd: string,
+  plan: string,
+  taskId: string,
+  options: { keepBranch?: boolean } = {}
+): void {
+  const dir = getWorktreeDir(cwd, plan, taskId);
+  try {
+    git(cwd, ["worktree", "remove", "--force", dir]);
+  } catch {
+    fs.rmSync(dir, { recursive: true, force: true });
+    try { git(cwd, ["worktree", "prune"]); } catch {}
+  }
+  if (!options.keepBranch) {
+    try { git(cwd, ["branch", "-D", getTaskBranch(plan, taskId)]); } catch {}
+  }
+}
+
+/**
+ * Merge a task branch into the current branch of the main checkout.
+ * On conflict the merge is aborted and the conflicting paths are returned.
+ */
+export function mergeTaskBranch(cwd: string, plan: string, task: Task): MergeOutcome {
+  const branch = getTaskBranch(plan, task.id);
+  try {
+    git(cwd, ["merge", "--no-ff", "--no-edit", "-m", `Merge ${branch}: ${task.title}`, branch]);
+    return { ok: true, commit: getHeadCommit(cwd) };
+  } catch (err) {
+    let conflicts: string[] = [];
+    try {
+      conflicts = git(cwd, ["diff", "--name-only", "--diff-filter=U"]).split("\n").filter(Boolean);
+    } catch {}
+    try { git(cwd, ["merge", "--abort"]); } catch {}
+    const message = err instanceof Error ? err.message.split("\n")[0] : "merge failed";
+    return { ok: false, conflicts, error: message };
+  }
+}
+
+/**
+ * Order task IDs so every task comes after the tasks it depends on.
+ * Ties keep their original order.
+ */
+export function orderByDependencies(taskIds: string[], tasks: Task[]): string[] {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const wanted = new Set(taskIds);
+  const ordered: string[] = [];
+  const visited = new Set<string>();
+
+  const visit = (id: string) => {
+    if (visited.has(id)) return;
+    visited.add(id);
+    for (const dep of byId.get(id)?.depends_on ?? []) visit(dep);
+    if (wanted.has(id)) ordered.push(id);
+  };
+  for (const id of taskIds) visit(id);
+
+  return ordered;
+}
+
+function branchExists(cwd: string, branch: string): boolean {
+  try {
+    git(cwd, ["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Keep crew state and worktrees out of `git add -A` in every checkout.
+ * info/exclude lives in the common git dir, so one entry covers all worktrees.
+ */
+function ensureCrewExcluded(cwd: string): void {
+  try {
+    const excludePath = path.resolve(cwd, git(cwd, ["rev-parse", "--git-path", "info/exclude"]));
+    const current = fs.existsSync(excludePath) ? fs.readFileSync(excludePath, "utf-8") : "";
+    if (current.split("\n").some(line => line.trim() === EXCLUDE_PATTERN)) return;
+    fs.mkdirSync(path.dirname(excludePath), { recursive: true });
+    const sep = current === "" || current.endsWith("\n") ? "" : "\n";
+    fs.appendFileSync(excludePath, `${sep}${EXCLUDE_PATTERN}\n`);
+  } catch {}
+}
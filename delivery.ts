@@ -0,0 +1,98 @@
+/**
+ * Pi Messenger - Priority Delivery
+ *
+ * Decides when an incoming message is shown. Urgent messages steer in at
+ * once, normal ones wait for the end of the current turn while the agent is
+ * working, and fyi ones are collected into a digest shown once it is idle.
+ * The agent counts as working from a tool call until the agent loop ends.
+ */
+
+import { effectivePriority, type AgentMailMessage, type MessagePriority } from "./lib.js";
+
+const FYI_DIGEST_DELAY_MS = 5000;
+
+export interface PriorityDeliveryOptions {
+  maxPriority?: MessagePriority;             // Incoming priorities are capped at this
+  show: (msg: AgentMailMessage) => void;
+  showDigest: (messages: AgentMailMessage[]) => void;
+  /** Messages shown after being held back, which still need read receipts. */
+  acknowledge: (messages: AgentMailMessage[]) => void;
+  digestDelayMs?: number;
+}
+
+export interface PriorityDelivery {
+  /** Show `msg` now or hold it back. Returns false when held back. */
+  deliver(msg: AgentMailMessage): boolean;
+  /** The agent is working (it called a tool). */
+  markRunning(): void;
+  /** A turn ended: show the normal messages held back during it. */
+  turnEnded(): void;
+  /** The agent loop ended: show everything held back. */
+  agentEnded(): void;
+  dispose(): void;
+}
+
+export function createPriorityDelivery(options: PriorityDeliveryOptions): PriorityDelivery {
+  const deferred: AgentMailMessage[] = [];
+  const fyi: AgentMailMessage[] = [];
+  let digestTimer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+
+  function flushDeferred(): void {
+    const messages = deferred.splice(0);
+    if (messages.length === 0) return;
+    for (const msg of messages) options.show(msg);
+    options.acknowledge(messages);
+  }
+
+  function flushDigest(): void {
+    const messages = fyi.splice(0);
+    if (messages.length === 0) return;
+    options.showDigest(messages);
+    options.acknowledge(messages);
+  }
+
+  function scheduleDigest(): void {
+    if (digestTimer) return;
+    digestTimer = setTimeout(() => {
+      digestTimer = null;
+      if (!running) flushDigest();
+    }, options.digestDelayMs ?? FYI_DIGEST_DELAY_MS);
+  }
+
+  return {
+    deliver(msg) {
+      const priority = effectivePriority(msg, options.maxPriority);
+      if (priority === "fyi") {
+        fyi.push(msg);
+        if (!running) scheduleDigest();
+        return false;
+      }
+      if (priority === "normal" && running) {
+        deferred.push(msg);
+        return false;
+      }
+      options.show(msg);
+      return true;
+    },
+
+    markRunning() {
+      running = true;
+    },
+
+    turnEnded() {
+      flushDeferred();
+    },
+
+    agentEnded() {
+      running = false;
+      flushDeferred();
+      flushDigest();
+    },
+
+    dispose() {
+      if (digestTimer) clearTimeout(digestTimer);
+      digestTimer = null;
+    },
+  };
+}
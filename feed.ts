@@ -7,13 +7,23 @@
 import * as fs from "node:fs";
 import { join } from "node:path";
 import type { Dirs } from "./lib.js";
+import { transportFor } from "./transport.js";
 
 export type FeedEventType =
   | "join"
   | "leave"
   | "reserve"
   | "release"
+  | "reserve.request"
+  | "reserve.wait"
+  | "reserve.grant"
+  | "reserve.steal"
+  | "reserve.expire"
   | "message"
+  | "message.undeliverable"
+  | "ask.unanswered"
+  | "channel.join"
+  | "channel.leave"
   | "commit"
   | "test"
   | "edit"
@@ -28,19 +38,16 @@ export interface FeedEvent {
   type: FeedEventType;
   target?: string;
   preview?: string;
+  host?: string;                 // Machine the event came from, once it has passed through a relay
 }
 
-function feedPath(dirs: Dirs): string {
+export function feedPath(dirs: Dirs): string {
   return join(dirs.base, "feed.jsonl");
 }
 
 export function appendFeedEvent(dirs: Dirs, event: FeedEvent): void {
-  const p = feedPath(dirs);
   try {
-    if (!fs.existsSync(dirs.base)) {
-      fs.mkdirSync(dirs.base, { recursive: true });
-    }
-    fs.appendFileSync(p, JSON.stringify(event) + "\n");
+    transportFor(dirs).appendFeed(event);
   } catch {
     // Best effort
   }
@@ -96,7 +103,16 @@ export function formatFeedLine(event: FeedEvent): string {
     case "leave": line += " left"; break;
     case "reserve": line += ` reserved ${event.target ?? ""}`; break;
     case "release": line += ` released ${event.target ?? ""}`; break;
+    case "reserve.request": line += ` requested ${event.target ?? ""} from ${event.preview ?? ""}`; break;
+    case "reserve.wait": line += ` is waiting for ${event.target ?? ""} behind ${event.preview ?? ""}`; break;
+    case "reserve.grant": line += ` was granted ${event.target ?? ""} from ${event.preview ?? ""}`; break;
+    case "reserve.steal": line += ` took ${event.target ?? ""} from ${event.preview ?? ""}`; break;
+    case "reserve.expire": line += ` let ${event.target ?? ""} expire`; break;
     case "message": line += ` ${event.preview ?? ""}`; break;
+    case "channel.join": line += ` joined ${event.target ?? ""}`; break;
+    case "channel.leave": line += ` left ${event.target ?? ""}`; break;
+    case "message.undeliverable": line += ` couldn't deliver a scheduled message to ${event.target ?? ""}: "${event.preview ?? ""}"`; break;
+    case "ask.unanswered": line += ` got no answer from ${event.target ?? ""}: "${event.preview ?? ""}"`; break;
     case "commit": line += ` committed "${event.preview ?? ""}"`; break;
     case "test": line += ` ran tests (${event.preview ?? ""})`; break;
     case "edit": line += ` editing ${event.target ?? ""}`; break;
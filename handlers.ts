@@ -3,12 +3,14 @@
  */
 
 import { existsSync } from "node:fs";
+import { randomUUID } from "node:crypto";
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
 import {
   type MessengerState,
   type Dirs,
   type AgentMailMessage,
   type AgentRegistration,
+  type FileReservation,
   type NameThemeConfig,
   type SpecClaims,
   type SpecCompletions,
@@ -21,11 +23,36 @@ import {
   formatDuration,
   buildSelfRegistration,
   agentHasTask,
+  formatReservation,
+  describeReservation,
+  commandTargetHitsReservation,
+  formatRelativeTime,
+  shortMessageId,
+  findMessage,
+  collectMessages,
+  groupThreads,
+  parseTimeBound,
+  hasReceipt,
+  normalizeChannelName,
+  resolveDueTime,
+  formatTimeUntil,
+  validatePayload,
+  payloadSummary,
+  formatPayload,
+  MAX_CHAT_HISTORY,
+  RESERVATION_MODE_ICONS,
+  type ReservationMode,
+  type ReservationWaiter,
+  type ReceiptKind,
+  type MessagePriority,
+  type ScheduledMessage,
+  type MessagePayload,
 } from "./lib.js";
 import * as store from "./store.js";
 import * as crewStore from "./crew/store.js";
 import { getAutoRegisterPaths, saveAutoRegisterPaths, matchesAutoRegisterPath } from "./config.js";
 import { readFeedEvents, logFeedEvent, pruneFeed, formatFeedLine, isCrewEvent, type FeedEvent } from "./feed.js";
+import { pruneMessageLog, readMessageLog } from "./message-log.js";
 
 // =============================================================================
 // Tool Result Helper
@@ -61,7 +88,8 @@ export function executeJoin(
   updateStatusFn: (ctx: ExtensionContext) => void,
   specPath?: string,
   nameTheme?: NameThemeConfig,
-  feedRetention?: number
+  feedRetention?: number,
+  messageLogRetention?: number
 ) {
   if (state.registered) {
     const agents = store.getActiveAgents(state, dirs);
@@ -83,6 +111,7 @@ export function executeJoin(
   store.startWatcher(state, dirs, deliverFn);
   updateStatusFn(ctx);
   pruneFeed(dirs, feedRetention ?? 50);
+  pruneMessageLog(dirs, messageLogRetention ?? 2000);
   logFeedEvent(dirs, state.agentName, "join");
 
   let specWarning = "";
@@ -146,7 +175,7 @@ export function executeStatus(state: MessengerState, dirs: Dirs) {
 
   text += `Peers: ${agents.length}\n`;
   if (state.reservations.length > 0) {
-    const myRes = state.reservations.map(r => `🔒 ${truncatePathLeft(r.pattern, 40)}`);
+    const myRes = state.reservations.map(r => `${RESERVATION_MODE_ICONS[r.mode ?? "exclusive"]} ${truncatePathLeft(formatReservation(r), 40)}`);
     text += `Reservations: ${myRes.join(", ")}\n`;
   }
   text += `\nUse { list: true } for details, { swarm: true } for task status.`;
@@ -218,8 +247,12 @@ export function executeList(state: MessengerState, dirs: Dirs, config?: { stuckT
     }
 
     if (a.reservations && a.reservations.length > 0) {
-      const resParts = a.reservations.map(r => r.pattern).join(", ");
-      parts.push(`\u{1F4C1} ${resParts}`);
+      parts.push(a.reservations.map(describeReservation).join(", "));
+    }
+
+    const waiting = queue.filter(w => w.agent === a.name);
+    if (waiting.length > 0) {
+      parts.push(`\u23F3 ${waiting.map(w => `${w.pattern} (#${queuePosition(queue, w)})`).join(", ")}`);
     }
 
     if (a.statusMessage) {
@@ -229,12 +262,14 @@ export function executeList(state: MessengerState, dirs: Dirs, config?: { stuckT
     return parts.join(" - ");
   }
 
+  const queue = store.getReservationQueue(dirs);
+
   const allClaims = store.getClaims(dirs);
 
-  lines.push(formatAgentLine(buildSelfRegistration(state), true, agentHasTask(state.agentName, allClaims, crewStore.getTasks(process.cwd()))));
+  lines.push(formatAgentLine(buildSelfRegistration(state), true, agentHasTask(state.agentName, allClaims, crewStore.getTasksAcrossPlans(process.cwd()))));
 
   for (const a of peers) {
-    lines.push(formatAgentLine(a, false, agentHasTask(a.name, allClaims, crewStore.getTasks(a.cwd))));
+    lines.push(formatAgentLine(a, false, agentHasTask(a.name, allClaims, crewStore.getTasksAcrossPlans(a.cwd))));
   }
 
   const recentEvents = readFeedEvents(dirs, 5);
@@ -251,13 +286,30 @@ export function executeList(state: MessengerState, dirs: Dirs, config?: { stuckT
   );
 }
 
+/** Validate a tool-supplied payload; unset is fine. */
+function payloadArg(payload: unknown, mode: string): { payload?: MessagePayload; error?: ReturnType<typeof result> } {
+  if (payload === undefined) return {};
+  const checked = validatePayload(payload);
+  if ("errors" in checked) {
+    return {
+      error: result(
+        `Error: invalid payload: ${checked.errors.join("; ")}.`,
+        { mode, error: "invalid_payload", errors: checked.errors }
+      )
+    };
+  }
+  return checked;
+}
+
 export function executeSend(
   state: MessengerState,
   dirs: Dirs,
   to: string | string[] | undefined,
   broadcast: boolean | undefined,
   message?: string,
-  replyTo?: string
+  replyTo?: string,
+  priority?: MessagePriority,
+  payload?: MessagePayload
 ) {
   if (!state.registered) {
     return notRegisteredError();
@@ -270,6 +322,9 @@ export function executeSend(
     );
   }
 
+  const attachment = payloadArg(payload, "send");
+  if (attachment.error) return attachment.error;
+
   let recipients: string[];
   if (broadcast) {
     const agents = store.getActiveAgents(state, dirs);
@@ -296,6 +351,7 @@ export function executeSend(
   }
 
   const sent: string[] = [];
+  const sentMessages: AgentMailMessage[] = [];
   const failed: Array<{ name: string; error: string }> = [];
 
   for (const recipient of recipients) {
@@ -318,8 +374,20 @@ export function executeSend(
     }
 
     try {
-      store.sendMessageToAgent(state, dirs, recipient, message, replyTo);
+      const msg = store.sendMessageToAgent(state, dirs, recipient, message, replyTo, {
+        priority,
+        payload: attachment.payload,
+        ...(broadcast ? { broadcast: true } : {}),
+      });
       sent.push(recipient);
+      sentMessages.push(msg);
+      // Keep our side of the conversation so threads show both directions
+      if (!broadcast) {
+        const history = state.chatHistory.get(recipient) ?? [];
+        history.push(msg);
+        if (history.length > MAX_CHAT_HISTORY) history.shift();
+        state.chatHistory.set(recipient, history);
+      }
     } catch (err) {
       const msg = err instanceof Error ? err.message : "write failed";
       failed.push({ name: recipient, error: msg });
@@ -344,20 +412,555 @@ export function executeSend(
   }
 
   let text = `Message sent to ${sent.join(", ")}.`;
+  if (!broadcast && sentMessages.length === 1) {
+    const msg = sentMessages[0];
+    text += ` (id ${shortMessageId(msg.id)}, thread ${shortMessageId(msg.threadId ?? msg.id)})`;
+  }
+  if (attachment.payload) {
+    text += ` Attached: ${payloadSummary(attachment.payload)}.`;
+  }
   if (failed.length > 0) {
     const failedStr = failed.map(f => `${f.name} (${f.error})`).join(", ");
     text += ` Failed: ${failedStr}`;
   }
 
-  return result(text, { mode: "send", sent, failed });
+  return result(text, {
+    mode: "send",
+    sent,
+    failed,
+    messages: sentMessages.map(m => ({ to: m.to, id: m.id, threadId: m.threadId }))
+  });
+}
+
+const RECEIPT_POLL_MS = 250;
+
+/**
+ * Send, then block until every recipient has acknowledged the message with a
+ * `waitFor` receipt, the timeout passes, or the tool call is aborted.
+ * Receipts are applied by the inbox watcher while this waits.
+ */
+export async function executeSendAndWait(
+  state: MessengerState,
+  dirs: Dirs,
+  to: string | string[] | undefined,
+  message: string | undefined,
+  replyTo: string | undefined,
+  waitFor: ReceiptKind,
+  timeoutSec: number = 60,
+  signal?: AbortSignal,
+  priority?: MessagePriority,
+  payload?: MessagePayload
+) {
+  const sent = executeSend(state, dirs, to, false, message, replyTo, priority, payload);
+  if (sent.details.error) return sent;
+
+  const ids = new Set((sent.details.messages as Array<{ id: string }>).map(m => m.id));
+  const ours = () => [...state.chatHistory.values()].flat().filter(m => ids.has(m.id));
+  const deadline = Date.now() + timeoutSec * 1000;
+
+  while (!ours().every(m => hasReceipt(m, waitFor)) && Date.now() < deadline && !signal?.aborted) {
+    await new Promise(resolve => setTimeout(resolve, RECEIPT_POLL_MS));
+  }
+
+  const messages = ours();
+  const acked = messages.filter(m => hasReceipt(m, waitFor)).map(m => m.to);
+  const waiting = messages.filter(m => !hasReceipt(m, waitFor)).map(m => m.to);
+  const receipts = messages.map(m => ({ to: m.to, id: m.id, deliveredAt: m.deliveredAt, readAt: m.readAt }));
+
+  let text = sent.content[0].text;
+  if (waiting.length === 0) {
+    text += ` ${waitFor === "read" ? "Read" : "Delivered"} by ${acked.join(", ")}.`;
+  } else {
+    const why = signal?.aborted ? "Stopped waiting" : `No ${waitFor} receipt after ${timeoutSec}s`;
+    text += ` ${why} from ${waiting.join(", ")}.`;
+    if (acked.length > 0) text += ` ${waitFor === "read" ? "Read" : "Delivered"} by ${acked.join(", ")}.`;
+  }
+
+  return result(text, {
+    ...sent.details,
+    receipts,
+    ...(waiting.length > 0 ? { waiting, ...(signal?.aborted ? { aborted: true } : { timedOut: true }) } : {}),
+  });
+}
+
+/**
+ * Send a question and block until the recipient answers it with `reply`
+ * (or any message whose replyTo is the question), the timeout passes, or the
+ * tool call is aborted. Unanswered questions are logged to the feed.
+ */
+export async function executeAsk(
+  state: MessengerState,
+  dirs: Dirs,
+  to: string | string[] | undefined,
+  message: string | undefined,
+  timeoutSec: number = 120,
+  signal?: AbortSignal
+) {
+  if (!state.registered) {
+    return notRegisteredError();
+  }
+
+  if (!message) {
+    return result("Error: message is required for ask.", { mode: "ask", error: "missing_message" });
+  }
+
+  if (!to || Array.isArray(to)) {
+    return result("Error: ask needs a single recipient in 'to'.", { mode: "ask", error: "missing_recipient" });
+  }
+
+  if (to === state.agentName) {
+    return result("Error: cannot ask yourself.", { mode: "ask", error: "cannot_ask_self" });
+  }
+
+  const validation = store.validateTargetAgent(to, dirs);
+  if (!validation.valid) {
+    return result(`Error: agent "${to}" is not available.`, { mode: "ask", error: (validation as { valid: false; error: string }).error });
+  }
+
+  const question = store.sendMessageToAgent(state, dirs, to, message, undefined, { question: true });
+  const history = state.chatHistory.get(to) ?? [];
+  history.push(question);
+  if (history.length > MAX_CHAT_HISTORY) history.shift();
+  state.chatHistory.set(to, history);
+
+  const preview = message.length > 60 ? message.slice(0, 57) + "..." : message;
+  logFeedEvent(dirs, state.agentName, "message", to, `asked ${to}: "${preview}"`);
+
+  const answer = await store.waitForReply(question.id, timeoutSec * 1000, signal);
+  const shortId = shortMessageId(question.id);
+
+  if (!answer) {
+    logFeedEvent(dirs, state.agentName, "ask.unanswered", to, preview);
+    const why = signal?.aborted ? "Stopped waiting" : `No answer after ${timeoutSec}s`;
+    return result(
+      `${why} from ${to} (question ${shortId}). A later answer will arrive as a normal message.`,
+      { mode: "ask", error: signal?.aborted ? "aborted" : "timeout", id: question.id, to }
+    );
+  }
+
+  history.push(answer);
+  if (history.length > MAX_CHAT_HISTORY) history.shift();
+
+  return result(`${to} answered (id ${shortMessageId(answer.id)}):\n\n${answer.text}`, {
+    mode: "ask",
+    id: question.id,
+    to,
+    answer
+  });
+}
+
+/** Answer a message (usually a question from ask) by its full or short ID. */
+export function executeReply(state: MessengerState, dirs: Dirs, id: string | undefined, message?: string, payload?: MessagePayload) {
+  if (!state.registered) {
+    return notRegisteredError();
+  }
+
+  if (!id) {
+    return result("Error: id of the message to reply to is required.", { mode: "reply", error: "missing_id" });
+  }
+
+  const target = findMessage(collectMessages(state), id);
+  if (!target || target.from === state.agentName) {
+    return result(`Error: no message "${id}" from another agent.`, { mode: "reply", error: "message_not_found", id });
+  }
+
+  return executeSend(state, dirs, target.from, false, message, target.id, undefined, payload);
+}
+
+// =============================================================================
+// Scheduled Messages
+// =============================================================================
+
+export interface ScheduleOptions {
+  at?: string;
+  delay?: string;
+  replyTo?: string;
+  priority?: MessagePriority;
+  payload?: MessagePayload;
+}
+
+/** `send` with `at` or `delay`: queue the message until it is due. */
+export async function executeSchedule(
+  state: MessengerState,
+  dirs: Dirs,
+  to: string | string[] | undefined,
+  broadcast: boolean | undefined,
+  message: string | undefined,
+  options: ScheduleOptions
+) {
+  if (!state.registered) {
+    return notRegisteredError();
+  }
+
+  if (!message) {
+    return result("Error: message is required when sending.", { mode: "schedule", error: "missing_message" });
+  }
+
+  const attachment = payloadArg(options.payload, "schedule");
+  if (attachment.error) return attachment.error;
+
+  if (options.at !== undefined && options.delay !== undefined) {
+    return result("Error: use either 'at' or 'delay', not both.", { mode: "schedule", error: "conflicting_schedule" });
+  }
+
+  const recipients = broadcast ? [] : [...new Set(Array.isArray(to) ? to : to ? [to] : [])];
+  if (!broadcast && recipients.length === 0) {
+    return result("Error: specify 'to' or 'broadcast: true'.", { mode: "schedule", error: "missing_recipient" });
+  }
+  for (const name of recipients) {
+    const validation = store.validateTargetAgent(name, dirs);
+    if (name === state.agentName || !validation.valid) {
+      return result(`Error: can't schedule a message to "${name}".`, { mode: "schedule", error: "invalid_recipient", name });
+    }
+  }
+
+  const now = Date.now();
+  const dueAt = resolveDueTime(options.at, options.delay, now);
+  if (dueAt === undefined) {
+    return result(
+      `Error: ${options.delay !== undefined ? "delay must be a duration like \"20m\" or \"2h\"" : "at must be an ISO date/time or \"HH:MM\""}.`,
+      { mode: "schedule", error: "invalid_time" }
+    );
+  }
+  if (dueAt <= now) {
+    return result("Error: that time has already passed.", { mode: "schedule", error: "time_in_past" });
+  }
+
+  const entry: ScheduledMessage = {
+    id: randomUUID(),
+    from: state.agentName,
+    to: recipients,
+    ...(broadcast ? { broadcast: true } : {}),
+    text: message,
+    ...(options.replyTo ? { replyTo: findMessage(collectMessages(state), options.replyTo)?.id ?? options.replyTo } : {}),
+    ...(options.priority ? { priority: options.priority } : {}),
+    ...(attachment.payload ? { payload: attachment.payload } : {}),
+    dueAt: new Date(dueAt).toISOString(),
+    createdAt: new Date(now).toISOString(),
+  };
+  await store.scheduleMessage(dirs, entry);
+
+  const target = broadcast ? "all agents" : recipients.join(", ");
+  const shortId = shortMessageId(entry.id);
+  return result(
+    `Scheduled for ${target} at ${formatDueAt(entry.dueAt)} (${formatTimeUntil(entry.dueAt, now)}), id ${shortId}. Cancel with pi_messenger({ action: "schedule.cancel", id: "${shortId}" })`,
+    { mode: "schedule", scheduled: entry }
+  );
+}
+
+export function executeScheduleList(state: MessengerState, dirs: Dirs) {
+  if (!state.registered) {
+    return notRegisteredError();
+  }
+
+  const mine = store.getScheduledMessages(dirs).filter(m => m.from === state.agentName);
+  if (mine.length === 0) {
+    return result("No scheduled messages.", { mode: "schedule.list", scheduled: [] });
+  }
+
+  const lines = [`# Scheduled Messages (${mine.length})`, ""];
+  for (const m of mine) {
+    const target = m.broadcast ? "all" : m.to.join(", ");
+    const preview = m.text.length > 60 ? m.text.slice(0, 57) + "..." : m.text;
+    lines.push(`- ${shortMessageId(m.id)} → ${target} at ${formatDueAt(m.dueAt)} (${formatTimeUntil(m.dueAt)}): "${preview}"`);
+  }
+  return result(lines.join("\n"), { mode: "schedule.list", scheduled: mine });
+}
+
+export async function executeScheduleCancel(state: MessengerState, dirs: Dirs, id?: string) {
+  if (!state.registered) {
+    return notRegisteredError();
+  }
+
+  if (!id) {
+    return result("Error: id of the scheduled message is required.", { mode: "schedule.cancel", error: "missing_id" });
+  }
+
+  const cancelled = await store.cancelScheduledMessage(dirs, id, state.agentName);
+  if (!cancelled.success) {
+    const text = cancelled.error === "not_sender"
+      ? `Error: scheduled message ${id} belongs to another agent.`
+      : `Error: no scheduled message "${id}".`;
+    return result(text, { mode: "schedule.cancel", error: cancelled.error, id });
+  }
+
+  return result(`Cancelled scheduled message ${shortMessageId(cancelled.message.id)}.`, {
+    mode: "schedule.cancel",
+    cancelled: cancelled.message
+  });
+}
+
+function formatDueAt(dueAt: string): string {
+  return new Date(dueAt).toLocaleString("en-US", {
+    month: "short", day: "numeric", hour: "2-digit", minute: "2-digit", hour12: false
+  });
+}
+
+// =============================================================================
+// Channels
+// =============================================================================
+
+function channelArg(channel: string | undefined, mode: string) {
+  const name = channel ? normalizeChannelName(channel) : null;
+  if (!name) {
+    return {
+      error: result(
+        channel
+          ? `Error: "${channel}" is not a valid channel name (letters, digits, ".", "_", "-"; up to 32 characters).`
+          : "Error: channel is required, e.g. channel: \"#api\".",
+        { mode, error: channel ? "invalid_channel" : "missing_channel" }
+      )
+    };
+  }
+  return { name };
+}
+
+export function executeChannelJoin(state: MessengerState, dirs: Dirs, ctx: ExtensionContext, channel?: string) {
+  if (!state.registered) {
+    return notRegisteredError();
+  }
+
+  const arg = channelArg(channel, "channel.join");
+  if (arg.error) return arg.error;
+  const name = arg.name;
+
+  if (state.channels.includes(name)) {
+    return result(`Already in ${name}.`, { mode: "channel.join", channel: name, channels: state.channels });
+  }
+
+  state.channels.push(name);
+  store.updateRegistration(state, dirs, ctx);
+  logFeedEvent(dirs, state.agentName, "channel.join", name);
+
+  const others = store.getChannelMembers(state, dirs, name).map(a => a.name);
+  const membersNote = others.length > 0 ? ` Members: ${others.join(", ")}.` : " You are the first member.";
+  return result(`Joined ${name}.${membersNote}`, { mode: "channel.join", channel: name, channels: state.channels, members: others });
+}
+
+export function executeChannelLeave(state: MessengerState, dirs: Dirs, ctx: ExtensionContext, channel?: string) {
+  if (!state.registered) {
+    return notRegisteredError();
+  }
+
+  const arg = channelArg(channel, "channel.leave");
+  if (arg.error) return arg.error;
+  const name = arg.name;
+
+  if (!state.channels.includes(name)) {
+    return result(`Error: you are not in ${name}.`, { mode: "channel.leave", error: "not_member", channel: name });
+  }
+
+  state.channels = state.channels.filter(c => c !== name);
+  store.updateRegistration(state, dirs, ctx);
+  logFeedEvent(dirs, state.agentName, "channel.leave", name);
+
+  return result(`Left ${name}.`, { mode: "channel.leave", channel: name, channels: state.channels });
+}
+
+export function executeChannelSend(
+  state: MessengerState,
+  dirs: Dirs,
+  channel?: string,
+  message?: string,
+  replyTo?: string,
+  priority?: MessagePriority,
+  payload?: MessagePayload
+) {
+  if (!state.registered) {
+    return notRegisteredError();
+  }
+
+  const arg = channelArg(channel, "channel.send");
+  if (arg.error) return arg.error;
+  const name = arg.name;
+
+  if (!message) {
+    return result("Error: message is required when sending.", { mode: "channel.send", error: "missing_message" });
+  }
+
+  const attachment = payloadArg(payload, "channel.send");
+  if (attachment.error) return attachment.error;
+
+  if (!state.channels.includes(name)) {
+    return result(
+      `Error: join ${name} first: pi_messenger({ action: "channel.join", channel: "${name}" })`,
+      { mode: "channel.send", error: "not_member", channel: name }
+    );
+  }
+
+  const { message: sent, recipients } = store.sendChannelMessage(state, dirs, name, message, replyTo, priority, attachment.payload);
+  if (recipients.length === 0) {
+    return result(`No other members in ${name} to send to.`, { mode: "channel.send", error: "no_members", channel: name });
+  }
+
+  const preview = message.length > 60 ? message.slice(0, 57) + "..." : message;
+  logFeedEvent(dirs, state.agentName, "message", name, `\u2192 ${name}: "${preview}"`);
+
+  return result(
+    `Message sent to ${name} (${recipients.join(", ")}). (id ${shortMessageId(sent.id)}, thread ${shortMessageId(sent.threadId ?? sent.id)})`,
+    { mode: "channel.send", channel: name, sent: recipients, id: sent.id, threadId: sent.threadId }
+  );
+}
+
+export function executeChannelList(state: MessengerState, dirs: Dirs) {
+  if (!state.registered) {
+    return notRegisteredError();
+  }
+
+  const channels = store.listChannels(state, dirs);
+  if (channels.size === 0) {
+    return result(
+      `No channels yet. Create one by joining it: pi_messenger({ action: "channel.join", channel: "#api" })`,
+      { mode: "channel.list", channels: [] }
+    );
+  }
+
+  const lines = [`# Channels (${channels.size})`, ""];
+  for (const [name, members] of channels) {
+    const joined = state.channels.includes(name) ? " (joined)" : "";
+    lines.push(`- ${name}${joined}: ${members.join(", ")}`);
+  }
+
+  return result(lines.join("\n"), {
+    mode: "channel.list",
+    channels: [...channels].map(([name, members]) => ({ name, members, joined: state.channels.includes(name) }))
+  });
 }
 
-export function executeReserve(
+/**
+ * Without an ID, list recent threads. With a message or thread ID (full or
+ * the 8-character short form), show that conversation as a reply tree.
+ */
+export function executeThread(state: MessengerState, id?: string, limit: number = 10) {
+  if (!state.registered) {
+    return notRegisteredError();
+  }
+
+  const messages = collectMessages(state);
+  const threads = groupThreads(messages);
+
+  if (!id) {
+    if (threads.length === 0) {
+      return result("No conversations yet.", { mode: "thread", threads: [] });
+    }
+    const recent = threads.slice(-limit).reverse();
+    const lines = [`# Threads (${threads.length})`, ""];
+    for (const t of recent) {
+      const root = t.messages[0];
+      const peers = [...new Set(t.messages.flatMap(m => [m.from, m.to]))]
+        .filter(n => n !== state.agentName && n !== "broadcast");
+      const preview = root.text.split("\n")[0];
+      lines.push(`- ${shortMessageId(t.id)} with ${peers.join(", ") || "everyone"} - ${t.messages.length} message(s), ${formatRelativeTime(t.lastTimestamp)}: "${preview.length > 60 ? preview.slice(0, 57) + "..." : preview}"`);
+    }
+    lines.push("", "Show one with pi_messenger({ action: \"thread\", id: \"<thread or message id>\" })");
+    return result(lines.join("\n"), {
+      mode: "thread",
+      threads: recent.map(t => ({ id: t.id, count: t.messages.length, lastTimestamp: t.lastTimestamp }))
+    });
+  }
+
+  const target = findMessage(messages, id);
+  const thread = threads.find(t => t.id === id || t.id.startsWith(id) || (target && t.messages.includes(target)));
+  if (!thread) {
+    return result(`Thread "${id}" not found. Use pi_messenger({ action: "thread" }) to list threads.`,
+      { mode: "thread", error: "thread_not_found", id });
+  }
+
+  const lines = [`# Thread ${shortMessageId(thread.id)} (${thread.messages.length} message(s))`, ""];
+  thread.messages.forEach((msg, i) => {
+    const indent = "  ".repeat(thread.depths[i]);
+    const [first, ...rest] = msg.text.split("\n");
+    const from = msg.from === state.agentName ? "You" : msg.from;
+    lines.push(`${indent}- ${from} → ${msg.to === state.agentName ? "you" : msg.to} (${formatRelativeTime(msg.timestamp)}, id ${shortMessageId(msg.id)}): ${first}`);
+    for (const line of rest) lines.push(`${indent}  ${line}`);
+    const attached = msg.payload ? formatPayload(msg.payload) : "";
+    if (attached) {
+      for (const line of attached.split("\n")) lines.push(`${indent}  ${line}`);
+    }
+  });
+  const last = thread.messages[thread.messages.length - 1];
+  const peer = last.from === state.agentName ? last.to : last.from;
+  lines.push("", `Reply with pi_messenger({ to: "${peer}", message: "...", replyTo: "${shortMessageId(last.id)}" })`);
+
+  return result(lines.join("\n"), {
+    mode: "thread",
+    id: thread.id,
+    messages: thread.messages,
+    depths: thread.depths
+  });
+}
+
+export interface HistoryOptions {
+  peer?: string;
+  since?: string;
+  until?: string;
+  query?: string;
+  limit?: number;
+}
+
+/** Search the persistent message log for conversations this agent took part in. */
+export function executeHistory(state: MessengerState, dirs: Dirs, options: HistoryOptions = {}) {
+  if (!state.registered) {
+    return notRegisteredError();
+  }
+
+  const bounds: { since?: number; until?: number } = {};
+  for (const key of ["since", "until"] as const) {
+    const value = options[key];
+    if (value === undefined) continue;
+    const parsed = parseTimeBound(value);
+    if (parsed === undefined) {
+      return result(
+        `Error: ${key} must be an ISO date/time or a duration like "30m", "2h", "7d".`,
+        { mode: "history", error: `invalid_${key}` }
+      );
+    }
+    bounds[key] = parsed;
+  }
+
+  const limit = options.limit ?? 20;
+  const messages = readMessageLog(dirs, {
+    participant: state.agentName,
+    peer: options.peer,
+    ...bounds,
+    query: options.query,
+    limit,
+  });
+
+  const filters = [
+    options.peer && `with ${options.peer}`,
+    options.since && `since ${options.since}`,
+    options.until && `until ${options.until}`,
+    options.query && `matching "${options.query}"`,
+  ].filter(Boolean).join(", ");
+
+  if (messages.length === 0) {
+    return result(`No messages found${filters ? ` (${filters})` : ""}.`, { mode: "history", messages: [] });
+  }
+
+  const lines = [`# Message History (${messages.length}${filters ? `, ${filters}` : ""})`, ""];
+  for (const msg of messages) {
+    const when = msg.timestamp.slice(0, 16).replace("T", " ");
+    const from = msg.from === state.agentName ? "You" : msg.from;
+    const to = msg.channel ?? (msg.to === state.agentName ? "you" : msg.to);
+    const [first, ...rest] = msg.text.split("\n");
+    lines.push(`[${when}] ${from} → ${to} (id ${shortMessageId(msg.id)}): ${first}`);
+    for (const line of rest) lines.push(`  ${line}`);
+    if (msg.payload) lines.push(`  (attached: ${payloadSummary(msg.payload)})`);
+  }
+
+  return result(lines.join("\n"), { mode: "history", messages });
+}
+
+export async function executeReserve(
   state: MessengerState,
   dirs: Dirs,
   ctx: ExtensionContext,
   patterns: string[],
-  reason?: string
+  reason?: string,
+  ttl?: number,
+  mode: ReservationMode = "exclusive",
+  wait: boolean = false
 ) {
   if (!state.registered) {
     return notRegisteredError();
@@ -370,23 +973,363 @@ export function executeReserve(
     );
   }
 
-  const now = new Date().toISOString();
+  if (ttl !== undefined && !(ttl > 0)) {
+    return result(
+      "Error: ttl must be a positive number of seconds.",
+      { mode: "reserve", error: "invalid_ttl" }
+    );
+  }
+
+  // Store canonical repo-root-relative paths so every agent compares alike.
+  // "!pattern" entries carve exclusions out of every other pattern in the call.
+  const cwd = process.cwd();
+  const repo = store.getRepoContext(cwd);
+  const exclude = patterns
+    .filter(p => p.startsWith("!") && p.length > 1)
+    .map(p => store.normalizeReservationPath(p.slice(1), cwd, repo));
+  const include = patterns
+    .filter(p => !p.startsWith("!"))
+    .map(p => store.normalizeReservationPath(p, cwd, repo));
+  if (include.length === 0) {
+    return result(
+      "Error: at least one pattern to reserve is required; \"!\" patterns only exclude paths.",
+      { mode: "reserve", error: "only_exclusions" }
+    );
+  }
+
+  // Decide on fresh registrations, not the short-lived agents cache
+  store.invalidateAgentsCache();
+  const blockedBy = new Map<string, string[]>();
+  for (const pattern of include) {
+    const holders = findHolders(state, dirs, { paths: [pattern], cwd: repo.root, mode });
+    if (holders.size > 0) blockedBy.set(pattern, [...holders.keys()]);
+  }
+  if (blockedBy.size > 0 && !wait) {
+    const holders = findHolders(state, dirs, { paths: include, cwd: repo.root, mode });
+    const lines = [...holders].map(([agent, held]) => `${agent}: ${held.join(", ")}`);
+    return result(
+      `Cannot reserve (${mode}), already reserved by:\n${lines.join("\n")}\n\nUse wait: true to queue for it, reserve.request to ask for it, or coordinate via pi_messenger({ to: "...", message: "..." }).`,
+      { mode: "reserve", error: "reservation_conflict", holders: Object.fromEntries(holders) }
+    );
+  }
+
+  const queued: Array<{ pattern: string; behind: string[]; position: number }> = [];
+  for (const [pattern, behind] of blockedBy) {
+    const position = await store.enqueueReservation(dirs, {
+      agent: state.agentName,
+      pattern,
+      ...(mode !== "exclusive" ? { mode } : {}),
+      ...(exclude.length > 0 ? { exclude } : {}),
+      repo: repo.id,
+      root: repo.root,
+      reason,
+      ttl,
+      since: new Date().toISOString(),
+    });
+    logFeedEvent(dirs, state.agentName, "reserve.wait", pattern, behind.join(", "));
+    queued.push({ pattern, behind, position });
+  }
+  const queueNote = queued.length > 0
+    ? `Queued: ${queued.map(q => `${q.pattern} behind ${q.behind.join(", ")} (#${q.position})`).join(", ")}. You'll get a message when it's yours.`
+    : "";
+  if (queued.length === include.length) {
+    return result(queueNote, { mode: "reserve", queued, reservationMode: mode });
+  }
 
-  for (const pattern of patterns) {
+  const now = new Date();
+  const reserved: FileReservation[] = [];
+
+  for (const pattern of include.filter(p => !blockedBy.has(p))) {
+    const reservation: FileReservation = {
+      pattern,
+      ...(mode !== "exclusive" ? { mode } : {}),
+      ...(exclude.length > 0 ? { exclude } : {}),
+      repo: repo.id,
+      reason,
+      since: now.toISOString(),
+      ...(ttl ? { ttl, expiresAt: new Date(now.getTime() + ttl * 1000).toISOString() } : {})
+    };
     state.reservations = state.reservations.filter(r => r.pattern !== pattern);
-    state.reservations.push({ pattern, reason, since: now });
+    state.reservations.push(reservation);
+    reserved.push(reservation);
   }
 
   store.updateRegistration(state, dirs, ctx);
 
-  for (const pattern of patterns) {
-    logFeedEvent(dirs, state.agentName, "reserve", pattern, reason);
+  for (const reservation of reserved) {
+    logFeedEvent(dirs, state.agentName, "reserve", formatReservation(reservation), mode !== "exclusive" ? `${mode}${reason ? `: ${reason}` : ""}` : reason);
   }
 
-  return result(`Reserved: ${patterns.join(", ")}`, { mode: "reserve", patterns, reason });
+  const modeNote = mode !== "exclusive" ? ` [${mode}]` : "";
+  const leaseNote = ttl ? ` (lease ${formatDuration(ttl * 1000)}, renewed while you're active)` : "";
+  const text = `Reserved${modeNote}: ${reserved.map(formatReservation).join(", ")}${leaseNote}`;
+  return result(queueNote ? `${text}\n${queueNote}` : text, {
+    mode: "reserve",
+    patterns: reserved.map(r => r.pattern),
+    exclude,
+    reason,
+    ttl,
+    reservationMode: mode,
+    ...(queued.length > 0 ? { queued } : {})
+  });
+}
+
+export interface ReservationRequest {
+  paths: string[];
+  reason?: string;
+  ttl?: number;
+  mode?: ReservationMode;
+  cwd: string;
 }
 
-export function executeRelease(
+export interface ReservationRequestOptions {
+  timeout?: number;              // Seconds to wait before the request is resolved
+}
+
+/**
+ * Ask the agents holding `paths` to hand them over. The request is stored
+ * and resolved by resolveDueReservationRequests after the timeout: paths
+ * that were released are reserved, and paths whose holders are stuck are
+ * taken from them.
+ */
+export async function executeReserveRequest(
+  state: MessengerState,
+  dirs: Dirs,
+  ctx: ExtensionContext,
+  paths: string[],
+  reason?: string,
+  ttl?: number,
+  mode: ReservationMode = "exclusive",
+  options: ReservationRequestOptions = {}
+) {
+  if (!state.registered) {
+    return notRegisteredError();
+  }
+
+  const request: ReservationRequest = { paths, reason, ttl, mode, cwd: process.cwd() };
+  const holders = findHolders(state, dirs, request);
+  if (holders.size === 0) {
+    return executeReserve(state, dirs, ctx, paths, reason, ttl, mode);
+  }
+
+  const timeout = options.timeout ?? 120;
+  const reasonPart = reason ? ` (${reason})` : "";
+  const requested: Array<{ agent: string; patterns: string[] }> = [];
+
+  for (const [agent, patterns] of holders) {
+    const text = `Reservation request: ${state.agentName} needs ${patterns.join(", ")}${reasonPart}. ` +
+      `If you're done with it, release it with pi_messenger({ action: "release", paths: ${JSON.stringify(patterns)} }). ` +
+      `It will be handed over automatically in ${formatDuration(timeout * 1000)} if you appear stuck.`;
+    try {
+      store.sendMessageToAgent(state, dirs, agent, text);
+    } catch {
+      // The holder still loses the reservation on timeout if it's stuck
+    }
+    for (const pattern of patterns) {
+      logFeedEvent(dirs, state.agentName, "reserve.request", pattern, agent);
+    }
+    requested.push({ agent, patterns });
+  }
+
+  await store.addReservationRequest(dirs, {
+    agent: state.agentName,
+    ...request,
+    dueAt: new Date(Date.now() + timeout * 1000).toISOString(),
+  });
+
+  const lines = requested.map(r => `${r.agent}: ${r.patterns.join(", ")}`);
+  return result(
+    `Requested from the current holders:\n${lines.join("\n")}\n\nWill resolve in ${formatDuration(timeout * 1000)}: released paths are reserved for you, and paths held by stuck agents are handed over.`,
+    { mode: "reserve.request", requested, timeout }
+  );
+}
+
+/**
+ * Resolve our stored reservation requests that have timed out. Returns the
+ * outcome of each, for the caller to show.
+ */
+export async function resolveDueReservationRequests(
+  state: MessengerState,
+  dirs: Dirs,
+  ctx: ExtensionContext,
+  stuckThreshold?: number
+): Promise<string[]> {
+  if (!state.registered) return [];
+  const outcomes: string[] = [];
+  for (const request of await store.takeDueReservationRequests(dirs, state.agentName)) {
+    outcomes.push((await resolveReservationRequest(state, dirs, ctx, request, stuckThreshold)).text);
+  }
+  return outcomes;
+}
+
+/**
+ * Settle a reservation request: holders that are still active keep their
+ * reservations; stuck holders lose them to the requester.
+ */
+export async function resolveReservationRequest(
+  state: MessengerState,
+  dirs: Dirs,
+  ctx: ExtensionContext,
+  request: ReservationRequest,
+  stuckThreshold: number = 900
+): Promise<{ granted: string[]; denied: Array<{ agent: string; patterns: string[] }>; text: string }> {
+  if (!state.registered) {
+    return { granted: [], denied: [], text: "Reservation request dropped: no longer registered." };
+  }
+
+  store.invalidateAgentsCache();
+  const thresholdMs = stuckThreshold * 1000;
+  const allClaims = store.getClaims(dirs);
+  const peers = new Map(store.getActiveAgents(state, dirs).map(a => [a.name, a]));
+  const holders = findHolders(state, dirs, request);
+  const denied: Array<{ agent: string; patterns: string[] }> = [];
+  const handedOver: string[] = [];
+
+  for (const [agent, patterns] of holders) {
+    const reg = peers.get(agent);
+    // Reservations of agents on other machines can't be taken from here
+    if (reg?.host !== undefined) {
+      denied.push({ agent, patterns });
+      continue;
+    }
+    const status = reg
+      ? computeStatus(
+          reg.activity?.lastActivityAt ?? reg.startedAt,
+          agentHasTask(agent, allClaims, crewStore.getTasksAcrossPlans(reg.cwd)),
+          true,
+          thresholdMs
+        ).status
+      : "stuck";
+    if (status !== "stuck") {
+      denied.push({ agent, patterns });
+      continue;
+    }
+    for (const pattern of patterns) {
+      if (store.revokeReservation(dirs, agent, pattern, state.agentName)) {
+        logFeedEvent(dirs, state.agentName, "reserve.grant", pattern, agent);
+        handedOver.push(`${pattern} (from ${agent})`);
+      }
+    }
+    try {
+      store.sendMessageToAgent(state, dirs, agent,
+        `Your reservation on ${patterns.join(", ")} was handed to ${state.agentName} after their request timed out while you appeared stuck.`);
+    } catch {
+      // Best effort
+    }
+  }
+
+  if (denied.length > 0) {
+    const lines = denied.map(d => {
+      const host = peers.get(d.agent)?.host;
+      return `${d.agent} (${host !== undefined ? `on ${host}` : "still active"}): ${d.patterns.join(", ")}`;
+    });
+    return {
+      granted: [],
+      denied,
+      text: `Reservation request not granted. Still held by:\n${lines.join("\n")}\n\nCoordinate with them directly.`,
+    };
+  }
+
+  const reserved = await executeReserve(state, dirs, ctx, request.paths, request.reason, request.ttl, request.mode);
+  if (reserved.details.error) {
+    return { granted: [], denied, text: `Reservation request not granted. ${reserved.content[0].text}` };
+  }
+  const granted = request.paths.filter(p => !p.startsWith("!"));
+  const fromPart = handedOver.length > 0 ? ` Taken over: ${handedOver.join(", ")}.` : "";
+  return { granted, denied, text: `Reservation request granted: ${granted.join(", ")}.${fromPart}` };
+}
+
+/**
+ * Forcibly take reservations from their holders. Only humans may steal; the
+ * reason is required and recorded in the feed and sent to each holder.
+ */
+export async function executeReserveSteal(
+  state: MessengerState,
+  dirs: Dirs,
+  ctx: ExtensionContext,
+  paths: string[],
+  reason?: string,
+  ttl?: number,
+  mode: ReservationMode = "exclusive"
+) {
+  if (!state.registered) {
+    return notRegisteredError();
+  }
+
+  if (!state.isHuman) {
+    return result(
+      "Error: reserve.steal is reserved for humans. Use reserve.request to ask the holder.",
+      { mode: "reserve.steal", error: "not_human" }
+    );
+  }
+
+  if (!reason) {
+    return result(
+      "Error: reason is required for reserve.steal (it is recorded in the feed).",
+      { mode: "reserve.steal", error: "missing_reason" }
+    );
+  }
+
+  const holders = findHolders(state, dirs, { paths, mode, cwd: process.cwd() });
+  const peers = new Map(store.getActiveAgents(state, dirs).map(a => [a.name, a]));
+  const remote = [...holders.keys()].filter(agent => peers.get(agent)?.host !== undefined);
+  if (remote.length > 0) {
+    const lines = remote.map(agent => `${agent} (on ${peers.get(agent)!.host}): ${holders.get(agent)!.join(", ")}`);
+    return result(
+      `Error: can't steal from agents on other machines; ask them to release it with a message.\n${lines.join("\n")}`,
+      { mode: "reserve.steal", error: "remote_holder", holders: remote }
+    );
+  }
+
+  const stolen: Array<{ agent: string; patterns: string[] }> = [];
+  for (const [agent, patterns] of holders) {
+    const taken = patterns.filter(pattern => store.revokeReservation(dirs, agent, pattern, state.agentName));
+    if (taken.length === 0) continue;
+    for (const pattern of taken) {
+      logFeedEvent(dirs, state.agentName, "reserve.steal", pattern, `${agent}: ${reason}`);
+    }
+    try {
+      store.sendMessageToAgent(state, dirs, agent,
+        `${state.agentName} took over your reservation on ${taken.join(", ")}: ${reason}`);
+    } catch {
+      // Best effort
+    }
+    stolen.push({ agent, patterns: taken });
+  }
+
+  const reserved = await executeReserve(state, dirs, ctx, paths, reason, ttl, mode);
+  if (reserved.details.error) return reserved;
+
+  const lines = stolen.map(s => `${s.agent}: ${s.patterns.join(", ")}`);
+  const text = stolen.length > 0
+    ? `${reserved.content[0].text}\nTaken from:\n${lines.join("\n")}`
+    : `${reserved.content[0].text}\nNobody held these paths.`;
+  return result(text, { ...reserved.details, mode: "reserve.steal", stolen });
+}
+
+/** 1-based position of `waiter` among the agents queued for the same pattern. */
+function queuePosition(queue: ReservationWaiter[], waiter: ReservationWaiter): number {
+  const same = queue.filter(w => w.pattern === waiter.pattern && w.repo === waiter.repo);
+  return same.indexOf(waiter) + 1;
+}
+
+/** Reservation patterns of other agents that overlap the requested paths and are incompatible with its mode, by holder. */
+function findHolders(state: MessengerState, dirs: Dirs, request: ReservationRequest): Map<string, string[]> {
+  const holders = new Map<string, string[]>();
+  for (const path of request.paths) {
+    if (path.startsWith("!")) continue;
+    for (const c of store.getConflictsWithOtherAgents(path, state, dirs, request.cwd, "overlap", request.mode ?? "exclusive")) {
+      const res = c.registration.reservations?.find(r => formatReservation(r) === c.pattern);
+      if (!res) continue;
+      const patterns = holders.get(c.agent) ?? [];
+      if (!patterns.includes(res.pattern)) patterns.push(res.pattern);
+      holders.set(c.agent, patterns);
+    }
+  }
+  return holders;
+}
+
+export async function executeRelease(
   state: MessengerState,
   dirs: Dirs,
   ctx: ExtensionContext,
@@ -396,29 +1339,47 @@ export function executeRelease(
     return notRegisteredError();
   }
 
+  // Pick up reservations handed to us from the queue before deciding what to drop
+  store.updateRegistration(state, dirs, ctx);
+
   if (release === true) {
     const released = state.reservations.map(r => r.pattern);
     state.reservations = [];
     store.updateRegistration(state, dirs, ctx);
+    await store.dequeueReservations(dirs, state.agentName);
     for (const pattern of released) {
       logFeedEvent(dirs, state.agentName, "release", pattern);
     }
+    const granted = await store.processReservationQueue(state, dirs);
     return result(
-      released.length > 0 ? `Released all: ${released.join(", ")}` : "No reservations to release.",
-      { mode: "release", released }
+      (released.length > 0 ? `Released all: ${released.join(", ")}` : "No reservations to release.") + grantedNote(granted),
+      { mode: "release", released, granted: granted.map(w => ({ agent: w.agent, pattern: w.pattern })) }
     );
   }
 
-  const patterns = release;
+  // Accept the path as typed or in its normalized form
+  const cwd = process.cwd();
+  const patterns = [...release, ...release.map(p => store.normalizeReservationPath(p, cwd))];
   const releasedPatterns = state.reservations.filter(r => patterns.includes(r.pattern)).map(r => r.pattern);
   state.reservations = state.reservations.filter(r => !patterns.includes(r.pattern));
 
   store.updateRegistration(state, dirs, ctx);
+  await store.dequeueReservations(dirs, state.agentName, patterns);
   for (const pattern of releasedPatterns) {
     logFeedEvent(dirs, state.agentName, "release", pattern);
   }
+  const granted = await store.processReservationQueue(state, dirs);
+
+  return result(`Released ${releasedPatterns.length} reservation(s).${grantedNote(granted)}`, {
+    mode: "release",
+    released: releasedPatterns,
+    granted: granted.map(w => ({ agent: w.agent, pattern: w.pattern }))
+  });
+}
 
-  return result(`Released ${releasedPatterns.length} reservation(s).`, { mode: "release", released: releasedPatterns });
+function grantedNote(granted: ReservationWaiter[]): string {
+  if (granted.length === 0) return "";
+  return ` Handed to waiting agents: ${granted.map(w => `${w.pattern} → ${w.agent}`).join(", ")}.`;
 }
 
 export function executeRename(
@@ -825,7 +1786,7 @@ function formatWhoisOutput(
   thresholdMs: number
 ) {
   const allClaims = store.getClaims(dirs);
-  const hasTask = agentHasTask(agent.name, allClaims, crewStore.getTasks(agent.cwd));
+  const hasTask = agentHasTask(agent.name, allClaims, crewStore.getTasksAcrossPlans(agent.cwd));
 
   const computed = computeStatus(
     agent.activity?.lastActivityAt ?? agent.startedAt,
@@ -847,6 +1808,7 @@ function formatWhoisOutput(
   lines.push(`${indicator} ${statusLabel}${idleStr}`);
   if (agent.model) lines.push(`Model: ${agent.model}`);
   if (agent.gitBranch) lines.push(`Branch: ${agent.gitBranch}`);
+  if (agent.host) lines.push(`Host: ${agent.host} (via relay)`);
   lines.push(`Session: ${sessionAge} - ${agent.session?.toolCalls ?? 0} tool calls - ${tokenStr} tokens`);
 
   if (agent.statusMessage) {
@@ -856,7 +1818,26 @@ function formatWhoisOutput(
   if (agent.reservations && agent.reservations.length > 0) {
     lines.push("", "## Reservations");
     for (const r of agent.reservations) {
-      lines.push(`- ${r.pattern}${r.reason ? ` (${r.reason})` : ""}`);
+      lines.push(`- ${describeReservation(r)}${r.mode && r.mode !== "exclusive" ? ` [${r.mode}]` : ""}${r.reason ? ` (${r.reason})` : ""}`);
+    }
+  }
+
+  const queue = store.getReservationQueue(dirs);
+  const waitingBehind = queue.filter(w =>
+    w.agent !== agent.name && (agent.reservations ?? []).some(r => commandTargetHitsReservation(w.pattern, r))
+  );
+  if (waitingBehind.length > 0) {
+    lines.push("", "## Queue");
+    for (const w of waitingBehind) {
+      lines.push(`- ${w.agent} waiting for ${w.pattern}${w.reason ? ` (${w.reason})` : ""}`);
+    }
+  }
+
+  const waiting = queue.filter(w => w.agent === agent.name);
+  if (waiting.length > 0) {
+    lines.push("", "## Waiting For");
+    for (const w of waiting) {
+      lines.push(`- \u23F3 ${w.pattern} (#${queuePosition(queue, w)}, since ${formatRelativeTime(w.since)})`);
     }
   }
 
@@ -16,7 +16,12 @@ import {
   type MessengerState,
   type Dirs,
   type AgentMailMessage,
+  type ReservationConflict,
+  shortMessageId,
+  formatDigest,
+  formatPayload,
   MAX_CHAT_HISTORY,
+  RELAY_SYNC_MS,
   formatRelativeTime,
   stripAnsiCodes,
   extractFolder,
@@ -32,6 +37,10 @@ import { MessengerConfigOverlay } from "./config-overlay.js";
 import { loadConfig, matchesAutoRegisterPath, type MessengerConfig } from "./config.js";
 import { executeCrewAction } from "./crew/index.js";
 import { logFeedEvent, pruneFeed } from "./feed.js";
+import { pruneMessageLog } from "./message-log.js";
+import { createPriorityDelivery } from "./delivery.js";
+import { extractMutatedPaths } from "./bash-targets.js";
+import { createFileTransport, createRelayTransport, useTransport } from "./transport.js";
 import type { CrewParams } from "./crew/types.js";
 import { autonomousState, restoreAutonomousState, stopAutonomous } from "./crew/state.js";
 import { loadCrewConfig } from "./crew/utils/config.js";
@@ -70,6 +79,9 @@ export default function piMessengerExtension(pi: ExtensionAPI) {
     customStatus: false,
     registryFlushTimer: null,
     sessionStartedAt: new Date().toISOString(),
+    pendingReadReceipts: [],
+    channels: [],
+    channelHistory: new Map(),
   };
 
   const nameTheme = { theme: config.nameTheme, customWords: config.nameWords };
@@ -81,27 +93,95 @@ export default function piMessengerExtension(pi: ExtensionAPI) {
     inbox: join(baseDir, "inbox")
   };
 
+  // Every store operation goes through the transport picked here
+  const transport = config.transport === "relay" && config.relayUrl
+    ? createRelayTransport(dirs, { url: config.relayUrl, token: config.relayToken })
+    : createFileTransport(dirs);
+  useTransport(transport);
+
   // ===========================================================================
   // Message Delivery
   // ===========================================================================
 
-  function deliverMessage(msg: AgentMailMessage): void {
-    // Store in chat history (keyed by sender)
-    let history = state.chatHistory.get(msg.from);
+  // Send our scheduled messages (and those of senders that have left) once
+  // due; our own reserve.request calls are resolved here once they time out
+  const SCHEDULE_CHECK_MS = 15_000;
+  const scheduleTimer = setInterval(() => {
+    store.flushScheduledMessages(state, dirs).then(deliveries => {
+      for (const { message, undeliverable } of deliveries) {
+        if (message.from !== state.agentName || undeliverable.length === 0) continue;
+        pi.sendMessage(
+          {
+            customType: "scheduled_message",
+            content: `Scheduled message ${shortMessageId(message.id)} was not delivered to ${undeliverable.join(", ")}: no longer active.`,
+            display: true,
+          },
+          { triggerTurn: false }
+        );
+      }
+    }).catch(() => {});
+    if (!latestCtx) return;
+    handlers.resolveDueReservationRequests(state, dirs, latestCtx, config.stuckThreshold).then(outcomes => {
+      for (const text of outcomes) {
+        pi.sendMessage(
+          { customType: "reservation_request", content: text, display: true },
+          { triggerTurn: true, deliverAs: "steer" }
+        );
+      }
+    }).catch(() => {});
+  }, SCHEDULE_CHECK_MS);
+  scheduleTimer.unref?.();
+
+  // The relay transport exchanges with the relay server in the background
+  let syncing = false;
+  const syncTimer = transport.sync ? setInterval(() => {
+    if (syncing) return;
+    syncing = true;
+    transport.sync!(state)
+      .catch(() => {})  // Relay unreachable: the local mesh keeps working, the next sync retries
+      .finally(() => { syncing = false; });
+  }, RELAY_SYNC_MS) : null;
+  syncTimer?.unref?.();
+
+  // Lower-priority messages held back while the agent is working
+  const priorityDelivery = createPriorityDelivery({
+    maxPriority: config.maxMessagePriority,
+    show: showMessage,
+    showDigest: messages => pi.sendMessage(
+      { customType: "agent_message_digest", content: formatDigest(messages), display: true, details: messages },
+      { triggerTurn: false }
+    ),
+    acknowledge: messages => state.pendingReadReceipts.push(...messages),
+  });
+
+  /**
+   * Record an incoming message and show it according to its priority.
+   * Returns false when it is held back (normal while the agent is running,
+   * or fyi), so it doesn't get a read receipt before it's shown.
+   */
+  function deliverMessage(msg: AgentMailMessage): boolean {
+    // Store in chat history (keyed by sender, or by channel for channel messages)
+    const key = msg.channel ?? msg.from;
+    const histories = msg.channel ? state.channelHistory : state.chatHistory;
+    let history = histories.get(key);
     if (!history) {
       history = [];
-      state.chatHistory.set(msg.from, history);
+      histories.set(key, history);
     }
     history.push(msg);
     if (history.length > MAX_CHAT_HISTORY) history.shift();
 
     // Increment unread count
-    const current = state.unreadCounts.get(msg.from) ?? 0;
-    state.unreadCounts.set(msg.from, current + 1);
+    const current = state.unreadCounts.get(key) ?? 0;
+    state.unreadCounts.set(key, current + 1);
 
     // Trigger overlay re-render if open
     overlayTui?.requestRender();
 
+    return priorityDelivery.deliver(msg);
+  }
+
+  function showMessage(msg: AgentMailMessage): void {
     // Build message content with optional context
     // Detect if this is a new agent identity (first contact OR same name but different session)
     const sender = store.getActiveAgents(state, dirs).find(a => a.name === msg.from);
@@ -125,15 +205,31 @@ export default function piMessengerExtension(pi: ExtensionAPI) {
       content += `*${msg.from} is in ${locationPart} (${sender.model})*\n\n`;
     }
 
-    // Add reply hint
+    // Add reply hint, threaded onto this message
+    const shortId = shortMessageId(msg.id);
+    const threadId = shortMessageId(msg.threadId ?? msg.replyTo ?? msg.id);
     const replyHint = config.replyHint
-      ? ` — reply: pi_messenger({ to: "${msg.from}", message: "..." })`
+      ? ` — reply: pi_messenger({ to: "${msg.from}", message: "...", replyTo: "${shortId}" })`
       : "";
 
-    content += `**Message from ${msg.from}**${replyHint}\n\n${msg.text}`;
+    if (msg.channel) {
+      const channelHint = config.replyHint
+        ? ` — reply: pi_messenger({ action: "channel.send", channel: "${msg.channel}", message: "...", replyTo: "${shortId}" })`
+        : "";
+      content += `**Message from ${msg.from} in ${msg.channel}** [thread ${threadId}, id ${shortId}]${channelHint}\n\n${msg.text}`;
+    } else if (msg.question) {
+      content += `**Question from ${msg.from}** [thread ${threadId}, id ${shortId}] — they are waiting for your answer: pi_messenger({ action: "reply", id: "${shortId}", message: "..." })\n\n${msg.text}`;
+    } else {
+      content += `**Message from ${msg.from}** [thread ${threadId}, id ${shortId}]${replyHint}\n\n${msg.text}`;
+    }
+
+    const attached = msg.payload ? formatPayload(msg.payload) : "";
+    if (attached) {
+      content += `\n\n${attached}`;
+    }
 
     if (msg.replyTo) {
-      content = `*(reply to ${msg.replyTo.substring(0, 8)})*\n\n${content}`;
+      content = `*(reply to ${shortMessageId(msg.replyTo)} — full thread: pi_messenger({ action: "thread", id: "${threadId}" }))*\n\n${content}`;
     }
 
     pi.sendMessage(
@@ -158,7 +254,7 @@ export default function piMessengerExtension(pi: ExtensionAPI) {
     const currentlyStuck = new Set<string>();
 
     for (const agent of peers) {
-      const hasTask = agentHasTask(agent.name, allClaims, crewStore.getTasks(agent.cwd));
+      const hasTask = agentHasTask(agent.name, allClaims, crewStore.getTasksAcrossPlans(agent.cwd));
       const computed = computeStatus(
         agent.activity?.lastActivityAt ?? agent.startedAt,
         hasTask,
@@ -224,7 +320,7 @@ export default function piMessengerExtension(pi: ExtensionAPI) {
     let crewStr = "";
     if (autonomousState.active) {
       const cwd = ctx.cwd ?? process.cwd();
-      const plan = crewStore.getPlan(cwd);
+      const plan = crewStore.getPlan(cwd, autonomousState.plan ?? undefined);
       if (plan) {
         const workerCount = getLiveWorkers(cwd).size;
         crewStr = theme.fg("accent", ` ⚡${plan.completed_count}/${plan.task_count}`);
@@ -260,15 +356,44 @@ Usage (action-based API - preferred):
   pi_messenger({ action: "whois", name: "AgentName" })          → Agent details
   pi_messenger({ action: "set_status", message: "reviewing" })  → Set custom status
   pi_messenger({ action: "reserve", paths: ["src/"] })          → Reserve files
+  pi_messenger({ action: "reserve", paths: ["src/**/*.test.ts"] }) → Reserve by glob
+  pi_messenger({ action: "reserve", paths: ["api/", "!api/generated/"] }) → Reserve with an exclusion
+  pi_messenger({ action: "reserve", paths: ["src/"], ttl: 900 }) → Reserve with a 15 min lease
+  pi_messenger({ action: "reserve", paths: ["src/types.ts"], mode: "shared" }) → Reading it, don't change it
+  pi_messenger({ action: "reserve", paths: ["src/a.ts"], wait: true }) → Queue behind the holder
+  pi_messenger({ action: "reserve.request", paths: ["src/a.ts"] }) → Ask the holder to hand it over
+  pi_messenger({ action: "reserve.steal", paths: ["src/a.ts"], reason: "..." }) → Take it (humans only)
   pi_messenger({ action: "send", to: "Agent", message: "hi" })  → Send message
+  pi_messenger({ action: "send", to: "Agent", message: "ok", replyTo: "1a2b3c4d" }) → Reply in a thread
+  pi_messenger({ action: "send", to: "Agent", message: "hi", waitFor: "read" }) → Wait for a read receipt
+  pi_messenger({ action: "send", to: "Agent", message: "fyi: main is green", messagePriority: "fyi" }) → Don't interrupt
+  pi_messenger({ action: "send", to: "Agent", message: "rebase", delay: "20m" }) → Send later (or at: "17:00")
+  pi_messenger({ action: "send", to: "Agent", message: "see", payload: { kind: "files", files: ["src/a.ts:10-40"] } }) → Attach file refs
+  pi_messenger({ action: "schedule.list" })                     → Your scheduled messages
+  pi_messenger({ action: "schedule.cancel", id: "1a2b3c4d" })   → Cancel one
+  pi_messenger({ action: "ask", to: "Agent", message: "createTask signature?" }) → Block until they answer
+  pi_messenger({ action: "reply", id: "1a2b3c4d", message: "..." }) → Answer a question
+  pi_messenger({ action: "channel.join", channel: "#api" })     → Join (or create) a channel
+  pi_messenger({ action: "channel.send", channel: "#api", message: "..." }) → Message channel members only
+  pi_messenger({ action: "channel.list" })                      → Channels and their members
+  pi_messenger({ action: "thread", id: "1a2b3c4d" })            → Show a conversation tree
+  pi_messenger({ action: "history", name: "Agent", since: "2h", query: "schema" }) → Search past messages
   
   // Crew: Plan from PRD
   pi_messenger({ action: "plan" })                              → Auto-discover PRD
   pi_messenger({ action: "plan", prd: "docs/PRD.md" })          → Explicit PRD path
+  pi_messenger({ action: "plan", prd: "debt.md", plan: "debt" }) → Named plan alongside others
+  pi_messenger({ action: "crew.plans" })                        → List plans
+  pi_messenger({ action: "crew.use", plan: "debt" })            → Switch active plan
+  pi_messenger({ action: "crew.artifacts", id: "task-3" })      → List debug artifacts
+  pi_messenger({ action: "crew.artifacts.purge", runId: "a1b2c3d4" }) → Delete a run's artifacts
+  pi_messenger({ action: "crew.memory" })                       → Lessons fed to workers/planner
+  pi_messenger({ action: "crew.memory.add", content: "..." })   → Add a lesson
   
   // Crew: Work through tasks
   pi_messenger({ action: "work" })                              → Run ready tasks
   pi_messenger({ action: "work", autonomous: true })            → Run until done/blocked
+  pi_messenger({ action: "work", plan: "debt" })                → Work a non-active plan
   
   // Crew: Tasks
   pi_messenger({ action: "task.show", id: "task-1" })           → Show task
@@ -298,10 +423,12 @@ Mode: action (if provided) > legacy key-based routing`,
       // CREW PARAMETERS
       // ═══════════════════════════════════════════════════════════════════════
       prd: Type.Optional(Type.String({ description: "PRD file path for plan action" })),
-      id: Type.Optional(Type.String({ description: "Task ID (task-N format)" })),
+      plan: Type.Optional(Type.String({ description: "Named plan for plan/work/task.*/crew.status (defaults to the active plan)" })),
+      id: Type.Optional(Type.String({ description: "Task ID (task-N format), lesson ID (mem-N) for crew.memory.forget, or message/thread ID for thread and reply, or scheduled message ID for schedule.cancel" })),
       taskId: Type.Optional(Type.String({ description: "Swarm task ID (e.g., TASK-01) - for action-based claim/unclaim/complete" })),
       title: Type.Optional(Type.String({ description: "Title for task.create" })),
       dependsOn: Type.Optional(Type.Array(Type.String(), { description: "Task IDs this task depends on (for task.create)" })),
+      priority: Type.Optional(StringEnum(["high", "normal", "low"], { description: "Task priority for task.create (default: normal)" })),
       target: Type.Optional(Type.String({ description: "Task ID for review action" })),
       summary: Type.Optional(Type.String({ description: "Summary for task.done" })),
       evidence: Type.Optional(Type.Object({
@@ -309,15 +436,23 @@ Mode: action (if provided) > legacy key-based routing`,
         tests: Type.Optional(Type.Array(Type.String())),
         prs: Type.Optional(Type.Array(Type.String()))
       }, { description: "Evidence for task.done" })),
-      content: Type.Optional(Type.String({ description: "Content for task spec" })),
+      content: Type.Optional(Type.String({ description: "Content for task spec, or the lesson for crew.memory.add" })),
       type: Type.Optional(StringEnum(["plan", "impl"], { description: "Review type (inferred from target if omitted)" })),
       autonomous: Type.Optional(Type.Boolean({ description: "Run work continuously until done/blocked" })),
       concurrency: Type.Optional(Type.Number({ description: "Override worker concurrency" })),
       model: Type.Optional(Type.String({ description: "Override worker model for this work wave" })),
       cascade: Type.Optional(Type.Boolean({ description: "For task.reset - also reset dependent tasks" })),
-      limit: Type.Optional(Type.Number({ description: "Number of events to return (for feed action, default 20)" })),
-      paths: Type.Optional(Type.Array(Type.String(), { description: "Paths for reserve/release actions" })),
-      name: Type.Optional(Type.String({ description: "New name for rename action" })),
+      limit: Type.Optional(Type.Number({ description: "Number of events to return (for feed/history actions, default 20) or artifacts to list" })),
+      since: Type.Optional(Type.String({ description: "History start: ISO date/time or a duration before now (\"30m\", \"2h\", \"7d\")" })),
+      until: Type.Optional(Type.String({ description: "History end: ISO date/time or a duration before now" })),
+      query: Type.Optional(Type.String({ description: "Full-text filter for history (case-insensitive)" })),
+      runId: Type.Optional(Type.String({ description: "Artifact run ID for crew.artifacts.show/purge" })),
+      agent: Type.Optional(Type.String({ description: "Agent name filter for crew.artifacts (e.g., crew-worker)" })),
+      paths: Type.Optional(Type.Array(Type.String(), { description: "Paths for reserve/release actions. Reserve accepts globs (*, **, ?, {a,b}) and \"!\" exclusions" })),
+      mode: Type.Optional(StringEnum(["exclusive", "shared", "intent"], { description: "Reservation mode: exclusive (default) blocks other writers and reservations, shared lets other shared readers in but blocks writers, intent is informational only" })),
+      wait: Type.Optional(Type.Boolean({ description: "For reserve: if the paths are held, join the wait queue and get them (plus an inbox message) when released" })),
+      ttl: Type.Optional(Type.Number({ description: "Reservation lease in seconds for reserve actions; renewed while you stay active" })),
+      name: Type.Optional(Type.String({ description: "New name for rename action, agent for whois, or peer filter for history" })),
 
       // ═══════════════════════════════════════════════════════════════════════
       // EXISTING COORDINATION PARAMETERS (backwards compatibility)
@@ -332,7 +467,14 @@ Mode: action (if provided) > legacy key-based routing`,
       to: Type.Optional(Type.Any({ description: "Target agent name (string) or multiple names (array)" })),
       broadcast: Type.Optional(Type.Boolean({ description: "Send to all active agents" })),
       message: Type.Optional(Type.String({ description: "Message to send" })),
-      replyTo: Type.Optional(Type.String({ description: "Message ID if this is a reply" })),
+      replyTo: Type.Optional(Type.String({ description: "ID (or 8-character short ID) of the message you are replying to; keeps the reply in its thread" })),
+      channel: Type.Optional(Type.String({ description: "Channel name for channel.join/leave/send, e.g. \"#api\"" })),
+      at: Type.Optional(Type.String({ description: "For send: deliver later, at an ISO date/time or local \"HH:MM\"" })),
+      delay: Type.Optional(Type.String({ description: "For send: deliver after a duration (\"90s\", \"20m\", \"2h\")" })),
+      messagePriority: Type.Optional(StringEnum(["urgent", "normal", "fyi"], { description: "For send/channel.send: urgent interrupts the recipient (default), normal waits for the end of their turn, fyi goes into a digest when they're idle" })),
+      payload: Type.Optional(Type.Any({ description: "Attachment for send/broadcast/channel.send/reply, by kind: { kind: \"files\", files: [\"path:12-40\" or { path, startLine, endLine, note }] }, { kind: \"diff\", diff: \"<unified diff>\" }, { kind: \"task\", taskId, plan?, title? }, or { kind: \"json\", data, label? }" })),
+      waitFor: Type.Optional(StringEnum(["delivered", "read"], { description: "For send: block until every recipient has acknowledged the message (delivered: consumed from the inbox; read: their turn ended after it)" })),
+      timeout: Type.Optional(Type.Number({ description: "Seconds to wait for receipts with waitFor (default 60) or for an ask answer (default 120)" })),
       reserve: Type.Optional(Type.Array(Type.String(), { description: "Paths to reserve (legacy - use action: 'reserve' with paths)" })),
       reason: Type.Optional(Type.String({ description: "Reason for reservation, claim, or task block" })),
       release: Type.Optional(Type.Any({ description: "Patterns to release (array) or true to release all (legacy)" })),
@@ -396,7 +538,14 @@ Mode: action (if provided) > legacy key-based routing`,
           deliverMessage,
           updateStatus,
           (type, data) => pi.appendEntry(type, data),
-          { stuckThreshold: config.stuckThreshold, crewEventsInFeed: config.crewEventsInFeed, nameTheme, feedRetention: config.feedRetention },
+          {
+            stuckThreshold: config.stuckThreshold,
+            crewEventsInFeed: config.crewEventsInFeed,
+            nameTheme,
+            feedRetention: config.feedRetention,
+            messageLogRetention: config.messageLogRetention,
+            reservationRequestTimeout: config.reservationRequestTimeout,
+          },
           signal
         );
       }
@@ -407,7 +556,7 @@ Mode: action (if provided) > legacy key-based routing`,
 
       // Join doesn't require registration
       if (join) {
-        const joinResult = handlers.executeJoin(state, dirs, ctx, deliverMessage, updateStatus, spec, nameTheme, config.feedRetention);
+        const joinResult = handlers.executeJoin(state, dirs, ctx, deliverMessage, updateStatus, spec, nameTheme, config.feedRetention, config.messageLogRetention);
         
         // Send registration context after successful join (if configured)
         if (state.registered && config.registrationContext) {
@@ -439,7 +588,19 @@ Mode: action (if provided) > legacy key-based routing`,
       if (unclaim) return await handlers.executeUnclaim(state, dirs, unclaim, spec);
       if (complete) return await handlers.executeComplete(state, dirs, complete, notes, spec);
       if (spec) return handlers.executeSetSpec(state, dirs, ctx, spec);
-      if (to || broadcast) return handlers.executeSend(state, dirs, to, broadcast, message, replyTo);
+      if ((to || broadcast) && (params.at !== undefined || params.delay !== undefined)) {
+        return handlers.executeSchedule(state, dirs, to, broadcast, message, {
+          at: params.at,
+          delay: params.delay,
+          replyTo,
+          priority: params.messagePriority,
+          payload: params.payload,
+        });
+      }
+      if (to && !broadcast && params.waitFor) {
+        return handlers.executeSendAndWait(state, dirs, to, message, replyTo, params.waitFor, params.timeout, signal, params.messagePriority, params.payload);
+      }
+      if (to || broadcast) return handlers.executeSend(state, dirs, to, broadcast, message, replyTo, params.messagePriority, params.payload);
       if (reserve && reserve.length > 0) return handlers.executeReserve(state, dirs, ctx, reserve, reason);
       if (release === true || (Array.isArray(release) && release.length > 0)) {
         return handlers.executeRelease(state, dirs, ctx, release);
@@ -637,8 +798,10 @@ Mode: action (if provided) > legacy key-based routing`,
   pi.on("tool_call", async (event, ctx) => {
     if (!state.registered) return;
 
+    priorityDelivery.markRunning();
     updateLastActivity();
     incrementToolCount();
+    if (store.renewReservations(state, dirs)) store.updateRegistration(state, dirs, ctx);
     scheduleRegistryFlush(ctx);
 
     const toolName = event.toolName;
@@ -730,6 +893,7 @@ Mode: action (if provided) > legacy key-based routing`,
       store.startWatcher(state, dirs, deliverMessage);
       updateStatus(ctx);
       pruneFeed(dirs, config.feedRetention);
+      pruneMessageLog(dirs, config.messageLogRetention);
       logFeedEvent(dirs, state.agentName, "join");
 
       if (config.registrationContext) {
@@ -771,7 +935,10 @@ Mode: action (if provided) > legacy key-based routing`,
 
   pi.on("turn_end", async (event, ctx) => {
     latestCtx = ctx;
+    // Messages delivered before this turn ended have now been seen
+    store.flushReadReceipts(state, dirs);
     store.processAllPendingMessages(state, dirs, deliverMessage);
+    priorityDelivery.turnEnded();
     recoverWatcherIfNeeded();
     updateStatus(ctx);
 
@@ -788,6 +955,10 @@ Mode: action (if provided) > legacy key-based routing`,
     }
   });
 
+  pi.on("agent_end", async () => {
+    priorityDelivery.agentEnded();
+  });
+
   // ===========================================================================
   // Crew Autonomous Mode Continuation
   // ===========================================================================
@@ -797,12 +968,13 @@ Mode: action (if provided) > legacy key-based routing`,
     if (!autonomousState.active) return;
 
     const cwd = autonomousState.cwd ?? ctx.cwd ?? process.cwd();
+    const planSlug = autonomousState.plan ?? undefined;
     const crewDir = join(cwd, ".pi", "messenger", "crew");
     const crewConfig = loadCrewConfig(crewDir);
 
     // Check max waves limit
     if (autonomousState.waveNumber >= crewConfig.work.maxWaves) {
-      stopAutonomous("manual");
+      stopAutonomous("max_waves", `${autonomousState.waveNumber - 1} waves run (limit ${crewConfig.work.maxWaves})`);
       if (ctx.hasUI) {
         ctx.ui.notify(`Autonomous stopped: max waves (${crewConfig.work.maxWaves}) reached`, "warning");
       }
@@ -810,16 +982,16 @@ Mode: action (if provided) > legacy key-based routing`,
     }
 
     // Check for ready tasks
-    const readyTasks = crewStore.getReadyTasks(cwd);
+    const readyTasks = crewStore.getReadyTasks(cwd, planSlug);
     
     if (readyTasks.length === 0) {
       // No ready tasks - check if all done or blocked
-      const allTasks = crewStore.getTasks(cwd);
+      const allTasks = crewStore.getTasks(cwd, planSlug);
       const allDone = allTasks.every(t => t.status === "done");
       
       stopAutonomous(allDone ? "completed" : "blocked");
       
-      const plan = crewStore.getPlan(cwd);
+      const plan = crewStore.getPlan(cwd, planSlug);
       if (ctx.hasUI) {
         if (allDone) {
           ctx.ui.notify(`✅ All tasks complete for ${plan?.prd ?? "plan"}!`, "info");
@@ -833,10 +1005,11 @@ Mode: action (if provided) > legacy key-based routing`,
 
     // Continue to next wave
     // Note: waveNumber was already incremented by addWaveResult() in work.ts
-    const plan = crewStore.getPlan(cwd);
+    const plan = crewStore.getPlan(cwd, planSlug);
+    const planHint = planSlug ? ` (plan: "${planSlug}")` : "";
     pi.sendMessage({
       customType: "crew_continue",
-      content: `Continuing autonomous work on ${plan?.prd ?? "plan"}. Wave ${autonomousState.waveNumber} with ${readyTasks.length} ready task(s).`,
+      content: `Continuing autonomous work on ${plan?.prd ?? "plan"}${planHint}. Wave ${autonomousState.waveNumber} with ${readyTasks.length} ready task(s).`,
       display: true
     }, { triggerTurn: true, deliverAs: "steer" });
 
@@ -855,38 +1028,67 @@ Mode: action (if provided) > legacy key-based routing`,
       clearTimeout(timer);
     }
     pendingEdits.clear();
+    priorityDelivery.dispose();
+    clearInterval(scheduleTimer);
+    if (syncTimer) clearInterval(syncTimer);
     if (recentCommitTimer) { clearTimeout(recentCommitTimer); recentCommitTimer = null; }
     if (recentTestTimer) { clearTimeout(recentTestTimer); recentTestTimer = null; }
     if (recentEditTimer) { clearTimeout(recentEditTimer); recentEditTimer = null; }
     store.stopWatcher(state);
-    store.unregister(state, dirs);
+    await store.unregister(state, dirs);
+    await transport.close?.().catch(() => {});
   });
 
   // ===========================================================================
   // Reservation Enforcement
   // ===========================================================================
 
-  pi.on("tool_call", async (event, _ctx) => {
-    // Only block write operations - reading reserved files is fine
-    if (!["edit", "write"].includes(event.toolName)) return;
-
-    const path = event.input.path as string;
-    if (!path) return;
-
-    const conflicts = store.getConflictsWithOtherAgents(path, state, dirs);
-    if (conflicts.length === 0) return;
-
-    const c = conflicts[0];
+  function formatConflict(c: ReservationConflict): string {
     const folder = extractFolder(c.registration.cwd);
     const locationPart = c.registration.gitBranch
       ? ` (in ${folder} on ${c.registration.gitBranch})`
       : ` (in ${folder})`;
 
-    const lines = [path, `Reserved by: ${c.agent}${locationPart}`];
+    const lines = [c.path, `Reserved by: ${c.agent}${locationPart}`, `Matched: ${c.pattern}`];
+    if (c.mode === "shared") lines.push("Mode: shared (they are reading it and depend on its current shape)");
     if (c.reason) lines.push(`Reason: "${c.reason}"`);
     lines.push("");
     lines.push(`Coordinate via pi_messenger({ to: "${c.agent}", message: "..." })`);
+    lines.push(`or queue for it: pi_messenger({ action: "reserve", paths: ["${c.path}"], wait: true })`);
+    return lines.join("\n");
+  }
+
+  pi.on("tool_call", async (event, ctx) => {
+    const cwd = ctx.cwd ?? process.cwd();
+
+    if (event.toolName === "bash") {
+      if (config.bashReservations === "off") return;
+      const command = event.input.command as string;
+      if (!command) return;
+
+      const conflicts = extractMutatedPaths(command)
+        .flatMap(p => store.getConflictsWithOtherAgents(p, state, dirs, cwd, "overlap"));
+      if (conflicts.length === 0) return;
+
+      const reason = `Command modifies reserved files:\n\n${conflicts.map(formatConflict).join("\n\n")}`;
+      if (config.bashReservations === "block") return { block: true, reason };
+
+      pi.sendMessage(
+        { customType: "reservation_warning", content: reason, display: true },
+        { triggerTurn: false, deliverAs: "steer" }
+      );
+      return;
+    }
+
+    // Only block write operations - reading reserved files is fine
+    if (!["edit", "write"].includes(event.toolName)) return;
+
+    const path = event.input.path as string;
+    if (!path) return;
+
+    const conflicts = store.getConflictsWithOtherAgents(path, state, dirs, cwd);
+    if (conflicts.length === 0) return;
 
-    return { block: true, reason: lines.join("\n") };
+    return { block: true, reason: formatConflict(conflicts[0]) };
   });
 }
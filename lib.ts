@@ -9,12 +9,56 @@ import { basename, isAbsolute, resolve, relative } from "node:path";
 // Types
 // =============================================================================
 
+/**
+ * exclusive: only the holder may change the files (default)
+ * shared:    the holder reads and depends on the files; other shared holders are fine, writers are not
+ * intent:    informational, blocks nothing
+ */
+export type ReservationMode = "exclusive" | "shared" | "intent";
+
+/** What another agent wants to do with a reserved path: write it, or reserve it in some mode. */
+export type ReservationAccess = "write" | ReservationMode;
+
 export interface FileReservation {
-  pattern: string;
+  pattern: string;               // Repo-root-relative, symlinks resolved
+  mode?: ReservationMode;        // Missing means exclusive
+  exclude?: string[];
+  repo?: string;                 // Canonical git common dir (or cwd outside git) the pattern is relative to
+  reason?: string;
+  since: string;
+  ttl?: number;                  // Lease length in seconds, renewed while the holder is active
+  expiresAt?: string;
+}
+
+export interface ReservationWaiter {
+  agent: string;
+  pattern: string;               // Normalized, like FileReservation.pattern
+  mode?: ReservationMode;
+  exclude?: string[];
+  repo: string;
+  root: string;                  // Checkout the waiter queued from; patterns are relative to it
   reason?: string;
+  ttl?: number;
   since: string;
 }
 
+/** A reserve.request waiting for its timeout; the requester's poll resolves it once due. */
+export interface PendingReservationRequest {
+  agent: string;                 // Requester
+  paths: string[];
+  reason?: string;
+  ttl?: number;
+  mode?: ReservationMode;
+  cwd: string;
+  dueAt: string;
+}
+
+export interface ReservationRevocation {
+  pattern: string;
+  by: string;
+  at: string;
+}
+
 export interface AgentSession {
   toolCalls: number;
   tokens: number;
@@ -35,6 +79,11 @@ export interface AgentRegistration {
   model: string;
   startedAt: string;
   reservations?: FileReservation[];
+  revokedReservations?: ReservationRevocation[];  // Taken by other agents, applied by the holder on its next write
+  grantedReservations?: FileReservation[];        // Handed over from the wait queue, applied on the next write
+  channels?: string[];           // Joined channels, e.g. "#api"
+  host?: string;                 // Set on agents running on another machine, mirrored in through a relay
+  mirroredAt?: string;           // When the relay sync last refreshed the mirror
   gitBranch?: string;
   spec?: string;
   isHuman: boolean;
@@ -50,12 +99,82 @@ export interface AgentMailMessage {
   text: string;
   timestamp: string;
   replyTo: string | null;
+  threadId?: string;             // ID of the thread's first message; missing on messages from older versions
+  question?: boolean;            // Sent with ask: the sender is blocked until a reply arrives
+  channel?: string;              // "#api": a channel message, one copy per member inbox
+  broadcast?: boolean;           // Sent to every agent; gets no receipts
+  priority?: MessagePriority;    // Missing means urgent, the behaviour before priorities existed
+  payload?: MessagePayload;      // Structured attachment shown below the text
+  deliveredAt?: string;          // Set on the sender's copy when the recipient's receipts come back
+  readAt?: string;
+}
+
+/**
+ * How an incoming message reaches the recipient: "urgent" steers in at once,
+ * "normal" waits for the end of the current turn, "fyi" is held for a digest
+ * when the agent is idle.
+ */
+export type MessagePriority = "urgent" | "normal" | "fyi";
+
+/** A file, or a range of its lines (1-based, inclusive), that a message points at. */
+export interface FileRef {
+  path: string;
+  startLine?: number;
+  endLine?: number;
+  note?: string;
+}
+
+/**
+ * Structured data sent alongside a message's text, so the recipient gets
+ * file references, diffs and the like without parsing them out of prose.
+ */
+export type MessagePayload =
+  | { kind: "files"; files: FileRef[] }
+  | { kind: "diff"; diff: string }
+  | { kind: "task"; taskId: string; plan?: string; title?: string }
+  | { kind: "json"; data: unknown; label?: string };
+
+/** A message held in dirs.base/scheduled-messages.json until `dueAt`. */
+export interface ScheduledMessage {
+  id: string;
+  from: string;
+  to: string[];                  // Recipients; empty for a broadcast
+  broadcast?: boolean;
+  text: string;
+  replyTo?: string;
+  priority?: MessagePriority;
+  payload?: MessagePayload;
+  dueAt: string;
+  createdAt: string;
+}
+
+export type ReceiptKind = "delivered" | "read";
+
+/**
+ * Written back to the sender's inbox: "delivered" once the recipient has
+ * consumed the message, "read" once the recipient's turn has ended after it.
+ */
+export interface MessageReceipt {
+  type: "receipt";
+  kind: ReceiptKind;
+  messageId: string;
+  from: string;                  // The recipient acknowledging the message
+  to: string;                    // The original sender
+  at: string;
+}
+
+export interface MessageThread {
+  id: string;
+  messages: AgentMailMessage[];  // Tree order: each reply follows its parent
+  depths: number[];              // Reply depth of each message, 0 for the root
+  lastTimestamp: string;
 }
 
 export interface ReservationConflict {
   path: string;
   agent: string;
   pattern: string;
+  mode: ReservationMode;
   reason?: string;
   registration: AgentRegistration;
 }
@@ -83,6 +202,9 @@ export interface MessengerState {
   customStatus: boolean;
   registryFlushTimer: ReturnType<typeof setTimeout> | null;
   sessionStartedAt: string;
+  pendingReadReceipts: AgentMailMessage[];  // Delivered to us, "read" receipt not sent yet
+  channels: string[];
+  channelHistory: Map<string, AgentMailMessage[]>;  // Keyed by channel name
 }
 
 export interface Dirs {
@@ -161,6 +283,12 @@ export const STATUS_INDICATORS: Record<AgentStatus, string> = {
   stuck: "\u{1F534}",
 };
 
+export const RESERVATION_MODE_ICONS: Record<ReservationMode, string> = {
+  exclusive: "\u{1F512}",
+  shared: "\u{1F441}",
+  intent: "\u{1F4AD}",
+};
+
 export interface AutoStatusContext {
   currentActivity?: string;
   recentCommit: boolean;
@@ -205,6 +333,8 @@ export function generateAutoStatus(ctx: AutoStatusContext): string | undefined {
 
 export const MAX_WATCHER_RETRIES = 5;
 export const MAX_CHAT_HISTORY = 50;
+export const RELAY_SYNC_MS = 2000;
+export const MIRROR_TTL_MS = RELAY_SYNC_MS * 10;   // Mirrors of remote agents not refreshed within this are gone
 
 const AGENT_COLORS = [
   "38;2;178;129;214",  // purple
@@ -305,6 +435,21 @@ export function isProcessAlive(pid: number): boolean {
   }
 }
 
+/**
+ * Whether a registration belongs to a running agent. The pid of an agent on
+ * another machine means nothing here: its mirrored registration lives as long
+ * as relay syncs keep refreshing it.
+ */
+export function isAgentAlive(reg: AgentRegistration): boolean {
+  if (reg.host !== undefined) return Date.now() - Date.parse(reg.mirroredAt ?? "") < MIRROR_TTL_MS;
+  return isProcessAlive(reg.pid);
+}
+
+/** Whether a registration was written by this process. */
+export function isOwnRegistration(reg: AgentRegistration): boolean {
+  return reg.host === undefined && reg.pid === process.pid;
+}
+
 export function isValidAgentName(name: string): boolean {
   if (!name || name.length > 50) return false;
   return /^[a-zA-Z0-9_][a-zA-Z0-9_-]*$/.test(name);
@@ -321,13 +466,229 @@ export function formatRelativeTime(timestamp: string): string {
   return "just now";
 }
 
+/** A duration like "90s", "20m", "2h" or "7d" in milliseconds, or undefined. */
+export function parseDuration(value: string): number | undefined {
+  const duration = value.trim().match(/^(\d+)\s*([smhd])$/);
+  if (!duration) return undefined;
+  const unit = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }[duration[2] as "s" | "m" | "h" | "d"];
+  return Number(duration[1]) * unit;
+}
+
+/**
+ * Parse a time bound given as an ISO date/time or as a duration before now
+ * ("30m", "2h", "7d"). Returns epoch ms, or undefined if unparseable.
+ */
+export function parseTimeBound(value: string, now: number = Date.now()): number | undefined {
+  const duration = parseDuration(value);
+  if (duration !== undefined) return now - duration;
+  const parsed = Date.parse(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * When a scheduled message is due: `delay` after now ("20m"), or `at`, given
+ * as an ISO date/time or as a local "HH:MM" (today, or tomorrow if that time
+ * has passed). Returns epoch ms, or undefined if unparseable.
+ */
+export function resolveDueTime(at: string | undefined, delay: string | undefined, now: number = Date.now()): number | undefined {
+  if (delay !== undefined) {
+    const ms = parseDuration(delay);
+    return ms === undefined ? undefined : now + ms;
+  }
+  if (at === undefined) return undefined;
+
+  const clock = at.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (clock) {
+    const [hours, minutes] = [Number(clock[1]), Number(clock[2])];
+    if (hours > 23 || minutes > 59) return undefined;
+    const due = new Date(now);
+    due.setHours(hours, minutes, 0, 0);
+    if (due.getTime() <= now) due.setDate(due.getDate() + 1);
+    return due.getTime();
+  }
+  const parsed = Date.parse(at);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/** "in 20m", "in 3h 5m", "in 1d 2h", or "now" for a time that has passed. */
+export function formatTimeUntil(timestamp: string, now: number = Date.now()): string {
+  const minutes = Math.ceil((new Date(timestamp).getTime() - now) / 60_000);
+  if (minutes <= 0) return "now";
+  if (minutes < 60) return `in ${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `in ${hours}h${minutes % 60 ? ` ${minutes % 60}m` : ""}`;
+  return `in ${Math.floor(hours / 24)}d${hours % 24 ? ` ${hours % 24}h` : ""}`;
+}
+
+/**
+ * Match a path against a reservation pattern: an exact path, a directory
+ * prefix ending in "/", or a glob ("*", "**", "?", "[...]", "{a,b}").
+ */
 export function pathMatchesReservation(filePath: string, pattern: string): boolean {
+  if (isGlobPattern(pattern)) {
+    return globToRegExp(pattern).test(filePath);
+  }
   if (pattern.endsWith("/")) {
     return filePath.startsWith(pattern) || filePath + "/" === pattern;
   }
   return filePath === pattern;
 }
 
+/**
+ * True when the reservation's pattern matches and none of its "!" exclusions do.
+ */
+export function matchesReservation(filePath: string, reservation: FileReservation): boolean {
+  if (!pathMatchesReservation(filePath, reservation.pattern)) return false;
+  return !(reservation.exclude ?? []).some(ex => pathMatchesReservation(filePath, ex));
+}
+
+/**
+ * Compatibility matrix: does a reservation held in `held` mode stand in the
+ * way of `access`? Shared holders coexist, intent never conflicts.
+ */
+export function reservationBlocks(held: ReservationMode | undefined, access: ReservationAccess): boolean {
+  const mode = held ?? "exclusive";
+  if (mode === "intent" || access === "intent") return false;
+  if (mode === "shared") return access !== "shared";
+  return true;
+}
+
+/** Reservation with its mode icon, for display. */
+export function describeReservation(reservation: FileReservation): string {
+  return `${RESERVATION_MODE_ICONS[reservation.mode ?? "exclusive"]} ${formatReservation(reservation)}`;
+}
+
+export function isReservationExpired(reservation: FileReservation, now: number = Date.now()): boolean {
+  return reservation.expiresAt !== undefined && new Date(reservation.expiresAt).getTime() <= now;
+}
+
+/**
+ * Looser match for paths taken from bash commands, which may name a whole
+ * directory (`rm -rf src`) or a shell glob (`rm src/*.ts`): a hit when any
+ * path the target could touch might fall under the reservation.
+ */
+export function commandTargetHitsReservation(target: string, reservation: FileReservation): boolean {
+  if (isGlobPattern(target) || target.endsWith("/")) return patternsOverlap(target, reservation.pattern);
+  if (matchesReservation(target, reservation)) return true;
+  // A plain path can be a directory; its excluded parts are still free
+  if ((reservation.exclude ?? []).some(ex => pathMatchesReservation(target, ex))) return false;
+  return patternsOverlap(`${target}/`, reservation.pattern);
+}
+
+/**
+ * Could some path match both patterns? Directories count as `dir/**`, and a
+ * glob without a "/" as matching at any depth. Segments are compared one by
+ * one; where two globs meet only their literal ends are checked, and shapes
+ * that don't split into segments are assumed to overlap.
+ */
+export function patternsOverlap(a: string, b: string): boolean {
+  const segmentsOf = (pattern: string): string[] => {
+    const expanded = pattern.endsWith("/") ? `${pattern}**` : pattern;
+    return isGlobPattern(expanded) && !expanded.includes("/") ? ["**", expanded] : expanded.split("/");
+  };
+  const sa = segmentsOf(a);
+  const sb = segmentsOf(b);
+  const unsplittable = (p: string) => /\{[^}]*\//.test(p);
+  if (unsplittable(a) || unsplittable(b) || [...sa, ...sb].some(s => s !== "**" && s.includes("**"))) {
+    return true;
+  }
+  return segmentListsOverlap(sa, sb);
+}
+
+function segmentListsOverlap(a: string[], b: string[]): boolean {
+  if (a.length === 0) return b.every(s => s === "**");
+  if (b.length === 0) return a.every(s => s === "**");
+  // "**" takes zero or more of the other side's segments
+  if (a[0] === "**") return segmentListsOverlap(a.slice(1), b) || segmentListsOverlap(a, b.slice(1));
+  if (b[0] === "**") return segmentListsOverlap(a, b.slice(1)) || segmentListsOverlap(a.slice(1), b);
+  return segmentOverlaps(a[0], b[0]) && segmentListsOverlap(a.slice(1), b.slice(1));
+}
+
+function segmentOverlaps(a: string, b: string): boolean {
+  const aGlob = isGlobPattern(a);
+  const bGlob = isGlobPattern(b);
+  if (!aGlob && !bGlob) return a === b;
+  if (!aGlob) return globToRegExp(b).test(a);
+  if (!bGlob) return globToRegExp(a).test(b);
+  const [aHead, aTail] = literalEnds(a);
+  const [bHead, bTail] = literalEnds(b);
+  return (aHead.startsWith(bHead) || bHead.startsWith(aHead))
+    && (aTail.endsWith(bTail) || bTail.endsWith(aTail));
+}
+
+/** The literal text before the first and after the last glob character. */
+function literalEnds(segment: string): [string, string] {
+  const head = segment.slice(0, segment.search(/[*?[{]/));
+  const tail = segment.match(/[^*?\]}]*$/)?.[0] ?? "";
+  return [head, tail];
+}
+
+export function formatReservation(reservation: FileReservation): string {
+  const exclude = reservation.exclude ?? [];
+  return exclude.length > 0
+    ? `${reservation.pattern} (except ${exclude.join(", ")})`
+    : reservation.pattern;
+}
+
+export function isGlobPattern(pattern: string): boolean {
+  return /[*?[{]/.test(pattern);
+}
+
+const globCache = new Map<string, RegExp>();
+
+export function globToRegExp(pattern: string): RegExp {
+  const cached = globCache.get(pattern);
+  if (cached) return cached;
+
+  // A trailing slash keeps its directory-prefix meaning
+  const source = pattern.endsWith("/") ? pattern + "**" : pattern;
+  let re = "";
+  let braceDepth = 0;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === "*") {
+      if (source[i + 1] === "*") {
+        const atSegmentStart = i === 0 || source[i - 1] === "/";
+        if (atSegmentStart && source[i + 2] === "/") {
+          re += "(?:.*/)?";
+          i += 2;
+        } else {
+          re += ".*";
+          i += 1;
+        }
+      } else {
+        re += "[^/]*";
+      }
+    } else if (char === "?") {
+      re += "[^/]";
+    } else if (char === "[") {
+      const end = source.indexOf("]", i + 1);
+      if (end === -1) {
+        re += "\\[";
+      } else {
+        const body = source.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\");
+        re += `[${body}]`;
+        i = end;
+      }
+    } else if (char === "{") {
+      braceDepth++;
+      re += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      re += ")";
+    } else if (char === "," && braceDepth > 0) {
+      re += "|";
+    } else {
+      re += char.replace(/[.+^${}()|\\\]]/g, "\\$&");
+    }
+  }
+
+  const regex = new RegExp(`^${re}$`);
+  globCache.set(pattern, regex);
+  return regex;
+}
+
 export function stripAnsiCodes(text: string): string {
   // eslint-disable-next-line no-control-regex
   return text.replace(/\x1b\[[0-9;]*[a-zA-Z]/g, "");
@@ -431,3 +792,317 @@ export function getDisplayMode(agents: AgentRegistration[]): DisplayMode {
   
   return "same-folder";
 }
+
+// =============================================================================
+// Threads
+// =============================================================================
+
+export function shortMessageId(id: string): string {
+  return id.slice(0, 8);
+}
+
+/** Find a message by full ID or by the 8-character prefix shown to agents. */
+export function findMessage(messages: AgentMailMessage[], idOrPrefix: string): AgentMailMessage | undefined {
+  return messages.find(m => m.id === idOrPrefix) ?? messages.find(m => m.id.startsWith(idOrPrefix));
+}
+
+/** All messages this agent has seen or sent, oldest first, without duplicates. */
+export function collectMessages(state: MessengerState): AgentMailMessage[] {
+  const byId = new Map<string, AgentMailMessage>();
+  for (const history of state.chatHistory.values()) {
+    for (const msg of history) byId.set(msg.id, msg);
+  }
+  for (const msg of state.broadcastHistory) byId.set(msg.id, msg);
+  for (const history of state.channelHistory?.values() ?? []) {
+    for (const msg of history) byId.set(msg.id, msg);
+  }
+  return [...byId.values()].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * Group messages into threads, ordered by latest activity (most recent
+ * last). Messages without a threadId are attached through their replyTo
+ * chain; replies whose parent isn't in `messages` stay in the thread at
+ * depth 1.
+ */
+export function groupThreads(messages: AgentMailMessage[]): MessageThread[] {
+  const byId = new Map(messages.map(m => [m.id, m]));
+
+  const threadOf = (msg: AgentMailMessage): string => {
+    if (msg.threadId) return msg.threadId;
+    let current = msg;
+    const seen = new Set<string>();
+    while (current.replyTo && !seen.has(current.id)) {
+      seen.add(current.id);
+      const parent = byId.get(current.replyTo);
+      if (!parent) return current.replyTo;
+      if (parent.threadId) return parent.threadId;
+      current = parent;
+    }
+    return current.id;
+  };
+
+  const groups = new Map<string, AgentMailMessage[]>();
+  for (const msg of [...messages].sort((a, b) => a.timestamp.localeCompare(b.timestamp))) {
+    const id = threadOf(msg);
+    const group = groups.get(id) ?? [];
+    group.push(msg);
+    groups.set(id, group);
+  }
+
+  const threads: MessageThread[] = [];
+  for (const [id, group] of groups) {
+    const inGroup = new Set(group.map(m => m.id));
+    const children = new Map<string, AgentMailMessage[]>();
+    const tops: AgentMailMessage[] = [];
+    for (const msg of group) {
+      if (msg.replyTo && msg.replyTo !== msg.id && inGroup.has(msg.replyTo)) {
+        const list = children.get(msg.replyTo) ?? [];
+        list.push(msg);
+        children.set(msg.replyTo, list);
+      } else {
+        tops.push(msg);
+      }
+    }
+
+    const ordered: AgentMailMessage[] = [];
+    const depths: number[] = [];
+    const visit = (msg: AgentMailMessage, depth: number) => {
+      ordered.push(msg);
+      depths.push(depth);
+      for (const child of children.get(msg.id) ?? []) visit(child, depth + 1);
+    };
+    for (const msg of tops) visit(msg, msg.id === id || tops.length === 1 ? 0 : 1);
+
+    threads.push({ id, messages: ordered, depths, lastTimestamp: group[group.length - 1].timestamp });
+  }
+
+  return threads.sort((a, b) => a.lastTimestamp.localeCompare(b.lastTimestamp));
+}
+
+// =============================================================================
+// Receipts
+// =============================================================================
+
+export function isMessageReceipt(value: unknown): value is MessageReceipt {
+  return typeof value === "object" && value !== null && (value as MessageReceipt).type === "receipt";
+}
+
+export function hasReceipt(msg: AgentMailMessage, kind: ReceiptKind): boolean {
+  return kind === "read" ? !!msg.readAt : !!(msg.deliveredAt || msg.readAt);
+}
+
+/** "✓" once delivered, "✓✓" once read, "" while only sent. */
+export function receiptTicks(msg: AgentMailMessage): string {
+  if (msg.readAt) return "\u2713\u2713";
+  if (msg.deliveredAt) return "\u2713";
+  return "";
+}
+
+// =============================================================================
+// Channels
+// =============================================================================
+
+/** "api" or "#API" → "#api"; null if it isn't a valid channel name. */
+export function normalizeChannelName(name: string): string | null {
+  const bare = name.trim().replace(/^#/, "").toLowerCase();
+  return /^[a-z0-9][a-z0-9._-]{0,31}$/.test(bare) ? `#${bare}` : null;
+}
+
+export function isChannelName(name: string | null | undefined): name is string {
+  return !!name && name.startsWith("#");
+}
+
+// =============================================================================
+// Message Priority
+// =============================================================================
+
+const PRIORITY_RANK: Record<MessagePriority, number> = { fyi: 0, normal: 1, urgent: 2 };
+
+/** The sender's priority, lowered to the recipient's `maxMessagePriority` if it is above it. */
+export function effectivePriority(msg: AgentMailMessage, cap: MessagePriority = "urgent"): MessagePriority {
+  const priority = msg.priority ?? "urgent";
+  return PRIORITY_RANK[priority] > PRIORITY_RANK[cap] ? cap : priority;
+}
+
+/** One prompt summarizing held-back fyi messages, oldest first. */
+export function formatDigest(messages: AgentMailMessage[]): string {
+  const lines = [`**FYI digest** (${messages.length} message${messages.length === 1 ? "" : "s"}, no reply needed)`, ""];
+  for (const msg of messages) {
+    const where = msg.channel ? ` in ${msg.channel}` : "";
+    const [first, ...rest] = msg.text.split("\n");
+    lines.push(`- ${msg.from}${where} [id ${shortMessageId(msg.id)}]: ${first}`);
+    for (const line of rest) lines.push(`  ${line}`);
+    if (msg.payload) lines.push(`  (attached: ${payloadSummary(msg.payload)})`);
+  }
+  return lines.join("\n");
+}
+
+// =============================================================================
+// Message Payloads
+// =============================================================================
+
+const PAYLOAD_KINDS = ["files", "diff", "task", "json"];
+
+/**
+ * Check a payload supplied by a tool call and strip unknown fields. File
+ * references may also be given as "path", "path:12" or "path:12-40".
+ */
+export function validatePayload(data: unknown): { payload: MessagePayload } | { errors: string[] } {
+  if (!isRecord(data)) return { errors: ["payload must be an object"] };
+  const errors: string[] = [];
+  const optionalString = (key: string) => {
+    if (data[key] !== undefined && typeof data[key] !== "string") errors.push(`${key} must be a string`);
+    return typeof data[key] === "string" ? { [key]: data[key] as string } : {};
+  };
+
+  switch (data.kind) {
+    case "files": {
+      if (!Array.isArray(data.files) || data.files.length === 0) return { errors: ["files must be a non-empty array"] };
+      const files = data.files.map((raw, i) => toFileRef(raw, `files[${i}]`, errors));
+      if (errors.length > 0) return { errors };
+      return { payload: { kind: "files", files: files as FileRef[] } };
+    }
+    case "diff":
+      if (typeof data.diff !== "string" || !data.diff.trim()) return { errors: ["diff must be a non-empty string"] };
+      return { payload: { kind: "diff", diff: data.diff } };
+    case "task": {
+      if (typeof data.taskId !== "string" || !data.taskId.trim()) errors.push("taskId must be a non-empty string");
+      const extra = { ...optionalString("plan"), ...optionalString("title") };
+      if (errors.length > 0) return { errors };
+      return { payload: { kind: "task", taskId: (data.taskId as string).trim(), ...extra } };
+    }
+    case "json": {
+      if (data.data === undefined) errors.push("data is required");
+      const extra = optionalString("label");
+      if (errors.length > 0) return { errors };
+      return { payload: { kind: "json", data: data.data, ...extra } };
+    }
+    default:
+      return { errors: [`kind must be one of ${PAYLOAD_KINDS.join(", ")}`] };
+  }
+}
+
+export function formatFileRef(ref: FileRef): string {
+  if (ref.startLine === undefined) return ref.path;
+  if (ref.endLine === undefined || ref.endLine === ref.startLine) return `${ref.path}:${ref.startLine}`;
+  return `${ref.path}:${ref.startLine}-${ref.endLine}`;
+}
+
+/** One line describing a payload: the collapsed form in the overlay. */
+export function payloadSummary(payload: MessagePayload): string {
+  switch (payload.kind) {
+    case "files": {
+      const n = payload.files.length;
+      return `${n} file${n === 1 ? "" : "s"}: ${payload.files.map(formatFileRef).join(", ")}`;
+    }
+    case "diff":
+      return `diff ${diffSummary(payload.diff)}`;
+    case "task":
+      return `task ${taskSummary(payload)}`;
+    case "json":
+      return payload.label ? `JSON: ${payload.label}` : "JSON";
+    default:
+      return "attachment";
+  }
+}
+
+/** The payload's content, line by line: the expanded form in the overlay. */
+export function payloadLines(payload: MessagePayload): string[] {
+  switch (payload.kind) {
+    case "files":
+      return payload.files.map(f => f.note ? `${formatFileRef(f)} \u2014 ${f.note}` : formatFileRef(f));
+    case "diff":
+      return payload.diff.replace(/\n$/, "").split("\n");
+    case "task":
+      return [taskSummary(payload)];
+    case "json":
+      return JSON.stringify(payload.data, null, 2).split("\n");
+    default:
+      return [];
+  }
+}
+
+/** The payload as markdown, appended to the recipient's message prompt. Empty for a kind this version doesn't know. */
+export function formatPayload(payload: MessagePayload): string {
+  switch (payload.kind) {
+    case "files":
+      return ["**Files**", ...payload.files.map(f => `- \`${formatFileRef(f)}\`${f.note ? ` \u2014 ${f.note}` : ""}`)].join("\n");
+    case "diff":
+      return `**Diff** ${diffSummary(payload.diff)}\n\n${fence("diff", payload.diff.replace(/\n$/, ""))}`;
+    case "task": {
+      const plan = payload.plan ? `, plan: "${payload.plan}"` : "";
+      return `**Task** ${taskSummary(payload)} \u2014 details: pi_messenger({ action: "task.show", id: "${payload.taskId}"${plan} })`;
+    }
+    case "json":
+      return `**Data**${payload.label ? ` (${payload.label})` : ""}\n\n${fence("json", JSON.stringify(payload.data, null, 2))}`;
+    default:
+      return "";
+  }
+}
+
+function toFileRef(raw: unknown, label: string, errors: string[]): FileRef | undefined {
+  if (typeof raw === "string") {
+    const match = raw.match(/^(.+?)(?::(\d+)(?:-(\d+))?)?$/);
+    raw = match ? { path: match[1], startLine: match[2] && Number(match[2]), endLine: match[3] && Number(match[3]) } : { path: raw };
+  }
+  if (!isRecord(raw)) {
+    errors.push(`${label} must be a path string or an object`);
+    return undefined;
+  }
+  if (typeof raw.path !== "string" || !raw.path.trim()) {
+    errors.push(`${label}.path must be a non-empty string`);
+    return undefined;
+  }
+  const ref: FileRef = { path: raw.path.trim() };
+  const isLine = (v: unknown) => Number.isInteger(v) && (v as number) >= 1;
+  if (raw.startLine !== undefined) {
+    if (isLine(raw.startLine)) ref.startLine = raw.startLine as number;
+    else errors.push(`${label}.startLine must be a positive integer`);
+  }
+  if (raw.endLine !== undefined) {
+    if (!isLine(raw.endLine) || ref.startLine === undefined || (raw.endLine as number) < ref.startLine) {
+      errors.push(`${label}.endLine must be a line number at or after startLine`);
+    } else {
+      ref.endLine = raw.endLine as number;
+    }
+  }
+  if (typeof raw.note === "string" && raw.note.trim()) ref.note = raw.note.trim();
+  return ref;
+}
+
+function taskSummary(payload: { taskId: string; plan?: string; title?: string }): string {
+  return `${payload.taskId}${payload.plan ? ` in plan ${payload.plan}` : ""}${payload.title ? `: ${payload.title}` : ""}`;
+}
+
+/** "src/a.ts, src/b.ts (+12 -3)" from the diff's file headers and changed lines. */
+function diffSummary(diff: string): string {
+  const files: string[] = [];
+  let added = 0;
+  let removed = 0;
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("+++ ")) {
+      const file = line.slice(4).replace(/^b\//, "").split("\t")[0];
+      if (file !== "/dev/null") files.push(file);
+    } else if (line.startsWith("--- ")) {
+      continue;
+    } else if (line.startsWith("+")) {
+      added++;
+    } else if (line.startsWith("-")) {
+      removed++;
+    }
+  }
+  return `${files.length > 0 ? files.join(", ") + " " : ""}(+${added} -${removed})`;
+}
+
+/** A fenced code block whose fence can't be closed early by backticks in the body. */
+function fence(lang: string, body: string): string {
+  const longest = Math.max(2, ...(body.match(/`+/g) ?? []).map(run => run.length));
+  const marks = "`".repeat(longest + 1);
+  return `${marks}${lang}\n${body}\n${marks}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
@@ -0,0 +1,155 @@
+/**
+ * Pi Messenger - Message Log
+ *
+ * Append-only JSONL log of every message sent in the mesh, stored next to the
+ * feed at ~/.pi/agent/messenger/messages.jsonl. Inbox files are deleted once
+ * delivered; this log is what survives restarts. It is pruned to
+ * `messageLogRetention` entries when an agent joins.
+ */
+
+import * as fs from "node:fs";
+import { join } from "node:path";
+import { MAX_CHAT_HISTORY, type AgentMailMessage, type Dirs, type MessengerState } from "./lib.js";
+
+export interface MessageLogFilter {
+  participant?: string;          // Only messages sent or received by this agent
+  peer?: string;                 // ...and exchanged with this agent
+  since?: number;                // Epoch ms, inclusive
+  until?: number;                // Epoch ms, inclusive
+  query?: string;                // Case-insensitive substring of the text
+  limit?: number;                // Newest N matches
+}
+
+function messageLogPath(dirs: Dirs): string {
+  return join(dirs.base, "messages.jsonl");
+}
+
+export function appendMessageLog(dirs: Dirs, msg: AgentMailMessage): void {
+  try {
+    if (!fs.existsSync(dirs.base)) {
+      fs.mkdirSync(dirs.base, { recursive: true });
+    }
+    fs.appendFileSync(messageLogPath(dirs), JSON.stringify(msg) + "\n");
+  } catch {
+    // Best effort
+  }
+}
+
+/**
+ * Matching messages, oldest first. The log is read from its end, so a
+ * `limit` only reads as far back as it needs. Channel messages are logged
+ * once per member under one ID; each ID is returned once.
+ */
+export function readMessageLog(dirs: Dirs, filter: MessageLogFilter = {}): AgentMailMessage[] {
+  const query = filter.query?.toLowerCase();
+  const seen = new Set<string>();
+  const matches: AgentMailMessage[] = [];
+
+  scanLinesNewestFirst(messageLogPath(dirs), line => {
+    if (!line.trim()) return true;
+    let msg: AgentMailMessage;
+    try {
+      msg = JSON.parse(line);
+    } catch {
+      return true; // Skip malformed lines
+    }
+
+    if (filter.participant && msg.from !== filter.participant && msg.to !== filter.participant) return true;
+    if (filter.peer && msg.from !== filter.peer && msg.to !== filter.peer) return true;
+    const ts = new Date(msg.timestamp).getTime();
+    if (filter.since !== undefined && ts < filter.since) return true;
+    if (filter.until !== undefined && ts > filter.until) return true;
+    if (query && !msg.text.toLowerCase().includes(query)) return true;
+    if (seen.has(msg.id)) return true;
+    seen.add(msg.id);
+    matches.push(msg);
+    return filter.limit === undefined || matches.length < filter.limit;
+  });
+
+  return matches.reverse();
+}
+
+/** Keep only the newest `maxMessages` entries, like pruneFeed. */
+export function pruneMessageLog(dirs: Dirs, maxMessages: number): void {
+  const p = messageLogPath(dirs);
+  if (!fs.existsSync(p)) return;
+
+  try {
+    const content = fs.readFileSync(p, "utf-8").trim();
+    if (!content) return;
+    const lines = content.split("\n");
+    if (lines.length <= maxMessages) return;
+    fs.writeFileSync(p, lines.slice(-maxMessages).join("\n") + "\n");
+  } catch {
+    // Best effort
+  }
+}
+
+const SCAN_CHUNK_BYTES = 64 * 1024;
+
+/** Call `visit` with each line of the file, last line first, until it returns false. */
+function scanLinesNewestFirst(p: string, visit: (line: string) => boolean): void {
+  let fd: number;
+  try {
+    fd = fs.openSync(p, "r");
+  } catch {
+    return;
+  }
+
+  try {
+    let pos = fs.fstatSync(fd).size;
+    let carry = Buffer.alloc(0);   // Start of the line cut off by the previous chunk
+    while (pos > 0) {
+      const size = Math.min(SCAN_CHUNK_BYTES, pos);
+      pos -= size;
+      const chunk = Buffer.alloc(size);
+      fs.readSync(fd, chunk, 0, size, pos);
+      const data = Buffer.concat([chunk, carry]);
+
+      let end = data.length;
+      let newline = data.lastIndexOf(10, end - 1);
+      while (newline !== -1) {
+        if (!visit(data.toString("utf-8", newline + 1, end))) return;
+        end = newline;
+        newline = end > 0 ? data.lastIndexOf(10, end - 1) : -1;
+      }
+      carry = data.subarray(0, end);
+    }
+    if (carry.length > 0) visit(carry.toString("utf-8"));
+  } catch {
+    // Best effort
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// Enough for a full DM tab with several peers, without reading the whole log
+const BACKFILL_LIMIT = MAX_CHAT_HISTORY * 10;
+
+/**
+ * Refill the per-peer DM history from the log, e.g. after a restart.
+ * Returns the number of messages added.
+ */
+export function backfillChatHistory(state: MessengerState, dirs: Dirs): number {
+  let added = 0;
+  const byPeer = new Map<string, AgentMailMessage[]>();
+  for (const msg of readMessageLog(dirs, { participant: state.agentName, limit: BACKFILL_LIMIT })) {
+    const peer = msg.from === state.agentName ? msg.to : msg.from;
+    if (peer === state.agentName || msg.channel) continue;
+    const list = byPeer.get(peer) ?? [];
+    list.push(msg);
+    byPeer.set(peer, list);
+  }
+
+  for (const [peer, logged] of byPeer) {
+    const history = state.chatHistory.get(peer) ?? [];
+    const known = new Set(history.map(m => m.id));
+    const missing = logged.filter(m => !known.has(m.id));
+    if (missing.length === 0) continue;
+    added += missing.length;
+    const merged = [...history, ...missing].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    state.chatHistory.set(peer, merged.slice(-MAX_CHAT_HISTORY));
+  }
+
+  return added;
+}
@@ -9,6 +9,11 @@ import type { Theme } from "@mariozechner/pi-coding-agent";
 import {
   MAX_CHAT_HISTORY,
   formatRelativeTime,
+  receiptTicks,
+  isChannelName,
+  resolveDueTime,
+  formatTimeUntil,
+  type ScheduledMessage,
   coloredAgentName,
   stripAnsiCodes,
   extractFolder,
@@ -19,10 +24,18 @@ import {
   STATUS_INDICATORS,
   buildSelfRegistration,
   agentHasTask,
+  formatReservation,
+  describeReservation,
+  RESERVATION_MODE_ICONS,
   type MessengerState,
   type Dirs,
   type AgentMailMessage,
   type AgentRegistration,
+  type MessageThread,
+  groupThreads,
+  shortMessageId,
+  payloadSummary,
+  payloadLines,
 } from "./lib.js";
 import * as store from "./store.js";
 import * as crewStore from "./crew/store.js";
@@ -32,13 +45,22 @@ import {
   renderCrewStatusBar,
   createCrewViewState,
   navigateTask,
+  cyclePlan,
+  getViewedPlan,
   type CrewViewState,
 } from "./crew-overlay.js";
 import { hasLiveWorkers, onLiveWorkersChanged } from "./crew/live-progress.js";
+import type { Task } from "./crew/types.js";
 import { loadConfig } from "./config.js";
+import { backfillChatHistory } from "./message-log.js";
 
 const AGENTS_TAB = "[agents]";
 const CREW_TAB = "[crew]";
+const MAX_PAYLOAD_LINES = 20;
+
+type MessageItem =
+  | { kind: "message"; msg: AgentMailMessage; depth: number; thread?: MessageThread }
+  | { kind: "collapsed"; thread: MessageThread };
 
 export class MessengerOverlay implements Component, Focusable {
   readonly width = 80;
@@ -56,6 +78,9 @@ export class MessengerOverlay implements Component, Focusable {
   private progressTimer: ReturnType<typeof setInterval> | null = null;
   private progressUnsubscribe: (() => void) | null = null;
   private renderCache: string[] | null = null;
+  private collapsedThreads = new Set<string>();
+  private expandedPayloads = new Set<string>();  // Message IDs whose attachment is shown in full
+  private notice: string | null = null;  // Shown in place of the input placeholder until the next key
 
   constructor(
     private tui: TUI,
@@ -67,6 +92,7 @@ export class MessengerOverlay implements Component, Focusable {
     this.cwd = process.cwd();
     const cfg = loadConfig(this.cwd);
     this.stuckThresholdMs = cfg.stuckThreshold * 1000;
+    backfillChatHistory(state, dirs);
     const agents = this.getAgentsSorted();
     const withUnread = agents.find(a => (state.unreadCounts.get(a.name) ?? 0) > 0);
     this.selectedAgent = withUnread?.name ?? AGENTS_TAB;
@@ -100,7 +126,11 @@ export class MessengerOverlay implements Component, Focusable {
   }
 
   private hasPlan(): boolean {
-    return crewStore.hasPlan(this.cwd);
+    return crewStore.listPlans(this.cwd).length > 0;
+  }
+
+  private getCrewTasks(): Task[] {
+    return crewStore.getTasks(this.cwd, getViewedPlan(this.cwd, this.crewViewState));
   }
 
   /** Clear render cache and request a re-render. Use this instead of tui.requestRender() for internal state changes. */
@@ -116,9 +146,66 @@ export class MessengerOverlay implements Component, Focusable {
     if (this.selectedAgent === AGENTS_TAB || this.selectedAgent === CREW_TAB) {
       return [];
     }
+    if (isChannelName(this.selectedAgent)) {
+      return this.state.channelHistory.get(this.selectedAgent) ?? [];
+    }
     return this.state.chatHistory.get(this.selectedAgent) ?? [];
   }
 
+  /**
+   * What the message pane scrolls through. DM tabs group messages into
+   * threads (replies under their parent); a collapsed thread is one item.
+   */
+  private getMessageItems(): MessageItem[] {
+    const messages = this.getMessages();
+    if (this.selectedAgent === null || isChannelName(this.selectedAgent)) {
+      return messages.map(msg => ({ kind: "message", msg, depth: 0 }));
+    }
+    const items: MessageItem[] = [];
+    for (const thread of groupThreads(messages)) {
+      if (thread.messages.length > 1 && this.collapsedThreads.has(thread.id)) {
+        items.push({ kind: "collapsed", thread });
+        continue;
+      }
+      thread.messages.forEach((msg, i) => {
+        items.push({ kind: "message", msg, depth: thread.depths[i], thread: i === 0 && thread.messages.length > 1 ? thread : undefined });
+      });
+    }
+    return items;
+  }
+
+  /** Collapse or expand the thread of the bottom-most visible message. */
+  private toggleThreadAtCursor(): void {
+    const items = this.getMessageItems();
+    const item = items[items.length - 1 - this.scrollPosition];
+    if (!item) return;
+
+    const threadId = item.kind === "collapsed"
+      ? item.thread.id
+      : groupThreads(this.getMessages()).find(t => t.messages.length > 1 && t.messages.includes(item.msg))?.id;
+    if (!threadId) return;
+
+    if (this.collapsedThreads.has(threadId)) this.collapsedThreads.delete(threadId);
+    else this.collapsedThreads.add(threadId);
+
+    // Keep the toggled thread at the bottom of the view
+    const updated = this.getMessageItems();
+    const idx = updated.findIndex(i => i.kind === "collapsed" ? i.thread.id === threadId : i.thread?.id === threadId);
+    if (idx !== -1) this.scrollPosition = Math.max(0, updated.length - 1 - idx);
+  }
+
+  /** Expand or collapse the attachment of the bottom-most message (from the scroll position up) that has one. */
+  private togglePayloadAtCursor(): void {
+    const items = this.getMessageItems();
+    for (let i = items.length - 1 - this.scrollPosition; i >= 0; i--) {
+      const item = items[i];
+      if (item.kind !== "message" || !item.msg.payload) continue;
+      if (this.expandedPayloads.has(item.msg.id)) this.expandedPayloads.delete(item.msg.id);
+      else this.expandedPayloads.add(item.msg.id);
+      return;
+    }
+  }
+
   private selectTab(agentName: string | null): void {
     this.selectedAgent = agentName;
     if (agentName && agentName !== AGENTS_TAB && agentName !== CREW_TAB) {
@@ -152,13 +239,17 @@ export class MessengerOverlay implements Component, Focusable {
   }
 
   private scroll(delta: number): void {
-    const messages = this.getMessages();
-    const maxScroll = Math.max(0, messages.length - 1);
+    const items = this.getMessageItems();
+    const maxScroll = Math.max(0, items.length - 1);
     this.scrollPosition = Math.max(0, Math.min(maxScroll, this.scrollPosition + delta));
   }
 
   handleInput(data: string): void {
     const agents = this.getAgentsSorted();
+    if (this.notice) {
+      this.notice = null;
+      this.renderCache = null;
+    }
 
     // Allow escape always
     if (matchesKey(data, "escape")) {
@@ -187,6 +278,29 @@ export class MessengerOverlay implements Component, Focusable {
       // Fall through to process current data
     }
 
+    // Crew tab: "p" cycles through named plans
+    if (this.selectedAgent === CREW_TAB && data === "p") {
+      cyclePlan(this.crewViewState, this.cwd, 1);
+      this.dirtyRender();
+      return;
+    }
+
+    // DM tabs: Ctrl+T collapses/expands the thread at the bottom of the view
+    if (matchesKey(data, "ctrl+t")) {
+      if (this.selectedAgent !== null && this.selectedAgent !== AGENTS_TAB && this.selectedAgent !== CREW_TAB && !isChannelName(this.selectedAgent)) {
+        this.toggleThreadAtCursor();
+        this.dirtyRender();
+      }
+      return;
+    }
+
+    // Message tabs: Ctrl+O expands/collapses the nearest attachment
+    if (matchesKey(data, "ctrl+o")) {
+      this.togglePayloadAtCursor();
+      this.dirtyRender();
+      return;
+    }
+
     // Intercept backslash for \Enter pattern
     if (data === "\\") {
       this.pendingBackslash = true;
@@ -236,7 +350,7 @@ export class MessengerOverlay implements Component, Focusable {
     if (matchesKey(data, "up")) {
       if (this.selectedAgent === CREW_TAB) {
         // Navigate tasks in crew view
-        const tasks = crewStore.getTasks(this.cwd);
+        const tasks = this.getCrewTasks();
         navigateTask(this.crewViewState, -1, tasks.length);
       } else {
         this.scroll(1);
@@ -248,7 +362,7 @@ export class MessengerOverlay implements Component, Focusable {
     if (matchesKey(data, "down")) {
       if (this.selectedAgent === CREW_TAB) {
         // Navigate tasks in crew view
-        const tasks = crewStore.getTasks(this.cwd);
+        const tasks = this.getCrewTasks();
         navigateTask(this.crewViewState, 1, tasks.length);
       } else {
         this.scroll(-1);
@@ -264,8 +378,7 @@ export class MessengerOverlay implements Component, Focusable {
       } else if (this.inputText.length > 0) {
         this.cursorPos = 0;
       } else {
-        const messages = this.getMessages();
-        this.scrollPosition = Math.max(0, messages.length - 1);
+        this.scrollPosition = Math.max(0, this.getMessageItems().length - 1);
       }
       this.dirtyRender();
       return;
@@ -273,7 +386,7 @@ export class MessengerOverlay implements Component, Focusable {
 
     if (matchesKey(data, "end")) {
       if (this.selectedAgent === CREW_TAB) {
-        const tasks = crewStore.getTasks(this.cwd);
+        const tasks = this.getCrewTasks();
         this.crewViewState.selectedTaskIndex = Math.max(0, tasks.length - 1);
       } else if (this.inputText.length > 0) {
         this.cursorPos = this.inputText.length;
@@ -327,12 +440,13 @@ export class MessengerOverlay implements Component, Focusable {
   }
 
   private cycleTab(direction: number, agents: AgentRegistration[]): void {
-    // Build tab list: Agents, Crew (if plan exists), individual agents, All
+    // Build tab list: Agents, Crew (if plan exists), individual agents, joined channels, All
     const tabNames: (string | null)[] = [AGENTS_TAB];
     if (this.hasPlan()) {
       tabNames.push(CREW_TAB);
     }
     tabNames.push(...agents.map(a => a.name));
+    tabNames.push(...this.state.channels);
     tabNames.push(null); // "All" broadcast tab
 
     const currentIdx = this.selectedAgent === null
@@ -347,6 +461,13 @@ export class MessengerOverlay implements Component, Focusable {
     let text = this.inputText.trim();
     if (!text) return;
 
+    // "/in 20m ..." or "/at 17:00 ...": schedule instead of sending now
+    const schedule = text.match(/^\/(in|at)\s+(\S+)\s+([\s\S]+)$/);
+    if (schedule) {
+      this.scheduleMessage(schedule[1] === "in" ? { delay: schedule[2] } : { at: schedule[2] }, schedule[3].trim(), agents);
+      return;
+    }
+
     let targetAgent: string | null = null;
     let isBroadcast = false;
 
@@ -393,6 +514,17 @@ export class MessengerOverlay implements Component, Focusable {
       this.cursorPos = 0;
       this.scrollPosition = 0;
       this.dirtyRender();
+    } else if (!targetAgent && isChannelName(this.selectedAgent)) {
+      const channel = this.selectedAgent;
+      const { recipients } = store.sendChannelMessage(this.state, this.dirs, channel, text);
+      if (recipients.length > 0) {
+        const preview = text.length > 60 ? text.slice(0, 57) + "..." : text;
+        logFeedEvent(this.dirs, this.state.agentName, "message", channel, `\u2192 ${channel}: "${preview}"`);
+      }
+      this.inputText = "";
+      this.cursorPos = 0;
+      this.scrollPosition = 0;
+      this.dirtyRender();
     } else {
       const recipient = targetAgent ?? this.selectedAgent;
       if (!recipient || recipient === AGENTS_TAB || recipient === CREW_TAB) return;
@@ -418,6 +550,46 @@ export class MessengerOverlay implements Component, Focusable {
     }
   }
 
+  private scheduleMessage(when: { at?: string; delay?: string }, text: string, agents: AgentRegistration[]): void {
+    // From a channel or the Crew tab, only an explicit @name or @all has a target
+    let target: string | null | undefined = isChannelName(this.selectedAgent) || this.selectedAgent === CREW_TAB
+      ? undefined
+      : this.selectedAgent;
+    if (text.startsWith("@all ")) {
+      target = null;
+      text = text.slice(5).trim();
+    } else if (text.startsWith("@")) {
+      const spaceIdx = text.indexOf(" ");
+      const name = spaceIdx > 1 ? text.slice(1, spaceIdx) : "";
+      if (!agents.some(a => a.name === name)) return;
+      target = name;
+      text = text.slice(spaceIdx + 1).trim();
+    }
+    if (target === undefined || !text) return;
+
+    const now = Date.now();
+    const dueAt = resolveDueTime(when.at, when.delay, now);
+    if (dueAt === undefined || dueAt <= now) return;
+
+    const broadcast = target === null || target === AGENTS_TAB;
+    const entry: ScheduledMessage = {
+      id: randomUUID(),
+      from: this.state.agentName,
+      to: target && !broadcast ? [target] : [],
+      ...(broadcast ? { broadcast: true } : {}),
+      text,
+      dueAt: new Date(dueAt).toISOString(),
+      createdAt: new Date(now).toISOString(),
+    };
+    this.inputText = "";
+    this.cursorPos = 0;
+    store.scheduleMessage(this.dirs, entry).then(() => {
+      this.notice = `\u23F0 Scheduled for ${broadcast ? "all agents" : target} ${formatTimeUntil(entry.dueAt)}`;
+      this.dirtyRender();
+    }).catch(() => {});
+    this.dirtyRender();
+  }
+
   render(_width: number): string[] {
     // Return cached render if nothing has changed (avoids redundant work from external requestRender calls)
     if (this.renderCache) return this.renderCache;
@@ -427,11 +599,14 @@ export class MessengerOverlay implements Component, Focusable {
     const innerW = w - 2;
     const agents = this.getAgentsSorted();
 
-    // Handle agent death - don't reset if we're on a meta tab (AGENTS_TAB, CREW_TAB)
+    // Handle agent death (or leaving a channel) - don't reset if we're on a meta tab (AGENTS_TAB, CREW_TAB)
+    const tabGone = isChannelName(this.selectedAgent)
+      ? !this.state.channels.includes(this.selectedAgent)
+      : !agents.find(a => a.name === this.selectedAgent);
     if (this.selectedAgent && 
         this.selectedAgent !== AGENTS_TAB && 
         this.selectedAgent !== CREW_TAB && 
-        !agents.find(a => a.name === this.selectedAgent)) {
+        tabGone) {
       this.selectedAgent = agents[0]?.name ?? (this.hasPlan() ? CREW_TAB : AGENTS_TAB);
       this.scrollPosition = 0;
     }
@@ -517,8 +692,8 @@ export class MessengerOverlay implements Component, Focusable {
       let crewTab = isCrewSelected ? "▸ " : "";
       crewTab += this.theme.fg("accent", "Crew");
       
-      // Show task progress
-      const plan = crewStore.getPlan(this.cwd);
+      // Show task progress for the viewed plan
+      const plan = crewStore.getPlan(this.cwd, getViewedPlan(this.cwd, this.crewViewState));
       if (plan && plan.task_count > 0) {
         crewTab += ` (${plan.completed_count}/${plan.task_count})`;
       }
@@ -553,6 +728,17 @@ export class MessengerOverlay implements Component, Focusable {
       parts.push(tab);
     }
 
+    for (const channel of this.state.channels) {
+      const isSelected = this.selectedAgent === channel;
+      const unread = this.state.unreadCounts.get(channel) ?? 0;
+      let tab = isSelected ? "▸ " : "";
+      tab += this.theme.fg("accent", channel);
+      if (unread > 0 && !isSelected) {
+        tab += ` (${unread})`;
+      }
+      parts.push(tab);
+    }
+
     const isAllSelected = this.selectedAgent === null;
     let allTab = isAllSelected ? "▸ " : "";
     allTab += this.theme.fg("accent", "+ All");
@@ -577,15 +763,24 @@ export class MessengerOverlay implements Component, Focusable {
       return this.renderNoMessages(width, height, agents);
     }
 
+    const items = this.getMessageItems();
     const maxVisibleMessages = Math.max(1, Math.floor(height / 3));
-    const endIdx = messages.length - this.scrollPosition;
+    const endIdx = items.length - this.scrollPosition;
     const startIdx = Math.max(0, endIdx - maxVisibleMessages);
-    const visibleMessages = messages.slice(startIdx, endIdx);
+    const visibleItems = items.slice(startIdx, endIdx);
 
     const allRenderedLines: string[] = [];
-    for (const msg of visibleMessages) {
-      const msgLines = this.renderMessageBox(msg, width - 2);
-      allRenderedLines.push(...msgLines);
+    for (const item of visibleItems) {
+      if (item.kind === "collapsed") {
+        allRenderedLines.push(...this.renderCollapsedThread(item.thread, width - 2));
+        continue;
+      }
+      if (item.thread) {
+        allRenderedLines.push(this.theme.fg("dim", `\u25BE thread ${shortMessageId(item.thread.id)} \u00B7 ${item.thread.messages.length} messages`));
+      }
+      const indent = "  ".repeat(Math.min(item.depth, 3));
+      const msgLines = this.renderMessageBox(item.msg, width - 2 - indent.length);
+      allRenderedLines.push(...msgLines.map(line => line ? indent + line : line));
     }
 
     if (allRenderedLines.length > height) {
@@ -605,7 +800,7 @@ export class MessengerOverlay implements Component, Focusable {
     const renderCard = (a: AgentRegistration, isSelf: boolean): void => {
       const computed = computeStatus(
         a.activity?.lastActivityAt ?? a.startedAt,
-        agentHasTask(a.name, allClaims, crewStore.getTasks(a.cwd)),
+        agentHasTask(a.name, allClaims, crewStore.getTasksAcrossPlans(a.cwd)),
         (a.reservations?.length ?? 0) > 0,
         this.stuckThresholdMs
       );
@@ -647,7 +842,7 @@ export class MessengerOverlay implements Component, Focusable {
       const tokens = a.session?.tokens ?? 0;
       detailParts.push(tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`);
       if (a.reservations && a.reservations.length > 0) {
-        detailParts.push(`\u{1F4C1} ${a.reservations.map(r => r.pattern).join(", ")}`);
+        detailParts.push(a.reservations.map(describeReservation).join(", "));
       }
       if (a.statusMessage) {
         detailParts.push(a.statusMessage);
@@ -692,6 +887,15 @@ export class MessengerOverlay implements Component, Focusable {
       for (let i = 0; i < padTop; i++) lines.push("");
       const pad = " ".repeat(Math.max(0, Math.floor((width - visibleWidth(msg)) / 2)));
       lines.push(pad + this.theme.fg("dim", msg));
+    } else if (isChannelName(this.selectedAgent)) {
+      const members = store.getChannelMembers(this.state, this.dirs, this.selectedAgent).map(a => a.name);
+      const msg1 = `No messages in ${this.selectedAgent}`;
+      const msg2 = members.length > 0 ? `Members: ${members.join(", ")}` : "No other members yet";
+      const padTop = Math.floor((height - 3) / 2);
+      for (let i = 0; i < padTop; i++) lines.push("");
+      lines.push(" ".repeat(Math.max(0, Math.floor((width - visibleWidth(msg1)) / 2))) + msg1);
+      lines.push("");
+      lines.push(" ".repeat(Math.max(0, Math.floor((width - visibleWidth(msg2)) / 2))) + this.theme.fg("dim", msg2));
     } else {
       const agent = agents.find(a => a.name === this.selectedAgent);
       const msg1 = `No messages with ${this.selectedAgent}`;
@@ -707,7 +911,7 @@ export class MessengerOverlay implements Component, Focusable {
 
         if (agent.reservations && agent.reservations.length > 0) {
           for (const r of agent.reservations) {
-            details.push(`🔒 ${truncatePathLeft(r.pattern, 40)}`);
+            details.push(`${RESERVATION_MODE_ICONS[r.mode ?? "exclusive"]} ${truncatePathLeft(formatReservation(r), 40)}`);
           }
         }
       }
@@ -730,6 +934,14 @@ export class MessengerOverlay implements Component, Focusable {
     return lines;
   }
 
+  private renderCollapsedThread(thread: MessageThread, maxWidth: number): string[] {
+    const last = thread.messages[thread.messages.length - 1];
+    const sender = last.from === this.state.agentName ? "You" : stripAnsiCodes(last.from);
+    const preview = stripAnsiCodes(last.text).split("\n")[0];
+    const line = `\u25B8 thread ${shortMessageId(thread.id)} \u00B7 ${thread.messages.length} messages \u00B7 ${formatRelativeTime(last.timestamp)} \u00B7 ${sender}: ${preview}`;
+    return [this.theme.fg("dim", truncateToWidth(line, maxWidth)), ""];
+  }
+
   private renderMessageBox(msg: AgentMailMessage, maxWidth: number): string[] {
     const isOutgoing = msg.from === this.state.agentName;
     const senderLabel = isOutgoing
@@ -739,8 +951,10 @@ export class MessengerOverlay implements Component, Focusable {
       ? this.theme.fg("accent", senderLabel)
       : coloredAgentName(msg.from);
 
-    const timeStr = formatRelativeTime(msg.timestamp);
-    const time = this.theme.fg("dim", timeStr);
+    const ticks = isOutgoing ? receiptTicks(msg) : "";
+    const timeStr = formatRelativeTime(msg.timestamp) + (ticks ? ` ${ticks}` : "");
+    const time = this.theme.fg("dim", formatRelativeTime(msg.timestamp))
+      + (ticks ? " " + this.theme.fg(msg.readAt ? "accent" : "dim", ticks) : "");
     const safeText = stripAnsiCodes(msg.text);
 
     const boxWidth = Math.max(6, Math.min(maxWidth, 60));
@@ -757,9 +971,12 @@ export class MessengerOverlay implements Component, Focusable {
     const lines: string[] = [];
     lines.push(headerLeft + "─".repeat(dashCount) + headerRight);
 
-    for (const line of wrappedLines) {
-      const padRight = contentWidth - visibleWidth(line);
-      lines.push(`│ ${line}${" ".repeat(Math.max(0, padRight))} │`);
+    const boxLine = (line: string) => `│ ${line}${" ".repeat(Math.max(0, contentWidth - visibleWidth(line)))} │`;
+    lines.push(...wrappedLines.map(boxLine));
+
+    if (msg.payload) {
+      lines.push(`├${"─".repeat(Math.max(0, boxWidth - 2))}┤`);
+      lines.push(...this.renderPayload(msg, contentWidth).map(boxLine));
     }
 
     lines.push(`└${"─".repeat(Math.max(0, boxWidth - 2))}┘`);
@@ -768,6 +985,28 @@ export class MessengerOverlay implements Component, Focusable {
     return lines;
   }
 
+  /** The attachment's one-line summary, followed by its content once expanded with Ctrl+O. */
+  private renderPayload(msg: AgentMailMessage, width: number): string[] {
+    const payload = msg.payload!;
+    const expanded = this.expandedPayloads.has(msg.id);
+    const summary = `${expanded ? "\u25BE" : "\u25B8"} ${stripAnsiCodes(payloadSummary(payload))}`;
+    const rows = [this.theme.fg("dim", truncateToWidth(summary, width))];
+    if (!expanded) return rows;
+
+    const body = payloadLines(payload).map(line => stripAnsiCodes(line).replace(/\t/g, "  "));
+    for (const line of body.slice(0, MAX_PAYLOAD_LINES)) {
+      const text = truncateToWidth(line, width);
+      if (payload.kind === "diff" && line.startsWith("+") && !line.startsWith("+++")) rows.push(this.theme.fg("accent", text));
+      else if (payload.kind === "diff" && line.startsWith("-") && !line.startsWith("---")) rows.push(this.theme.fg("error", text));
+      else if (payload.kind === "diff" && line.startsWith("@@")) rows.push(this.theme.fg("dim", text));
+      else rows.push(text);
+    }
+    if (body.length > MAX_PAYLOAD_LINES) {
+      rows.push(this.theme.fg("dim", `\u2026 ${body.length - MAX_PAYLOAD_LINES} more lines`));
+    }
+    return rows;
+  }
+
   private wrapText(text: string, maxWidth: number): string[] {
     const result: string[] = [];
     const paragraphs = text.split("\n");
@@ -804,13 +1043,15 @@ export class MessengerOverlay implements Component, Focusable {
   private renderInputBar(width: number): string {
     // Crew tab has a status bar instead of input
     if (this.selectedAgent === CREW_TAB) {
-      return renderCrewStatusBar(this.theme, this.cwd, width);
+      return renderCrewStatusBar(this.theme, this.cwd, width, this.crewViewState);
     }
 
     const prompt = this.theme.fg("accent", "> ");
 
     let placeholder: string;
-    if (this.selectedAgent === AGENTS_TAB) {
+    if (this.notice) {
+      placeholder = this.notice;
+    } else if (this.selectedAgent === AGENTS_TAB) {
       placeholder = "@name msg or broadcast...";
     } else if (this.selectedAgent === null) {
       placeholder = "Broadcast to all agents...";
@@ -819,8 +1060,11 @@ export class MessengerOverlay implements Component, Focusable {
     }
 
     const hasNewlines = this.inputText.includes("\n");
-    const hint = this.theme.fg("dim", hasNewlines ? "[\\Enter ↵] [Enter ⏎]" : "[Tab] [Enter]");
-    const hintLen = visibleWidth(hasNewlines ? "[\\Enter ↵] [Enter ⏎]" : "[Tab] [Enter]");
+    const isDm = this.selectedAgent !== null && this.selectedAgent !== AGENTS_TAB && !isChannelName(this.selectedAgent);
+    const keys = ["[Tab]", ...(isDm ? ["[^T thread]"] : []), ...(this.getMessages().some(m => m.payload) ? ["[^O attachment]"] : []), "[Enter]"];
+    const hintText = hasNewlines ? "[\\Enter ↵] [Enter ⏎]" : keys.join(" ");
+    const hint = this.theme.fg("dim", hintText);
+    const hintLen = visibleWidth(hintText);
 
     // Marker for hardware cursor positioning (only when focused)
     const marker = this.focused ? CURSOR_MARKER : "";
@@ -0,0 +1,196 @@
+/**
+ * Pi Messenger - Relay Server
+ *
+ * A small relay that lets agents on different machines share one mesh. It
+ * holds registrations, inboxes and a feed in memory; each agent's relay sync
+ * (transport.ts) publishes its registration every few seconds, so a restarted
+ * relay refills itself. Inboxes live only in memory: messages still queued
+ * when the relay stops or restarts are lost.
+ *
+ * Run it with: npx tsx relay-server.ts [--port 7777] [--host 127.0.0.1]
+ * It listens on loopback by default. Messages from the relay reach agents as
+ * prompts, so it only binds another interface (e.g. --host 0.0.0.0) with
+ * PI_MESSENGER_RELAY_TOKEN set to require a bearer token from agents.
+ */
+
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { pathToFileURL } from "node:url";
+import { isMessageReceipt, type AgentMailMessage, type AgentRegistration } from "./lib.js";
+import type { FeedEvent } from "./feed.js";
+import type { InboxItem } from "./transport.js";
+
+const AGENT_TTL_MS = 30_000;     // Registrations not republished within this are dropped
+const FEED_RETENTION = 500;
+const MAX_INBOX_ITEMS = 500;     // Per agent; delivery fails once an agent stops taking its inbox
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface RelayServerOptions {
+  token?: string;
+  agentTtlMs?: number;
+}
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Routes:
+ *   GET /agents, PUT /agents/:name, DELETE /agents/:name
+ *   POST /inbox/:name (deliver), POST /inbox/:name/take[?ack=cursor]
+ *   POST /feed, GET /feed[?after=cursor]
+ *
+ * A take returns the inbox with a cursor but keeps the items until the next
+ * take acknowledges them, so a lost response doesn't lose messages.
+ */
+export function createRelayServer(options: RelayServerOptions = {}): Server {
+  const agentTtlMs = options.agentTtlMs ?? AGENT_TTL_MS;
+  const agents = new Map<string, { reg: AgentRegistration; seenAt: number }>();
+  const inboxes = new Map<string, Array<{ seq: number; item: InboxItem }>>();
+  const feed: Array<{ seq: number; event: FeedEvent }> = [];
+  let lastSeq = 0;
+  // Inbox cursors carry the relay's instance, so an ack from before a restart acknowledges nothing
+  const instance = randomUUID().slice(0, 8);
+  let lastItemSeq = 0;
+
+  function liveAgents(): AgentRegistration[] {
+    const now = Date.now();
+    for (const [name, entry] of agents) {
+      if (now - entry.seenAt > agentTtlMs) agents.delete(name);
+    }
+    return [...agents.values()].map(entry => entry.reg);
+  }
+
+  async function route(req: IncomingMessage, url: URL): Promise<unknown> {
+    const [resource, rawName, sub] = url.pathname.split("/").filter(Boolean);
+    const name = rawName === undefined ? undefined : decodeURIComponent(rawName);
+
+    if (resource === "agents" && name === undefined && req.method === "GET") {
+      return liveAgents();
+    }
+    if (resource === "agents" && name !== undefined && req.method === "PUT") {
+      const reg = await readJson(req) as AgentRegistration;
+      if (reg?.name !== name) throw new HttpError(400, "Registration name does not match the path");
+      agents.set(name, { reg, seenAt: Date.now() });
+      return undefined;
+    }
+    if (resource === "agents" && name !== undefined && req.method === "DELETE") {
+      agents.delete(name);
+      return undefined;
+    }
+
+    if (resource === "inbox" && name !== undefined && sub === undefined && req.method === "POST") {
+      const item = await readJson(req);
+      if (!isInboxItem(item)) throw new HttpError(400, "Expected a message or a receipt");
+      if (!liveAgents().some(reg => reg.name === name)) throw new HttpError(404, `No agent named ${name} on the relay`);
+      const queue = inboxes.get(name) ?? [];
+      if (queue.length >= MAX_INBOX_ITEMS) throw new HttpError(429, `Inbox of ${name} is full`);
+      queue.push({ seq: ++lastItemSeq, item });
+      inboxes.set(name, queue);
+      return undefined;
+    }
+    if (resource === "inbox" && name !== undefined && sub === "take" && req.method === "POST") {
+      const [ackInstance, ackSeq] = (url.searchParams.get("ack") ?? "").split(".");
+      const acked = ackInstance === instance ? Number(ackSeq) : 0;
+      const queue = (inboxes.get(name) ?? []).filter(entry => entry.seq > acked);
+      if (queue.length > 0) inboxes.set(name, queue);
+      else inboxes.delete(name);
+      const cursor = `${instance}.${queue.length > 0 ? queue[queue.length - 1].seq : acked}`;
+      return { items: queue.map(entry => entry.item), cursor };
+    }
+
+    if (resource === "feed" && name === undefined && req.method === "POST") {
+      const events = await readJson(req);
+      if (!Array.isArray(events)) throw new HttpError(400, "Expected an array of feed events");
+      for (const event of events as FeedEvent[]) feed.push({ seq: ++lastSeq, event });
+      if (feed.length > FEED_RETENTION) feed.splice(0, feed.length - FEED_RETENTION);
+      return undefined;
+    }
+    if (resource === "feed" && name === undefined && req.method === "GET") {
+      const after = url.searchParams.get("after");
+      if (after === null) return { events: [], cursor: String(lastSeq) };
+      // A cursor from before a relay restart starts over
+      const since = Number(after) <= lastSeq ? Number(after) : 0;
+      return { events: feed.filter(e => e.seq > since).map(e => e.event), cursor: String(lastSeq) };
+    }
+
+    throw new HttpError(404, `No route for ${req.method} ${url.pathname}`);
+  }
+
+  return createServer((req: IncomingMessage, res: ServerResponse) => {
+    if (options.token && !isAuthorized(req.headers.authorization, options.token)) {
+      send(res, 401, { error: "Unauthorized" });
+      return;
+    }
+    route(req, new URL(req.url ?? "/", "http://relay"))
+      .then(body => send(res, body === undefined ? 204 : 200, body))
+      .catch(err => send(res, err instanceof HttpError ? err.status : 500, { error: err instanceof Error ? err.message : String(err) }));
+  });
+}
+
+function isInboxItem(value: unknown): value is InboxItem {
+  if (isMessageReceipt(value)) {
+    return typeof value.messageId === "string" && typeof value.from === "string" && typeof value.to === "string";
+  }
+  const msg = value as Partial<AgentMailMessage> | null;
+  return typeof msg === "object" && msg !== null &&
+    typeof msg.id === "string" && typeof msg.from === "string" && typeof msg.to === "string" &&
+    typeof msg.text === "string" && typeof msg.timestamp === "string";
+}
+
+function isLoopback(host: string): boolean {
+  return host === "localhost" || host === "::1" || /^127\.\d+\.\d+\.\d+$/.test(host);
+}
+
+/** Compares in constant time, so response timing doesn't leak how much of the token matched. */
+function isAuthorized(header: string | undefined, token: string): boolean {
+  const given = Buffer.from(header ?? "");
+  const expected = Buffer.from(`Bearer ${token}`);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  if (status === 204) {
+    res.writeHead(204).end();
+    return;
+  }
+  res.writeHead(status, { "content-type": "application/json" }).end(JSON.stringify(body));
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Request body too large");
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+}
+
+// Started directly rather than imported
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const arg = (flag: string) => {
+    const i = process.argv.indexOf(flag);
+    return i === -1 ? undefined : process.argv[i + 1];
+  };
+  const port = Number(arg("--port") ?? 7777);
+  const host = arg("--host") ?? "127.0.0.1";
+  const token = process.env.PI_MESSENGER_RELAY_TOKEN;
+  if (!token && !isLoopback(host)) {
+    console.error(`Refusing to listen on ${host} without a token: set PI_MESSENGER_RELAY_TOKEN, or use --host 127.0.0.1.`);
+    process.exit(1);
+  }
+  createRelayServer({ token }).listen(port, host, () => {
+    console.log(`pi-messenger relay listening on http://${host}:${port}`);
+  });
+}
@@ -4,12 +4,21 @@
 
 import * as fs from "node:fs";
 import { randomUUID } from "node:crypto";
-import { join } from "node:path";
+import { dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
 import { execSync } from "node:child_process";
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
 import {
   type AgentRegistration,
   type AgentMailMessage,
+  type MessageReceipt,
+  type MessagePriority,
+  type MessagePayload,
+  type ScheduledMessage,
+  type ReceiptKind,
+  type FileReservation,
+  type ReservationAccess,
+  type ReservationWaiter,
+  type PendingReservationRequest,
   type ReservationConflict,
   type MessengerState,
   type Dirs,
@@ -21,12 +30,26 @@ import {
   type AllCompletions,
   type NameThemeConfig,
   MAX_WATCHER_RETRIES,
+  MAX_CHAT_HISTORY,
   isProcessAlive,
+  isAgentAlive,
+  isOwnRegistration,
   generateMemorableName,
   isValidAgentName,
-  pathMatchesReservation,
+  matchesReservation,
+  commandTargetHitsReservation,
+  formatReservation,
+  isReservationExpired,
+  reservationBlocks,
+  isGlobPattern,
+  findMessage,
+  collectMessages,
+  isMessageReceipt,
+  validatePayload,
 } from "./lib.js";
 import { logFeedEvent } from "./feed.js";
+import { appendMessageLog } from "./message-log.js";
+import { transportFor, type InboxItem } from "./transport.js";
 
 // =============================================================================
 // Agents Cache (Fix 1: Reduce disk I/O)
@@ -50,13 +73,19 @@ export function invalidateAgentsCache(): void {
 // Message Processing Guard (Fix 3: Prevent race conditions)
 // =============================================================================
 
+/** Shows an incoming message. Returning false means it was held back (lower priority) and isn't seen yet. */
+export type DeliverFn = (msg: AgentMailMessage) => boolean | void;
+
 let isProcessingMessages = false;
 let pendingProcessArgs: {
   state: MessengerState;
   dirs: Dirs;
-  deliverFn: (msg: AgentMailMessage) => void;
+  deliverFn: DeliverFn;
 } | null = null;
 
+// Callbacks of ask calls waiting for an answer, keyed by question message ID
+const replyWaiters = new Map<string, (msg: AgentMailMessage | null) => void>();
+
 // =============================================================================
 // File System Helpers
 // =============================================================================
@@ -158,10 +187,13 @@ export function getRegistrationPath(state: MessengerState, dirs: Dirs): string {
 }
 
 export function getActiveAgents(state: MessengerState, dirs: Dirs): AgentRegistration[] {
+  return listActiveAgents(dirs, state.agentName, state.scopeToFolder);
+}
+
+/** Live agents other than `excludeName` (pass "" for everyone), only those in our cwd with `scopeToFolder`. */
+function listActiveAgents(dirs: Dirs, excludeName: string, scopeToFolder: boolean): AgentRegistration[] {
   const now = Date.now();
-  const excludeName = state.agentName;
   const myCwd = process.cwd();
-  const scopeToFolder = state.scopeToFolder;
 
   // Cache key includes scopeToFolder and cwd for proper cache invalidation
   const cacheKey = scopeToFolder ? `${excludeName}:${myCwd}` : excludeName;
@@ -185,51 +217,31 @@ export function getActiveAgents(state: MessengerState, dirs: Dirs): AgentRegistr
     return filtered;
   }
 
-  // Read from disk
+  const transport = transportFor(dirs);
   const allAgents: AgentRegistration[] = [];
 
-  if (!fs.existsSync(dirs.registry)) {
-    agentsCache = { allAgents, filtered: new Map(), timestamp: now, registryPath: dirs.registry };
-    return allAgents;
-  }
-
-  let files: string[];
-  try {
-    files = fs.readdirSync(dirs.registry);
-  } catch {
-    return allAgents;
-  }
-
-  for (const file of files) {
-    if (!file.endsWith(".json")) continue;
-
-    try {
-      const content = fs.readFileSync(join(dirs.registry, file), "utf-8");
-      const reg: AgentRegistration = JSON.parse(content);
-
-      if (!isProcessAlive(reg.pid)) {
-        try {
-          logFeedEvent(dirs, reg.name, "leave");
-          fs.unlinkSync(join(dirs.registry, file));
-        } catch {
-          // Ignore cleanup errors
-        }
-        continue;
+  for (const reg of transport.listRegistrations()) {
+    if (!isAgentAlive(reg)) {
+      try {
+        // A remote agent's leave event arrives through the relay
+        if (reg.host === undefined) logFeedEvent(dirs, reg.name, "leave");
+        transport.publishRegistration(reg.name, null);
+      } catch {
+        // Ignore cleanup errors
       }
+      continue;
+    }
 
-      if (reg.session === undefined) {
-        reg.session = { toolCalls: 0, tokens: 0, filesModified: [] };
-      }
-      if (reg.activity === undefined) {
-        reg.activity = { lastActivityAt: reg.startedAt };
-      }
-      if (reg.isHuman === undefined) {
-        reg.isHuman = false;
-      }
-      allAgents.push(reg);
-    } catch {
-      // Ignore malformed registrations
+    if (reg.session === undefined) {
+      reg.session = { toolCalls: 0, tokens: 0, filesModified: [] };
+    }
+    if (reg.activity === undefined) {
+      reg.activity = { lastActivityAt: reg.startedAt };
     }
+    if (reg.isHuman === undefined) {
+      reg.isHuman = false;
+    }
+    allAgents.push(reg);
   }
 
   // Cache the full list and create filtered result
@@ -246,12 +258,11 @@ export function getActiveAgents(state: MessengerState, dirs: Dirs): AgentRegistr
 }
 
 export function findAvailableName(baseName: string, dirs: Dirs): string | null {
-  const basePath = join(dirs.registry, `${baseName}.json`);
-  if (!fs.existsSync(basePath)) return baseName;
+  const transport = transportFor(dirs);
 
   try {
-    const existing: AgentRegistration = JSON.parse(fs.readFileSync(basePath, "utf-8"));
-    if (!isProcessAlive(existing.pid) || existing.pid === process.pid) {
+    const existing = transport.readRegistration(baseName);
+    if (!existing || !isAgentAlive(existing) || isOwnRegistration(existing)) {
       return baseName;
     }
   } catch {
@@ -260,13 +271,10 @@ export function findAvailableName(baseName: string, dirs: Dirs): string | null {
 
   for (let i = 2; i <= 99; i++) {
     const altName = `${baseName}${i}`;
-    const altPath = join(dirs.registry, `${altName}.json`);
-
-    if (!fs.existsSync(altPath)) return altName;
 
     try {
-      const altReg: AgentRegistration = JSON.parse(fs.readFileSync(altPath, "utf-8"));
-      if (!isProcessAlive(altReg.pid)) return altName;
+      const altReg = transport.readRegistration(altName);
+      if (!altReg || !isAgentAlive(altReg)) return altName;
     } catch {
       return altName;
     }
@@ -278,7 +286,7 @@ export function findAvailableName(baseName: string, dirs: Dirs): string | null {
 export function register(state: MessengerState, dirs: Dirs, ctx: ExtensionContext, nameTheme?: NameThemeConfig): boolean {
   if (state.registered) return true;
 
-  ensureDirSync(dirs.registry);
+  const transport = transportFor(dirs);
 
   if (!state.agentName) {
     state.agentName = generateMemorableName(nameTheme);
@@ -296,19 +304,16 @@ export function register(state: MessengerState, dirs: Dirs, ctx: ExtensionContex
         }
         return false;
       }
-      const regPath = join(dirs.registry, `${state.agentName}.json`);
-      if (fs.existsSync(regPath)) {
-        try {
-          const existing: AgentRegistration = JSON.parse(fs.readFileSync(regPath, "utf-8"));
-          if (isProcessAlive(existing.pid) && existing.pid !== process.pid) {
-            if (ctx.hasUI) {
-              ctx.ui.notify(`Agent name "${state.agentName}" already in use (PID ${existing.pid})`, "error");
-            }
-            return false;
+      try {
+        const existing = transport.readRegistration(state.agentName);
+        if (existing && isAgentAlive(existing) && !isOwnRegistration(existing)) {
+          if (ctx.hasUI) {
+            ctx.ui.notify(`Agent name "${state.agentName}" already in use (PID ${existing.pid})`, "error");
           }
-        } catch {
-          // Malformed, proceed to overwrite
+          return false;
         }
+      } catch {
+        // Malformed, proceed to overwrite
       }
     } else {
       const availableName = findAvailableName(state.agentName, dirs);
@@ -321,17 +326,6 @@ export function register(state: MessengerState, dirs: Dirs, ctx: ExtensionContex
       state.agentName = availableName;
     }
 
-    const regPath = getRegistrationPath(state, dirs);
-    if (fs.existsSync(regPath)) {
-      try {
-        fs.unlinkSync(regPath);
-      } catch {
-        // Ignore
-      }
-    }
-
-    ensureDirSync(getMyInbox(state, dirs));
-
     const gitBranch = getGitBranch(process.cwd());
     const now = new Date().toISOString();
     const registration: AgentRegistration = {
@@ -349,7 +343,7 @@ export function register(state: MessengerState, dirs: Dirs, ctx: ExtensionContex
     };
 
     try {
-      fs.writeFileSync(regPath, JSON.stringify(registration, null, 2));
+      transport.publishRegistration(state.agentName, registration);
     } catch (err) {
       if (ctx.hasUI) {
         const msg = err instanceof Error ? err.message : "unknown error";
@@ -361,8 +355,7 @@ export function register(state: MessengerState, dirs: Dirs, ctx: ExtensionContex
     let verified = false;
     let verifyError = false;
     try {
-      const written: AgentRegistration = JSON.parse(fs.readFileSync(regPath, "utf-8"));
-      verified = written.pid === process.pid;
+      verified = transport.readRegistration(state.agentName)?.pid === process.pid;
     } catch {
       verifyError = true;
     }
@@ -380,10 +373,8 @@ export function register(state: MessengerState, dirs: Dirs, ctx: ExtensionContex
     // (handles I/O error case where we wrote successfully but couldn't read back)
     if (verifyError) {
       try {
-        const checkContent = fs.readFileSync(regPath, "utf-8");
-        const checkReg: AgentRegistration = JSON.parse(checkContent);
-        if (checkReg.pid === process.pid) {
-          fs.unlinkSync(regPath);
+        if (transport.readRegistration(state.agentName)?.pid === process.pid) {
+          transport.publishRegistration(state.agentName, null);
         }
       } catch {
         // Best effort cleanup
@@ -410,15 +401,16 @@ export function register(state: MessengerState, dirs: Dirs, ctx: ExtensionContex
 export function updateRegistration(state: MessengerState, dirs: Dirs, ctx: ExtensionContext): void {
   if (!state.registered) return;
 
-  const regPath = getRegistrationPath(state, dirs);
-  if (!fs.existsSync(regPath)) return;
-
+  const transport = transportFor(dirs);
   try {
-    const reg: AgentRegistration = JSON.parse(fs.readFileSync(regPath, "utf-8"));
+    const reg = transport.readRegistration(state.agentName);
+    if (!reg) return;
     const currentModel = ctx.model?.id ?? reg.model;
     reg.model = currentModel;
     state.model = currentModel;
+    applyRevocations(state, reg);
     reg.reservations = state.reservations.length > 0 ? state.reservations : undefined;
+    reg.channels = state.channels.length > 0 ? state.channels : undefined;
     if (state.spec) {
       reg.spec = state.spec;
     } else {
@@ -427,7 +419,7 @@ export function updateRegistration(state: MessengerState, dirs: Dirs, ctx: Exten
     reg.session = { ...state.session };
     reg.activity = { ...state.activity };
     reg.statusMessage = state.statusMessage;
-    fs.writeFileSync(regPath, JSON.stringify(reg, null, 2));
+    transport.publishRegistration(state.agentName, reg);
   } catch {
     // Ignore errors
   }
@@ -436,33 +428,58 @@ export function updateRegistration(state: MessengerState, dirs: Dirs, ctx: Exten
 export function flushActivityToRegistry(state: MessengerState, dirs: Dirs, ctx: ExtensionContext): void {
   if (!state.registered) return;
 
-  const regPath = getRegistrationPath(state, dirs);
-  if (!fs.existsSync(regPath)) return;
-
+  const transport = transportFor(dirs);
   try {
-    const reg: AgentRegistration = JSON.parse(fs.readFileSync(regPath, "utf-8"));
+    const reg = transport.readRegistration(state.agentName);
+    if (!reg) return;
     const currentModel = ctx.model?.id ?? reg.model;
     reg.model = currentModel;
     state.model = currentModel;
+    if (applyRevocations(state, reg)) {
+      reg.reservations = state.reservations.length > 0 ? state.reservations : undefined;
+    }
     reg.session = { ...state.session };
     reg.activity = { ...state.activity };
     reg.statusMessage = state.statusMessage;
-    fs.writeFileSync(regPath, JSON.stringify(reg, null, 2));
+    transport.publishRegistration(state.agentName, reg);
   } catch {
     // Ignore errors
   }
 }
 
-export function unregister(state: MessengerState, dirs: Dirs): void {
+/**
+ * Apply reservation changes other agents made to our registration while we
+ * weren't writing it: reservations taken from us (granted request or steal)
+ * and ones handed to us from the wait queue. Returns true if there were any.
+ */
+function applyRevocations(state: MessengerState, reg: AgentRegistration): boolean {
+  const revoked = reg.revokedReservations ?? [];
+  const granted = reg.grantedReservations ?? [];
+  if (revoked.length === 0 && granted.length === 0) return false;
+  delete reg.revokedReservations;
+  delete reg.grantedReservations;
+
+  state.reservations = state.reservations.filter(r =>
+    !revoked.some(rev => rev.pattern === r.pattern && rev.at >= r.since)
+  );
+  for (const res of granted) {
+    state.reservations = state.reservations.filter(r => r.pattern !== res.pattern);
+    state.reservations.push(res);
+  }
+  return true;
+}
+
+export async function unregister(state: MessengerState, dirs: Dirs): Promise<void> {
   if (!state.registered) return;
 
   try {
-    fs.unlinkSync(getRegistrationPath(state, dirs));
+    transportFor(dirs).publishRegistration(state.agentName, null);
   } catch {
     // Ignore errors
   }
-  state.registered = false;
   invalidateAgentsCache();
+  state.registered = false;
+  if (state.reservations.length > 0) await processReservationQueue(state, dirs).catch(() => {});
 }
 
 export type RenameResult =
@@ -474,7 +491,7 @@ export function renameAgent(
   dirs: Dirs,
   ctx: ExtensionContext,
   newName: string,
-  deliverFn: (msg: AgentMailMessage) => void
+  deliverFn: DeliverFn
 ): RenameResult {
   if (!state.registered) {
     return { success: false, error: "not_registered" };
@@ -488,22 +505,18 @@ export function renameAgent(
     return { success: false, error: "same_name" };
   }
 
-  const newRegPath = join(dirs.registry, `${newName}.json`);
-  if (fs.existsSync(newRegPath)) {
-    try {
-      const existing: AgentRegistration = JSON.parse(fs.readFileSync(newRegPath, "utf-8"));
-      if (isProcessAlive(existing.pid) && existing.pid !== process.pid) {
-        return { success: false, error: "name_taken" };
-      }
-    } catch {
-      // Malformed file, we can overwrite
+  const transport = transportFor(dirs);
+  try {
+    const existing = transport.readRegistration(newName);
+    if (existing && isAgentAlive(existing) && !isOwnRegistration(existing)) {
+      return { success: false, error: "name_taken" };
     }
+  } catch {
+    // Malformed file, we can overwrite
   }
 
   const oldName = state.agentName;
-  const oldRegPath = getRegistrationPath(state, dirs);
   const oldInbox = getMyInbox(state, dirs);
-  const newInbox = join(dirs.inbox, newName);
 
   processAllPendingMessages(state, dirs, deliverFn);
 
@@ -517,6 +530,7 @@ export function renameAgent(
     model: ctx.model?.id ?? "unknown",
     startedAt: now,
     reservations: state.reservations.length > 0 ? state.reservations : undefined,
+    channels: state.channels.length > 0 ? state.channels : undefined,
     gitBranch,
     spec: state.spec,
     isHuman: state.isHuman,
@@ -525,10 +539,8 @@ export function renameAgent(
     statusMessage: state.statusMessage,
   };
 
-  ensureDirSync(dirs.registry);
-  
   try {
-    fs.writeFileSync(join(dirs.registry, `${newName}.json`), JSON.stringify(registration, null, 2));
+    transport.publishRegistration(newName, registration);
   } catch (err) {
     return { success: false, error: "invalid_name" as const };
   }
@@ -537,8 +549,7 @@ export function renameAgent(
   let verified = false;
   let verifyError = false;
   try {
-    const written: AgentRegistration = JSON.parse(fs.readFileSync(newRegPath, "utf-8"));
-    verified = written.pid === process.pid;
+    verified = transport.readRegistration(newName)?.pid === process.pid;
   } catch {
     verifyError = true;
   }
@@ -547,9 +558,8 @@ export function renameAgent(
     // Clean up our write attempt if file still contains our data (I/O error case)
     if (verifyError) {
       try {
-        const checkReg: AgentRegistration = JSON.parse(fs.readFileSync(newRegPath, "utf-8"));
-        if (checkReg.pid === process.pid) {
-          fs.unlinkSync(newRegPath);
+        if (transport.readRegistration(newName)?.pid === process.pid) {
+          transport.publishRegistration(newName, null);
         }
       } catch {
         // Best effort cleanup
@@ -559,28 +569,15 @@ export function renameAgent(
   }
 
   try {
-    fs.unlinkSync(oldRegPath);
+    transport.publishRegistration(oldName, null);
   } catch {
     // Ignore - old file might already be gone
   }
 
   state.agentName = newName;
 
-  if (fs.existsSync(newInbox)) {
-    try {
-      const staleFiles = fs.readdirSync(newInbox).filter(f => f.endsWith(".json"));
-      for (const file of staleFiles) {
-        try {
-          fs.unlinkSync(join(newInbox, file));
-        } catch {
-          // Ignore
-        }
-      }
-    } catch {
-      // Ignore
-    }
-  }
-  ensureDirSync(newInbox);
+  // Drop whatever a previous agent of that name left unread
+  transport.takeInbox(newName);
 
   try {
     fs.rmdirSync(oldInbox);
@@ -599,19 +596,48 @@ export function renameAgent(
 export function getConflictsWithOtherAgents(
   filePath: string,
   state: MessengerState,
-  dirs: Dirs
+  dirs: Dirs,
+  cwd: string = process.cwd(),
+  match: "file" | "overlap" = "file",
+  access: ReservationAccess = "write"
+): ReservationConflict[] {
+  return findReservationConflicts(filePath, dirs, state.agentName, state.scopeToFolder, cwd, match, access);
+}
+
+/** Reservations of live agents other than `excludeName` that block `access` to `filePath`. */
+function findReservationConflicts(
+  filePath: string,
+  dirs: Dirs,
+  excludeName: string,
+  scopeToFolder: boolean,
+  cwd: string,
+  match: "file" | "overlap",
+  access: ReservationAccess
 ): ReservationConflict[] {
   const conflicts: ReservationConflict[] = [];
-  const agents = getActiveAgents(state, dirs);
+  const agents = listActiveAgents(dirs, excludeName, scopeToFolder);
+  const repo = getRepoContext(cwd);
+  const target = normalizeReservationPath(filePath, cwd, repo);
 
   for (const agent of agents) {
     if (!agent.reservations) continue;
     for (const res of agent.reservations) {
-      if (pathMatchesReservation(filePath, res.pattern)) {
+      // Reservations made in another repository can't refer to this file
+      if (res.repo && res.repo !== repo.id) continue;
+      // A lapsed lease no longer protects anything, even before the holder drops it
+      if (isReservationExpired(res)) continue;
+      if (!reservationBlocks(res.mode, access)) continue;
+      // Reservations from before normalization hold the path as typed
+      const candidate = res.repo ? target : filePath;
+      const hit = match === "overlap"
+        ? commandTargetHitsReservation(candidate, res)
+        : matchesReservation(candidate, res);
+      if (hit) {
         conflicts.push({
-          path: filePath,
+          path: target,
           agent: agent.name,
-          pattern: res.pattern,
+          pattern: formatReservation(res),
+          mode: res.mode ?? "exclusive",
           reason: res.reason,
           registration: agent
         });
@@ -622,6 +648,364 @@ export function getConflictsWithOtherAgents(
   return conflicts;
 }
 
+// =============================================================================
+// Reservation Leases
+// =============================================================================
+
+/**
+ * Extend our leased reservations on activity and drop the ones that lapsed
+ * while we were idle. Leases are only pushed out once half the TTL is used,
+ * so the registration isn't rewritten on every tool call. Returns true when
+ * the registration needs to be written.
+ */
+export function renewReservations(state: MessengerState, dirs: Dirs, now: number = Date.now()): boolean {
+  let changed = false;
+  const kept: FileReservation[] = [];
+
+  for (const res of state.reservations) {
+    if (!res.ttl || !res.expiresAt) {
+      kept.push(res);
+      continue;
+    }
+    if (isReservationExpired(res, now)) {
+      logFeedEvent(dirs, state.agentName, "reserve.expire", formatReservation(res));
+      changed = true;
+      continue;
+    }
+    const remaining = new Date(res.expiresAt).getTime() - now;
+    if (remaining < res.ttl * 500) {
+      kept.push({ ...res, expiresAt: new Date(now + res.ttl * 1000).toISOString() });
+      changed = true;
+    } else {
+      kept.push(res);
+    }
+  }
+
+  state.reservations = kept;
+  return changed;
+}
+
+/**
+ * Remove a reservation from another agent's registration on their behalf.
+ * The revocation is recorded so the holder doesn't write the reservation
+ * back from its in-memory state. Agents on other machines can't be revoked.
+ */
+export function revokeReservation(dirs: Dirs, holder: string, pattern: string, by: string): boolean {
+  const transport = transportFor(dirs);
+
+  try {
+    const reg = transport.readRegistration(holder);
+    // A mirror is rewritten from the relay on the next sync, so the holder would never see the revocation
+    if (!reg || reg.host !== undefined) return false;
+    const remaining = (reg.reservations ?? []).filter(r => r.pattern !== pattern);
+    if (remaining.length === (reg.reservations ?? []).length) return false;
+
+    reg.reservations = remaining.length > 0 ? remaining : undefined;
+    reg.revokedReservations = [
+      ...(reg.revokedReservations ?? []),
+      { pattern, by, at: new Date().toISOString() },
+    ];
+    transport.publishRegistration(holder, reg);
+    invalidateAgentsCache();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// =============================================================================
+// Reservation Queue
+// =============================================================================
+
+function reservationQueuePath(dirs: Dirs): string {
+  return join(dirs.base, "reservation-queue.json");
+}
+
+export function getReservationQueue(dirs: Dirs): ReservationWaiter[] {
+  try {
+    const queue = JSON.parse(fs.readFileSync(reservationQueuePath(dirs), "utf-8"));
+    return Array.isArray(queue) ? queue : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeReservationQueue(dirs: Dirs, queue: ReservationWaiter[]): void {
+  ensureDirSync(dirs.base);
+  fs.writeFileSync(reservationQueuePath(dirs), JSON.stringify(queue, null, 2));
+}
+
+/** Queue `waiter` behind the current holders. Returns its 1-based position for the pattern. */
+export async function enqueueReservation(dirs: Dirs, waiter: ReservationWaiter): Promise<number> {
+  ensureDirSync(dirs.base);
+  return withSwarmLock(dirs.base, () => {
+    const queue = getReservationQueue(dirs).filter(w => !(w.agent === waiter.agent && w.pattern === waiter.pattern));
+    queue.push(waiter);
+    writeReservationQueue(dirs, queue);
+    return queue.filter(w => w.pattern === waiter.pattern && w.repo === waiter.repo).length;
+  });
+}
+
+export async function dequeueReservations(dirs: Dirs, agent: string, patterns?: string[]): Promise<void> {
+  ensureDirSync(dirs.base);
+  await withSwarmLock(dirs.base, () => {
+    const queue = getReservationQueue(dirs);
+    const kept = queue.filter(w => w.agent !== agent || (patterns !== undefined && !patterns.includes(w.pattern)));
+    if (kept.length !== queue.length) writeReservationQueue(dirs, kept);
+  });
+}
+
+/**
+ * Hand queued reservations to waiters whose paths are no longer held in an
+ * incompatible mode, in queue order, and wake them with an inbox message.
+ * Called by `state`'s agent after it released reservations or unregistered,
+ * so its own registration must already be up to date. Waiters that left are
+ * dropped from the queue. Runs under the swarm lock, so two agents releasing
+ * at once never grant the same waiter twice.
+ */
+export async function processReservationQueue(state: MessengerState, dirs: Dirs): Promise<ReservationWaiter[]> {
+  if (getReservationQueue(dirs).length === 0) return [];
+  return withSwarmLock(dirs.base, () => grantQueuedReservations(state, dirs));
+}
+
+function grantQueuedReservations(state: MessengerState, dirs: Dirs): ReservationWaiter[] {
+  const queue = getReservationQueue(dirs);
+  if (queue.length === 0) return [];
+
+  invalidateAgentsCache();
+  const active = new Set(listActiveAgents(dirs, "", false).map(a => a.name));
+
+  const granted: ReservationWaiter[] = [];
+  const remaining: ReservationWaiter[] = [];
+
+  for (const waiter of queue) {
+    if (!active.has(waiter.agent)) continue;
+
+    const blocked = findReservationConflicts(
+      waiter.pattern, dirs, waiter.agent, false, waiter.root, "overlap", waiter.mode ?? "exclusive"
+    ).length > 0;
+    if (blocked || !grantReservation(dirs, waiter)) {
+      remaining.push(waiter);
+      continue;
+    }
+
+    granted.push(waiter);
+    logFeedEvent(dirs, waiter.agent, "reserve.grant", waiter.pattern, state.agentName);
+    try {
+      sendMessageToAgent(state, dirs, waiter.agent,
+        `Reservation granted: ${waiter.pattern} is now yours (you were waiting for it). Go ahead.`);
+    } catch {
+      // The reservation is still theirs; they'll see it in status
+    }
+  }
+
+  if (remaining.length !== queue.length) writeReservationQueue(dirs, remaining);
+  return granted;
+}
+
+function grantReservation(dirs: Dirs, waiter: ReservationWaiter): boolean {
+  const transport = transportFor(dirs);
+  const now = new Date();
+  const reservation: FileReservation = {
+    pattern: waiter.pattern,
+    ...(waiter.mode && waiter.mode !== "exclusive" ? { mode: waiter.mode } : {}),
+    ...(waiter.exclude ? { exclude: waiter.exclude } : {}),
+    repo: waiter.repo,
+    reason: waiter.reason,
+    since: now.toISOString(),
+    ...(waiter.ttl ? { ttl: waiter.ttl, expiresAt: new Date(now.getTime() + waiter.ttl * 1000).toISOString() } : {}),
+  };
+
+  try {
+    const reg = transport.readRegistration(waiter.agent);
+    if (!reg) return false;
+    reg.reservations = [...(reg.reservations ?? []).filter(r => r.pattern !== reservation.pattern), reservation];
+    reg.grantedReservations = [...(reg.grantedReservations ?? []), reservation];
+    transport.publishRegistration(waiter.agent, reg);
+    invalidateAgentsCache();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// =============================================================================
+// Reservation Requests
+// =============================================================================
+
+function reservationRequestsPath(dirs: Dirs): string {
+  return join(dirs.base, "reservation-requests.json");
+}
+
+export function getReservationRequests(dirs: Dirs): PendingReservationRequest[] {
+  try {
+    const requests = JSON.parse(fs.readFileSync(reservationRequestsPath(dirs), "utf-8"));
+    return Array.isArray(requests) ? requests : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeReservationRequests(dirs: Dirs, requests: PendingReservationRequest[]): void {
+  ensureDirSync(dirs.base);
+  fs.writeFileSync(reservationRequestsPath(dirs), JSON.stringify(requests, null, 2));
+}
+
+function isRegistered(dirs: Dirs, name: string): boolean {
+  try {
+    return transportFor(dirs).readRegistration(name) !== null;
+  } catch {
+    return true;
+  }
+}
+
+/** Record a request, replacing an earlier one from the same agent for the same paths. */
+export async function addReservationRequest(dirs: Dirs, request: PendingReservationRequest): Promise<void> {
+  const key = request.paths.join("\n");
+  ensureDirSync(dirs.base);
+  await withSwarmLock(dirs.base, () => {
+    const requests = getReservationRequests(dirs).filter(r => !(r.agent === request.agent && r.paths.join("\n") === key));
+    requests.push(request);
+    writeReservationRequests(dirs, requests);
+  });
+}
+
+/**
+ * Remove and return `agent`'s requests that are due. Due requests from agents
+ * that are no longer registered are dropped.
+ */
+export async function takeDueReservationRequests(
+  dirs: Dirs,
+  agent: string,
+  now: number = Date.now()
+): Promise<PendingReservationRequest[]> {
+  const isDue = (r: PendingReservationRequest) => new Date(r.dueAt).getTime() <= now;
+  if (!getReservationRequests(dirs).some(isDue)) return [];
+  return withSwarmLock(dirs.base, () => {
+    const requests = getReservationRequests(dirs);
+    const due = requests.filter(r => r.agent === agent && isDue(r));
+    const kept = requests.filter(r =>
+      !due.includes(r) && !(isDue(r) && !isRegistered(dirs, r.agent))
+    );
+    if (kept.length !== requests.length) writeReservationRequests(dirs, kept);
+    return due;
+  });
+}
+
+// =============================================================================
+// Path Normalization
+// =============================================================================
+
+export interface RepoContext {
+  id: string;     // Canonical git common dir, shared by all worktrees of a repo
+  root: string;   // Top of this checkout (or cwd when not in a git repo)
+}
+
+const repoContextCache = new Map<string, RepoContext>();
+
+/**
+ * Find the checkout root and repository identity for cwd by reading .git
+ * directly (no git subprocess: this runs on every edit/write tool call).
+ * Linked worktrees have a .git file pointing into the main repo's git dir,
+ * so they resolve to the same id as the main checkout.
+ */
+export function getRepoContext(cwd: string): RepoContext {
+  const cached = repoContextCache.get(cwd);
+  if (cached) return cached;
+
+  const start = realpathOrSelf(resolve(cwd));
+  let context: RepoContext = { id: start, root: start };
+
+  for (let dir = start; ; dir = dirname(dir)) {
+    const gitPath = join(dir, ".git");
+    let stat: fs.Stats | null = null;
+    try {
+      stat = fs.statSync(gitPath);
+    } catch {
+      // Keep walking up
+    }
+    if (stat?.isDirectory()) {
+      context = { id: realpathOrSelf(gitPath), root: dir };
+      break;
+    }
+    if (stat?.isFile()) {
+      context = { id: resolveWorktreeCommonDir(gitPath), root: dir };
+      break;
+    }
+    if (dirname(dir) === dir) break;
+  }
+
+  repoContextCache.set(cwd, context);
+  return context;
+}
+
+/**
+ * Turn a path or pattern as typed ("./src/a.ts", "/abs/repo/src/", "src/*.ts")
+ * into its canonical repo-root-relative form with symlinks resolved.
+ * Glob segments are kept as-is; only the literal prefix is resolved.
+ * Paths outside the checkout stay absolute.
+ */
+export function normalizeReservationPath(
+  input: string,
+  cwd: string,
+  repo: RepoContext = getRepoContext(cwd)
+): string {
+  const isDir = input.endsWith("/");
+  const segments = input.split(/[\\/]/);
+  const globAt = segments.findIndex(seg => isGlobPattern(seg));
+  const literal = (globAt === -1 ? segments : segments.slice(0, globAt)).join("/");
+  const globPart = globAt === -1 ? "" : segments.slice(globAt).join("/");
+
+  const absolute = realpathOrSelf(resolve(cwd, literal || "."));
+  const rel = relative(repo.root, absolute);
+  const inside = rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+  let normalized = (inside ? rel : absolute).split(sep).join("/");
+
+  if (globPart) {
+    normalized = normalized ? `${normalized}/${globPart}` : globPart;
+  } else if (isDir || normalized === "") {
+    normalized = normalized ? `${normalized}/` : "**";
+  }
+  return normalized;
+}
+
+function resolveWorktreeCommonDir(gitFile: string): string {
+  try {
+    const match = fs.readFileSync(gitFile, "utf-8").match(/^gitdir:\s*(.+)$/m);
+    if (!match) return realpathOrSelf(gitFile);
+    const gitDir = resolve(dirname(gitFile), match[1].trim());
+    let commonDir = gitDir;
+    try {
+      commonDir = resolve(gitDir, fs.readFileSync(join(gitDir, "commondir"), "utf-8").trim());
+    } catch {
+      // Not a linked worktree (e.g. a submodule): its git dir is its own
+    }
+    return realpathOrSelf(commonDir);
+  } catch {
+    return realpathOrSelf(gitFile);
+  }
+}
+
+/**
+ * realpath for paths that may not exist yet (a file about to be written):
+ * resolve the deepest existing ancestor and re-append the rest.
+ */
+function realpathOrSelf(p: string): string {
+  const missing: string[] = [];
+  let current = p;
+  for (;;) {
+    try {
+      const real = fs.realpathSync(current);
+      return missing.length > 0 ? join(real, ...missing.reverse()) : real;
+    } catch {
+      const parent = dirname(current);
+      if (parent === current) return p;
+      missing.push(current.slice(parent.length).replace(/^[\\/]+/, ""));
+      current = parent;
+    }
+  }
+}
+
 // =============================================================================
 // Swarm Coordination
 // =============================================================================
@@ -673,11 +1057,9 @@ function writeCompletionsSync(dirs: Dirs, completions: AllCompletions): void {
 
 function isClaimStale(claim: ClaimEntry, dirs: Dirs): boolean {
   if (!isProcessAlive(claim.pid)) return true;
-  const regPath = join(dirs.registry, `${claim.agent}.json`);
-  if (!fs.existsSync(regPath)) return true;
   try {
-    const reg: AgentRegistration = JSON.parse(fs.readFileSync(regPath, "utf-8"));
-    if (!isProcessAlive(reg.pid)) return true;
+    const reg = transportFor(dirs).readRegistration(claim.agent);
+    if (!reg || !isProcessAlive(reg.pid)) return true;
     if (reg.sessionId !== claim.sessionId) return true;
   } catch {
     return true;
@@ -933,7 +1315,7 @@ export function getMyInbox(state: MessengerState, dirs: Dirs): string {
 export function processAllPendingMessages(
   state: MessengerState,
   dirs: Dirs,
-  deliverFn: (msg: AgentMailMessage) => void
+  deliverFn: DeliverFn
 ): void {
   if (!state.registered) return;
 
@@ -946,30 +1328,35 @@ export function processAllPendingMessages(
   isProcessingMessages = true;
 
   try {
-    const inbox = getMyInbox(state, dirs);
-    if (!fs.existsSync(inbox)) return;
-
-    let files: string[];
+    let items: InboxItem[];
     try {
-      files = fs.readdirSync(inbox).filter(f => f.endsWith(".json")).sort();
+      items = transportFor(dirs).takeInbox(state.agentName);
     } catch {
       return;
     }
 
-    for (const file of files) {
-      const msgPath = join(inbox, file);
+    for (const parsed of items) {
+      // Taken items are already out of the inbox, so a failure here never retries forever
       try {
-        const content = fs.readFileSync(msgPath, "utf-8");
-        const msg: AgentMailMessage = JSON.parse(content);
-        deliverFn(msg);
-        fs.unlinkSync(msgPath);
-      } catch {
-        // On any failure (read, parse, deliver), delete to avoid infinite retry loops
-        try {
-          fs.unlinkSync(msgPath);
-        } catch {
-          // Already gone or can't delete
+        if (isMessageReceipt(parsed)) {
+          applyReceipt(state, parsed);
+          continue;
+        }
+        // Senders are checked before sending, but may run another version: a bad payload is dropped, the text kept
+        if (parsed.payload !== undefined) {
+          const checked = validatePayload(parsed.payload);
+          if ("payload" in checked) parsed.payload = checked.payload;
+          else delete parsed.payload;
         }
+        // An answer to a pending ask goes to the blocked tool call, not the agent's prompt
+        const waiter = parsed.replyTo ? replyWaiters.get(parsed.replyTo) : undefined;
+        let shown = true;
+        if (waiter) waiter(parsed);
+        else shown = deliverFn(parsed) !== false;
+        sendReceipt(state, dirs, parsed, "delivered");
+        if (shown) state.pendingReadReceipts.push(parsed);
+      } catch {
+        // A failed delivery drops the message
       }
     }
   } finally {
@@ -984,32 +1371,311 @@ export function processAllPendingMessages(
   }
 }
 
+// =============================================================================
+// Receipts
+// =============================================================================
+
+function sendReceipt(state: MessengerState, dirs: Dirs, msg: AgentMailMessage, kind: ReceiptKind): void {
+  // Broadcasts, channel messages and messages from agents that have since left get no receipt
+  if (msg.broadcast || msg.channel || msg.from === state.agentName || !isRegistered(dirs, msg.from)) return;
+
+  const receipt: MessageReceipt = {
+    type: "receipt",
+    kind,
+    messageId: msg.id,
+    from: state.agentName,
+    to: msg.from,
+    at: new Date().toISOString(),
+  };
+  try {
+    transportFor(dirs).deliver(msg.from, receipt);
+  } catch {
+    // Best effort
+  }
+}
+
+/** Mark our copy of the acknowledged message as delivered or read. */
+function applyReceipt(state: MessengerState, receipt: MessageReceipt): void {
+  const msg = state.chatHistory.get(receipt.from)?.find(m => m.id === receipt.messageId);
+  if (!msg) return;
+  if (receipt.kind === "read") {
+    msg.readAt = receipt.at;
+    msg.deliveredAt ??= receipt.at;
+  } else {
+    msg.deliveredAt ??= receipt.at;
+  }
+}
+
+/**
+ * Acknowledge everything delivered since the last call as read. Called when
+ * a turn ends, so the agent has had the messages in front of it.
+ */
+export function flushReadReceipts(state: MessengerState, dirs: Dirs): void {
+  const pending = state.pendingReadReceipts;
+  state.pendingReadReceipts = [];
+  for (const msg of pending) {
+    sendReceipt(state, dirs, msg, "read");
+  }
+}
+
+export interface SendMessageOptions {
+  from?: string;                 // Send on behalf of another agent (a scheduled message flushed by any live instance)
+  question?: boolean;
+  priority?: MessagePriority;
+  channel?: string;
+  broadcast?: boolean;
+  id?: string;                   // Reuse one ID across the copies of a channel message
+  payload?: MessagePayload;
+}
+
 export function sendMessageToAgent(
   state: MessengerState,
   dirs: Dirs,
   to: string,
   text: string,
-  replyTo?: string
+  replyTo?: string,
+  options: SendMessageOptions = {}
 ): AgentMailMessage {
-  const targetInbox = join(dirs.inbox, to);
-  ensureDirSync(targetInbox);
-
+  // Replies join their parent's thread; the short IDs shown to agents are accepted
+  const id = options.id ?? randomUUID();
+  const parent = replyTo ? findMessage(collectMessages(state), replyTo) : undefined;
   const msg: AgentMailMessage = {
-    id: randomUUID(),
-    from: state.agentName,
+    id,
+    from: options.from ?? state.agentName,
     to,
     text,
     timestamp: new Date().toISOString(),
-    replyTo: replyTo ?? null
+    replyTo: parent?.id ?? replyTo ?? null,
+    threadId: parent ? (parent.threadId ?? parent.id) : (replyTo ?? id),
+    ...(options.question ? { question: true } : {}),
+    ...(options.channel ? { channel: options.channel } : {}),
+    ...(options.broadcast ? { broadcast: true } : {}),
+    ...(options.priority ? { priority: options.priority } : {}),
+    ...(options.payload ? { payload: options.payload } : {})
   };
 
-  const random = Math.random().toString(36).substring(2, 8);
-  const msgFile = join(targetInbox, `${Date.now()}-${random}.json`);
-  fs.writeFileSync(msgFile, JSON.stringify(msg, null, 2));
+  transportFor(dirs).deliver(to, msg);
+  appendMessageLog(dirs, msg);
 
   return msg;
 }
 
+// =============================================================================
+// Channels
+// =============================================================================
+
+/** Other active agents that have joined `channel`. */
+export function getChannelMembers(state: MessengerState, dirs: Dirs, channel: string): AgentRegistration[] {
+  return getActiveAgents(state, dirs).filter(a => a.channels?.includes(channel));
+}
+
+/** Every channel with at least one member, including our own, sorted by name. */
+export function listChannels(state: MessengerState, dirs: Dirs): Map<string, string[]> {
+  const channels = new Map<string, string[]>();
+  const add = (channel: string, name: string) => channels.set(channel, [...(channels.get(channel) ?? []), name]);
+  for (const channel of state.channels) add(channel, state.agentName);
+  for (const agent of getActiveAgents(state, dirs)) {
+    for (const channel of agent.channels ?? []) add(channel, agent.name);
+  }
+  return new Map([...channels].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Send `text` to every other member of `channel` and keep one copy (addressed
+ * to the channel) in our channel history. Returns that copy and who got it.
+ */
+export function sendChannelMessage(
+  state: MessengerState,
+  dirs: Dirs,
+  channel: string,
+  text: string,
+  replyTo?: string,
+  priority?: MessagePriority,
+  payload?: MessagePayload
+): { message: AgentMailMessage; recipients: string[] } {
+  // Every member's copy shares one ID so replies thread across the channel
+  const id = randomUUID();
+  const recipients: string[] = [];
+  let sent: AgentMailMessage | undefined;
+  for (const member of getChannelMembers(state, dirs, channel)) {
+    try {
+      sent = sendMessageToAgent(state, dirs, member.name, text, replyTo, { channel, id, priority, payload });
+      recipients.push(member.name);
+    } catch {
+      // Skip members whose inbox can't be written
+    }
+  }
+
+  const message: AgentMailMessage = {
+    id,
+    from: state.agentName,
+    to: channel,
+    text,
+    timestamp: sent?.timestamp ?? new Date().toISOString(),
+    replyTo: sent?.replyTo ?? replyTo ?? null,
+    threadId: sent?.threadId ?? id,
+    channel,
+    ...(priority ? { priority } : {}),
+    ...(payload ? { payload } : {}),
+  };
+  // Nothing was delivered, so there's nothing to show in the channel
+  if (recipients.length === 0) return { message, recipients };
+
+  const history = state.channelHistory.get(channel) ?? [];
+  history.push(message);
+  if (history.length > MAX_CHAT_HISTORY) history.shift();
+  state.channelHistory.set(channel, history);
+
+  return { message, recipients };
+}
+
+// =============================================================================
+// Scheduled Messages
+// =============================================================================
+
+function scheduledMessagesPath(dirs: Dirs): string {
+  return join(dirs.base, "scheduled-messages.json");
+}
+
+/** Pending scheduled messages, soonest first. */
+export function getScheduledMessages(dirs: Dirs): ScheduledMessage[] {
+  try {
+    const list = JSON.parse(fs.readFileSync(scheduledMessagesPath(dirs), "utf-8"));
+    return Array.isArray(list) ? list.sort((a: ScheduledMessage, b: ScheduledMessage) => a.dueAt.localeCompare(b.dueAt)) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeScheduledMessages(dirs: Dirs, list: ScheduledMessage[]): void {
+  ensureDirSync(dirs.base);
+  fs.writeFileSync(scheduledMessagesPath(dirs), JSON.stringify(list, null, 2));
+}
+
+export async function scheduleMessage(dirs: Dirs, entry: ScheduledMessage): Promise<void> {
+  ensureDirSync(dirs.base);
+  await withSwarmLock(dirs.base, () => {
+    writeScheduledMessages(dirs, [...getScheduledMessages(dirs), entry]);
+  });
+}
+
+export type CancelScheduledResult =
+  | { success: true; message: ScheduledMessage }
+  | { success: false; error: "not_found" | "not_sender" };
+
+/** Cancel one of `agent`'s scheduled messages by full or short ID. */
+export async function cancelScheduledMessage(dirs: Dirs, id: string, agent: string): Promise<CancelScheduledResult> {
+  ensureDirSync(dirs.base);
+  return withSwarmLock(dirs.base, () => {
+    const list = getScheduledMessages(dirs);
+    const message = list.find(m => m.id === id || m.id.startsWith(id));
+    if (!message) return { success: false as const, error: "not_found" as const };
+    if (message.from !== agent) return { success: false as const, error: "not_sender" as const };
+    writeScheduledMessages(dirs, list.filter(m => m !== message));
+    return { success: true as const, message };
+  });
+}
+
+export interface ScheduledDelivery {
+  message: ScheduledMessage;
+  sent: string[];
+  undeliverable: string[];       // Recipients that had left by the due time
+}
+
+/**
+ * Send our scheduled messages that are due, plus those of senders that have
+ * since left, as their original sender. Due entries are removed under the
+ * swarm lock, so each one is sent by exactly one live instance. Recipients
+ * that have left are logged to the feed.
+ */
+export async function flushScheduledMessages(
+  state: MessengerState,
+  dirs: Dirs,
+  now: number = Date.now()
+): Promise<ScheduledDelivery[]> {
+  if (!state.registered) return [];
+  const isDue = (m: ScheduledMessage) => new Date(m.dueAt).getTime() <= now;
+  if (!getScheduledMessages(dirs).some(isDue)) return [];
+
+  // A live sender sends its own, so the message lands in its chat history
+  const peers = new Set(getActiveAgents(state, dirs).map(a => a.name));
+  const isOurs = (m: ScheduledMessage) => isDue(m) && (m.from === state.agentName || !peers.has(m.from));
+  const due = await withSwarmLock(dirs.base, () => {
+    const list = getScheduledMessages(dirs);
+    const ready = list.filter(isOurs);
+    if (ready.length > 0) writeScheduledMessages(dirs, list.filter(m => !isOurs(m)));
+    return ready;
+  });
+
+  const deliveries: ScheduledDelivery[] = [];
+  for (const entry of due) {
+    const recipients = entry.broadcast
+      ? [...peers, state.agentName]
+      : entry.to.filter(name => validateTargetAgent(name, dirs).valid);
+    const undeliverable = entry.broadcast ? [] : entry.to.filter(name => !recipients.includes(name));
+    const preview = entry.text.length > 60 ? entry.text.slice(0, 57) + "..." : entry.text;
+    const sent: string[] = [];
+
+    for (const name of recipients) {
+      if (name === entry.from) continue;
+      try {
+        const msg = sendMessageToAgent(state, dirs, name, entry.text, entry.replyTo, {
+          from: entry.from,
+          priority: entry.priority,
+          payload: entry.payload,
+          broadcast: entry.broadcast,
+        });
+        sent.push(name);
+        if (entry.from === state.agentName && !entry.broadcast) {
+          const history = state.chatHistory.get(name) ?? [];
+          history.push(msg);
+          if (history.length > MAX_CHAT_HISTORY) history.shift();
+          state.chatHistory.set(name, history);
+        }
+        if (!entry.broadcast) logFeedEvent(dirs, entry.from, "message", name, `\u2192 ${name}: "${preview}"`);
+      } catch {
+        undeliverable.push(name);
+      }
+    }
+    if (entry.broadcast) logFeedEvent(dirs, entry.from, "message", undefined, `broadcast: "${preview}"`);
+    for (const name of undeliverable) {
+      logFeedEvent(dirs, entry.from, "message.undeliverable", name, preview);
+    }
+    deliveries.push({ message: entry, sent, undeliverable });
+  }
+
+  return deliveries;
+}
+
+/**
+ * Resolve with the first inbox message that replies to `questionId`, or with
+ * null once `timeoutMs` passes or `signal` aborts. Relies on the watcher
+ * (or turn_end) calling processAllPendingMessages.
+ */
+export function waitForReply(
+  questionId: string,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<AgentMailMessage | null> {
+  return new Promise(resolve => {
+    const finish = (msg: AgentMailMessage | null) => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      replyWaiters.delete(questionId);
+      resolve(msg);
+    };
+    const onAbort = () => finish(null);
+    const timer = setTimeout(() => finish(null), timeoutMs);
+
+    if (signal?.aborted) {
+      finish(null);
+      return;
+    }
+    replyWaiters.set(questionId, finish);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
 // =============================================================================
 // Watcher
 // =============================================================================
@@ -1019,7 +1685,7 @@ const WATCHER_DEBOUNCE_MS = 50;
 export function startWatcher(
   state: MessengerState,
   dirs: Dirs,
-  deliverFn: (msg: AgentMailMessage) => void
+  deliverFn: DeliverFn
 ): void {
   if (!state.registered) return;
   if (state.watcher) return;
@@ -1093,16 +1759,15 @@ export function validateTargetAgent(to: string, dirs: Dirs): TargetValidation {
     return { valid: false, error: "invalid_name" };
   }
 
-  const targetReg = join(dirs.registry, `${to}.json`);
-  if (!fs.existsSync(targetReg)) {
-    return { valid: false, error: "not_found" };
-  }
-
+  const transport = transportFor(dirs);
   try {
-    const reg: AgentRegistration = JSON.parse(fs.readFileSync(targetReg, "utf-8"));
-    if (!isProcessAlive(reg.pid)) {
+    const reg = transport.readRegistration(to);
+    if (!reg) {
+      return { valid: false, error: "not_found" };
+    }
+    if (!isAgentAlive(reg)) {
       try {
-        fs.unlinkSync(targetReg);
+        transport.publishRegistration(to, null);
       } catch {
         // Ignore cleanup errors
       }
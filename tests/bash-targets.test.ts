@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { extractMutatedPaths } from "../bash-targets.js";
+
+describe("bash-targets", () => {
+  it("finds files written by redirections", () => {
+    expect(extractMutatedPaths("echo hi > out.txt")).toEqual(["out.txt"]);
+    expect(extractMutatedPaths("cat a >>log.txt 2>/dev/null")).toEqual(["log.txt"]);
+    expect(extractMutatedPaths("build &> 'build output.log'")).toEqual(["build output.log"]);
+    expect(extractMutatedPaths("echo hi>out.txt 2>&1")).toEqual(["out.txt"]);
+    expect(extractMutatedPaths("sort < in.txt")).toEqual([]);
+  });
+
+  it("finds targets of common mutating commands", () => {
+    expect(extractMutatedPaths("rm -rf dist src/old.ts")).toEqual(["dist", "src/old.ts"]);
+    expect(extractMutatedPaths("mv src/a.ts src/b.ts")).toEqual(["src/a.ts", "src/b.ts"]);
+    expect(extractMutatedPaths("cp -r template/ src/new/")).toEqual(["src/new/"]);
+    expect(extractMutatedPaths("sed -i 's/a/b/' src/a.ts src/b.ts")).toEqual(["src/a.ts", "src/b.ts"]);
+    expect(extractMutatedPaths("sed -i.bak -e 's/a/b/' src/a.ts")).toEqual(["src/a.ts"]);
+    expect(extractMutatedPaths("perl -pi -e 's/a/b/' lib/x.pm")).toEqual(["lib/x.pm"]);
+    expect(extractMutatedPaths("chmod +x bin/run")).toEqual(["bin/run"]);
+    expect(extractMutatedPaths("git checkout HEAD -- src/a.ts")).toEqual(["src/a.ts"]);
+    expect(extractMutatedPaths("git checkout main")).toEqual([]);
+    expect(extractMutatedPaths("git restore --source HEAD~1 src/a.ts")).toEqual(["src/a.ts"]);
+  });
+
+  it("leaves read-only commands alone and follows cd", () => {
+    expect(extractMutatedPaths("grep -rn 'a > b' src | head")).toEqual([]);
+    expect(extractMutatedPaths("grep '>' notes.md")).toEqual([]);
+    expect(extractMutatedPaths("sed 's/a/b/' src/a.ts")).toEqual([]);
+    expect(extractMutatedPaths("cd packages/api && rm gen.ts; echo done | tee ../log.txt")).toEqual([
+      "packages/api/gen.ts",
+      "packages/log.txt",
+    ]);
+    expect(extractMutatedPaths("FOO=1 sudo rm \"$TARGET\" x.txt")).toEqual(["x.txt"]);
+  });
+});
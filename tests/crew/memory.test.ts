@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  addMemory,
+  forgetMemory,
+  formatMemoriesForPrompt,
+  getRelevantMemories,
+  lessonFromReview,
+  listMemories,
+} from "../../crew/memory.js";
+import { createTempCrewDirs } from "../helpers/temp-dirs.js";
+
+describe("crew/memory", () => {
+  let cwd: string;
+
+  beforeEach(() => {
+    cwd = createTempCrewDirs().cwd;
+  });
+
+  it("adds, lists and forgets lessons with sequential ids", () => {
+    const first = addMemory(cwd, "Run migrations before seeding", "manual");
+    const second = addMemory(cwd, "Auth middleware needs the session cookie", "block", { taskId: "task-2", plan: "default" });
+
+    expect(first.id).toBe("mem-1");
+    expect(second).toMatchObject({ id: "mem-2", source: "block", taskId: "task-2", plan: "default" });
+    expect(listMemories(cwd)).toHaveLength(2);
+
+    expect(forgetMemory(cwd, "mem-1")).toBe(true);
+    expect(forgetMemory(cwd, "mem-1")).toBe(false);
+    expect(listMemories(cwd).map(e => e.id)).toEqual(["mem-2"]);
+    expect(addMemory(cwd, "Another", "manual").id).toBe("mem-3");
+  });
+
+  it("does not store the same lesson twice", () => {
+    const a = addMemory(cwd, "Use  the shared logger", "review");
+    const b = addMemory(cwd, "use the shared logger", "review");
+    expect(b.id).toBe(a.id);
+    expect(listMemories(cwd)).toHaveLength(1);
+  });
+
+  it("picks lessons that share keywords with the context and always includes manual ones", () => {
+    addMemory(cwd, lessonFromReview("Add login form", { summary: "", issues: ["Validate email format on the login form"] }), "review");
+    addMemory(cwd, "Database pooling must be configured per worker", "block");
+    addMemory(cwd, "Prefer small commits", "manual");
+
+    const relevant = getRelevantMemories(cwd, "Implement the login form with email validation");
+    const lessons = relevant.map(e => e.lesson);
+
+    expect(lessons[0]).toContain("login form");
+    expect(lessons).toContain("Prefer small commits");
+    expect(lessons.some(l => l.includes("pooling"))).toBe(false);
+  });
+
+  it("formats an empty selection as no prompt section", () => {
+    expect(formatMemoriesForPrompt([])).toBe("");
+    expect(formatMemoriesForPrompt([addMemory(cwd, "Keep APIs typed", "manual")])).toContain("- Keep APIs typed");
+  });
+});
@@ -0,0 +1,140 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createTempCrewDirs, type TempCrewDirs } from "../helpers/temp-dirs.js";
+import { createMockContext } from "../helpers/mock-context.js";
+import type { AgentResult, AgentTask } from "../../crew/types.js";
+
+function writeAgent(cwd: string, name: string, crewRole: string): void {
+  const filePath = path.join(cwd, ".pi", "agents", `${name}.md`);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `---
+name: ${name}
+description: Test agent
+crewRole: ${crewRole}
+---
+You are ${name}.
+`);
+}
+
+function agentResult(agent: string, output: string, taskId?: string): AgentResult {
+  return {
+    agent,
+    exitCode: 0,
+    output,
+    truncated: false,
+    progress: {
+      agent,
+      status: "completed",
+      recentTools: [],
+      toolCallCount: 0,
+      tokens: 0,
+      usage: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+      durationMs: 0,
+    },
+    taskId,
+  };
+}
+
+const SYNC_OUTPUT = `## Sync Summary
+
+### Updated: task-2
+
+Changes made:
+- Point at the new session helper
+
+New content:
+Use \`createSession()\` from src/auth/session.ts.
+`;
+
+describe("crew/plan sync", () => {
+  let dirs: TempCrewDirs;
+
+  beforeEach(() => {
+    dirs = createTempCrewDirs();
+    vi.restoreAllMocks();
+  });
+
+  it("diffLines emits removed and added lines between common prefix and suffix", async () => {
+    const { diffLines } = await import("../../crew/handlers/sync.js");
+    const diff = diffLines("a\nb\nc", "a\nB\nc\nd", "tasks/task-2.md");
+
+    expect(diff.split("\n")).toEqual([
+      "--- a/tasks/task-2.md",
+      "+++ b/tasks/task-2.md",
+      "@@ -1,3 +1,4 @@",
+      " a",
+      "-b",
+      "-c",
+      "+B",
+      "+c",
+      "+d",
+    ]);
+  });
+
+  it("work runs plan sync after a completed task and logs the spec diff", async () => {
+    const store = await import("../../crew/store.js");
+    const agents = await import("../../crew/agents.js");
+    const workHandler = await import("../../crew/handlers/work.js");
+
+    writeAgent(dirs.cwd, "crew-worker", "worker");
+    writeAgent(dirs.cwd, "crew-plan-sync", "analyst");
+    fs.writeFileSync(path.join(dirs.crewDir, "config.json"), JSON.stringify({ planSync: { enabled: true } }));
+
+    store.createPlan(dirs.cwd, "docs/PRD.md");
+    const first = store.createTask(dirs.cwd, "Add session helper", "Build it");
+    const second = store.createTask(dirs.cwd, "Use session in login", "Original spec", [first.id]);
+
+    const spawned: string[] = [];
+    vi.spyOn(agents, "spawnAgents").mockImplementation(async (tasks: AgentTask[]) => {
+      spawned.push(tasks[0].agent);
+      if (tasks[0].agent === "crew-worker") {
+        store.updateTask(dirs.cwd, first.id, { status: "done", summary: "Added createSession()" });
+        return [agentResult("crew-worker", "", first.id)];
+      }
+      return [agentResult("crew-plan-sync", SYNC_OUTPUT)];
+    });
+
+    const response = await workHandler.execute(
+      { action: "work" },
+      { base: "", registry: "", inbox: "" },
+      createMockContext(dirs.cwd),
+      () => {},
+    );
+
+    expect(spawned).toEqual(["crew-worker", "crew-plan-sync"]);
+    expect(response.details.synced).toEqual([second.id]);
+    expect(store.getTaskSpec(dirs.cwd, second.id)).toContain("createSession()");
+
+    const log = fs.readFileSync(path.join(dirs.planDir, "sync-log.md"), "utf-8");
+    expect(log).toContain(`${second.id} (after ${first.id})`);
+    expect(log).toContain("+Use `createSession()` from src/auth/session.ts.");
+  });
+
+  it("work skips plan sync when planSync is disabled", async () => {
+    const store = await import("../../crew/store.js");
+    const agents = await import("../../crew/agents.js");
+    const workHandler = await import("../../crew/handlers/work.js");
+
+    writeAgent(dirs.cwd, "crew-worker", "worker");
+    writeAgent(dirs.cwd, "crew-plan-sync", "analyst");
+    store.createPlan(dirs.cwd, "docs/PRD.md");
+    const first = store.createTask(dirs.cwd, "Add session helper");
+    store.createTask(dirs.cwd, "Use session in login", undefined, [first.id]);
+
+    const spawn = vi.spyOn(agents, "spawnAgents").mockImplementation(async () => {
+      store.updateTask(dirs.cwd, first.id, { status: "done" });
+      return [agentResult("crew-worker", "", first.id)];
+    });
+
+    await workHandler.execute(
+      { action: "work" },
+      { base: "", registry: "", inbox: "" },
+      createMockContext(dirs.cwd),
+      () => {},
+    );
+
+    expect(spawn).toHaveBeenCalledTimes(1);
+    expect(fs.existsSync(path.join(dirs.planDir, "sync-log.md"))).toBe(false);
+  });
+});
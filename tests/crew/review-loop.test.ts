@@ -0,0 +1,125 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createTempCrewDirs, type TempCrewDirs } from "../helpers/temp-dirs.js";
+import { createMockContext } from "../helpers/mock-context.js";
+import type { AgentResult, AgentTask } from "../../crew/types.js";
+
+function writeAgent(cwd: string, name: string, crewRole: string): void {
+  const filePath = path.join(cwd, ".pi", "agents", `${name}.md`);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `---
+name: ${name}
+description: Test agent
+crewRole: ${crewRole}
+---
+You are ${name}.
+`);
+}
+
+function agentResult(agent: string, output: string, taskId?: string): AgentResult {
+  return {
+    agent,
+    exitCode: 0,
+    output,
+    truncated: false,
+    progress: {
+      agent,
+      status: "completed",
+      recentTools: [],
+      toolCallCount: 0,
+      tokens: 0,
+      usage: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+      durationMs: 0,
+    },
+    taskId,
+  };
+}
+
+function reviewOutput(verdict: string): string {
+  return `## Verdict: ${verdict}
+Error handling is missing.
+
+## Issues
+- Handle the expired-token case
+`;
+}
+
+describe("crew/work review loop", () => {
+  let dirs: TempCrewDirs;
+
+  beforeEach(() => {
+    dirs = createTempCrewDirs();
+    vi.restoreAllMocks();
+    writeAgent(dirs.cwd, "crew-worker", "worker");
+    writeAgent(dirs.cwd, "crew-reviewer", "reviewer");
+  });
+
+  async function runWave(verdict: string) {
+    const store = await import("../../crew/store.js");
+    const agents = await import("../../crew/agents.js");
+    const workHandler = await import("../../crew/handlers/work.js");
+
+    const spawned: string[] = [];
+    vi.spyOn(agents, "spawnAgents").mockImplementation(async (tasks: AgentTask[]) => {
+      spawned.push(tasks[0].agent);
+      if (tasks[0].agent === "crew-worker") {
+        const taskId = tasks[0].taskId!;
+        store.updateTask(dirs.cwd, taskId, { status: "done", base_commit: "abc1234" });
+        return [agentResult("crew-worker", "", taskId)];
+      }
+      return [agentResult("crew-reviewer", reviewOutput(verdict))];
+    });
+
+    const response = await workHandler.execute(
+      { action: "work" },
+      { base: "", registry: "", inbox: "" },
+      createMockContext(dirs.cwd),
+      () => {},
+    );
+    return { response, spawned };
+  }
+
+  it("counts a task as succeeded once the reviewer ships it", async () => {
+    const store = await import("../../crew/store.js");
+    store.createPlan(dirs.cwd, "docs/PRD.md");
+    const task = store.createTask(dirs.cwd, "Add session helper");
+
+    const { response, spawned } = await runWave("SHIP");
+
+    expect(spawned).toEqual(["crew-worker", "crew-reviewer"]);
+    expect(response.details.succeeded).toEqual([task.id]);
+    expect(store.getTask(dirs.cwd, task.id)?.review_count).toBe(1);
+  });
+
+  it("reopens on NEEDS_WORK and blocks once maxIterations is reached", async () => {
+    const store = await import("../../crew/store.js");
+    fs.writeFileSync(path.join(dirs.crewDir, "config.json"), JSON.stringify({ review: { maxIterations: 2 } }));
+    store.createPlan(dirs.cwd, "docs/PRD.md");
+    const task = store.createTask(dirs.cwd, "Add session helper");
+
+    const first = await runWave("NEEDS_WORK");
+    const reopened = store.getTask(dirs.cwd, task.id);
+    expect(first.response.details.succeeded).toEqual([]);
+    expect(reopened?.status).toBe("todo");
+    expect(reopened?.last_review?.issues).toEqual([{ description: "Handle the expired-token case" }]);
+    expect(store.getPlan(dirs.cwd)?.completed_count).toBe(0);
+
+    vi.restoreAllMocks();
+    const second = await runWave("NEEDS_WORK");
+    expect(second.response.details.blocked).toEqual([task.id]);
+    expect(store.getTask(dirs.cwd, task.id)?.blocked_reason).toContain("after 2 iteration(s)");
+  });
+
+  it("skips the review when review.enabled is off", async () => {
+    const store = await import("../../crew/store.js");
+    fs.writeFileSync(path.join(dirs.crewDir, "config.json"), JSON.stringify({ review: { enabled: false } }));
+    store.createPlan(dirs.cwd, "docs/PRD.md");
+    const task = store.createTask(dirs.cwd, "Add session helper");
+
+    const { response, spawned } = await runWave("NEEDS_WORK");
+
+    expect(spawned).toEqual(["crew-worker"]);
+    expect(response.details.succeeded).toEqual([task.id]);
+  });
+});
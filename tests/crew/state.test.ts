@@ -10,11 +10,13 @@ import {
 function resetAutonomousState(): void {
   autonomousState.active = false;
   autonomousState.cwd = null;
+  autonomousState.plan = null;
   autonomousState.waveNumber = 0;
   autonomousState.waveHistory = [];
   autonomousState.startedAt = null;
   autonomousState.stoppedAt = null;
   autonomousState.stopReason = null;
+  autonomousState.stopDetail = null;
 }
 
 describe("crew/state", () => {
@@ -43,6 +45,18 @@ describe("crew/state", () => {
     expect(autonomousState.stoppedAt).toMatch(/^\d{4}-\d{2}-\d{2}T/);
   });
 
+  it("stopAutonomous records policy detail and startAutonomous clears it", () => {
+    startAutonomous("/tmp/project-a");
+    stopAutonomous("failure_limit", "3 failure(s) in wave 2 (limit 2)");
+
+    expect(autonomousState.stopReason).toBe("failure_limit");
+    expect(autonomousState.stopDetail).toBe("3 failure(s) in wave 2 (limit 2)");
+
+    startAutonomous("/tmp/project-a");
+    expect(autonomousState.stopReason).toBeNull();
+    expect(autonomousState.stopDetail).toBeNull();
+  });
+
   it("addWaveResult appends history and increments waveNumber", () => {
     startAutonomous("/tmp/project-a");
 
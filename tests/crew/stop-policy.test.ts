@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import type { AutonomousState, WaveResult } from "../../crew/state.js";
+import type { Task } from "../../crew/types.js";
+import type { CrewConfig } from "../../crew/utils/config.js";
+import { checkBudget, evaluateStopPolicies } from "../../crew/stop-policy.js";
+
+const STARTED_AT = "2026-01-01T00:00:00.000Z";
+
+function policy(overrides: Partial<CrewConfig["work"]> = {}): CrewConfig["work"] {
+  return { maxAttemptsPerTask: 5, maxWaves: 50, stopOnBlock: false, stopOnMajorRethink: false, isolation: "shared", ...overrides };
+}
+
+function wave(overrides: Partial<WaveResult> = {}): WaveResult {
+  return {
+    waveNumber: 1,
+    tasksAttempted: ["task-1", "task-2"],
+    succeeded: [],
+    failed: [],
+    blocked: [],
+    tokens: 0,
+    timestamp: STARTED_AT,
+    ...overrides,
+  };
+}
+
+function state(history: WaveResult[]): AutonomousState {
+  return {
+    active: true,
+    cwd: "/tmp/project",
+    plan: "default",
+    waveNumber: history.length + 1,
+    waveHistory: history,
+    startedAt: STARTED_AT,
+    stoppedAt: null,
+    stopReason: null,
+    stopDetail: null,
+  };
+}
+
+function task(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: id,
+    status: "todo",
+    depends_on: [],
+    created_at: STARTED_AT,
+    updated_at: STARTED_AT,
+    attempt_count: 0,
+    ...overrides,
+  };
+}
+
+describe("crew/stop-policy", () => {
+  it("keeps going when no policy is configured", () => {
+    const w = wave({ failed: ["task-1"], blocked: ["task-2"], tokens: 10_000_000 });
+    expect(evaluateStopPolicies(policy(), state([w]), w, [])).toBeNull();
+  });
+
+  it("stops on the first block when stopOnBlock is set", () => {
+    const w = wave({ blocked: ["task-2"] });
+    const decision = evaluateStopPolicies(policy({ stopOnBlock: true }), state([w]), w, []);
+    expect(decision?.reason).toBe("stop_on_block");
+    expect(decision?.detail).toContain("task-2");
+  });
+
+  it("stops only when failures exceed maxFailuresPerWave", () => {
+    const one = wave({ failed: ["task-1"] });
+    const two = wave({ failed: ["task-1", "task-2"] });
+    const p = policy({ maxFailuresPerWave: 1 });
+
+    expect(evaluateStopPolicies(p, state([one]), one, [])).toBeNull();
+    expect(evaluateStopPolicies(p, state([two]), two, [])?.reason).toBe("failure_limit");
+  });
+
+  it("sums tokens across waves for maxTotalTokens", () => {
+    const first = wave({ waveNumber: 1, tokens: 600 });
+    const second = wave({ waveNumber: 2, tokens: 500 });
+    const p = policy({ maxTotalTokens: 1000 });
+
+    expect(evaluateStopPolicies(p, state([first]), first, [])).toBeNull();
+    expect(evaluateStopPolicies(p, state([first, second]), second, [])?.reason).toBe("token_budget");
+  });
+
+  it("stops when wall-clock time exceeds maxDurationMinutes", () => {
+    const w = wave();
+    const p = policy({ maxDurationMinutes: 30 });
+    const start = new Date(STARTED_AT).getTime();
+
+    expect(evaluateStopPolicies(p, state([w]), w, [], start + 29 * 60000)).toBeNull();
+    expect(evaluateStopPolicies(p, state([w]), w, [], start + 31 * 60000)?.reason).toBe("time_budget");
+  });
+
+  it("stops on a MAJOR_RETHINK review made during the run", () => {
+    const w = wave();
+    const review = (reviewed_at: string) => ({
+      verdict: "MAJOR_RETHINK" as const,
+      summary: "Wrong approach",
+      issues: [],
+      suggestions: [],
+      reviewed_at,
+    });
+    const p = policy({ stopOnMajorRethink: true });
+
+    const stale = [task("task-1", { last_review: review("2025-12-31T00:00:00.000Z") })];
+    expect(evaluateStopPolicies(p, state([w]), w, stale)).toBeNull();
+
+    const fresh = [task("task-1", { last_review: review("2026-01-01T01:00:00.000Z") })];
+    const decision = evaluateStopPolicies(p, state([w]), w, fresh);
+    expect(decision?.reason).toBe("major_rethink");
+    expect(decision?.detail).toContain("task-1");
+  });
+
+  it("checkBudget trips once plan spend reaches either limit", () => {
+    const usage = { input: 400, output: 100, cacheRead: 500, cacheWrite: 0, cost: 1.5 };
+
+    expect(checkBudget(undefined, usage)).toBeNull();
+    expect(checkBudget({ maxCostUsd: 2 }, usage)).toBeNull();
+    expect(checkBudget({ maxCostUsd: 1.5 }, usage)?.reason).toBe("budget_exceeded");
+    expect(checkBudget({ maxTokens: 1000 }, usage)?.reason).toBe("budget_exceeded");
+    expect(checkBudget({ maxTokens: 1001 }, usage)).toBeNull();
+  });
+});
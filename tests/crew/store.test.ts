@@ -39,8 +39,8 @@ describe("crew/store", () => {
       const t1 = store.createTask(cwd, "Task one", "Desc one");
       const t2 = store.createTask(cwd, "Task two", "Desc two");
 
-      expect(fs.existsSync(path.join(dirs.crewDir, "plan.json"))).toBe(true);
-      expect(fs.existsSync(path.join(dirs.crewDir, "plan.md"))).toBe(true);
+      expect(fs.existsSync(path.join(dirs.planDir, "plan.json"))).toBe(true);
+      expect(fs.existsSync(path.join(dirs.planDir, "plan.md"))).toBe(true);
       expect(fs.existsSync(path.join(dirs.tasksDir, `${t1.id}.json`))).toBe(true);
       expect(fs.existsSync(path.join(dirs.tasksDir, `${t1.id}.md`))).toBe(true);
       expect(fs.existsSync(path.join(dirs.tasksDir, `${t2.id}.json`))).toBe(true);
@@ -48,8 +48,8 @@ describe("crew/store", () => {
 
       const deleted = store.deletePlan(cwd);
       expect(deleted).toBe(true);
-      expect(fs.existsSync(path.join(dirs.crewDir, "plan.json"))).toBe(false);
-      expect(fs.existsSync(path.join(dirs.crewDir, "plan.md"))).toBe(false);
+      expect(fs.existsSync(path.join(dirs.planDir, "plan.json"))).toBe(false);
+      expect(fs.existsSync(path.join(dirs.planDir, "plan.md"))).toBe(false);
       expect(fs.existsSync(path.join(dirs.tasksDir, `${t1.id}.json`))).toBe(false);
       expect(fs.existsSync(path.join(dirs.tasksDir, `${t1.id}.md`))).toBe(false);
       expect(fs.existsSync(path.join(dirs.tasksDir, `${t2.id}.json`))).toBe(false);
@@ -303,6 +303,134 @@ describe("crew/store", () => {
     });
   });
 
+  describe("wave scheduling (getScheduledReadyTasks)", () => {
+    it("orders ready tasks by longest downstream chain", () => {
+      store.createPlan(cwd, "docs/PRD.md");
+      const leaf = store.createTask(cwd, "Standalone", "Desc");
+      const head = store.createTask(cwd, "Chain head", "Desc");
+      const mid = store.createTask(cwd, "Chain mid", "Desc", [head.id]);
+      store.createTask(cwd, "Chain tail", "Desc", [mid.id]);
+
+      const chains = store.getDownstreamChainLengths(store.getTasks(cwd));
+      expect(chains.get(head.id)).toBe(3);
+      expect(chains.get(leaf.id)).toBe(1);
+
+      const order = store.getScheduledReadyTasks(cwd).map(t => t.id);
+      expect(order).toEqual([head.id, leaf.id]);
+    });
+
+    it("puts priority ahead of chain length and keeps ID order for ties", () => {
+      store.createPlan(cwd, "docs/PRD.md");
+      const a = store.createTask(cwd, "A", "Desc");
+      const b = store.createTask(cwd, "B", "Desc");
+      const urgent = store.createTask(cwd, "Urgent", "Desc", undefined, undefined, "high");
+      const later = store.createTask(cwd, "Later", "Desc", undefined, undefined, "low");
+      store.createTask(cwd, "After later", "Desc", [later.id]);
+
+      const order = store.getScheduledReadyTasks(cwd).map(t => t.id);
+      expect(order).toEqual([urgent.id, a.id, b.id, later.id]);
+      expect(store.getTask(cwd, a.id)?.priority).toBeUndefined();
+    });
+
+    it("ignores done dependents when measuring chains", () => {
+      store.createPlan(cwd, "docs/PRD.md");
+      const t1 = store.createTask(cwd, "Task one", "Desc");
+      const t2 = store.createTask(cwd, "Task two", "Desc", [t1.id]);
+      store.updateTask(cwd, t2.id, { status: "done" });
+
+      expect(store.getDownstreamChainLengths(store.getTasks(cwd)).get(t1.id)).toBe(1);
+    });
+  });
+
+  describe("named plans", () => {
+    it("keeps tasks of separate plans apart, each numbered from task-1", () => {
+      store.createPlan(cwd, "docs/feature.md", "feature");
+      const f1 = store.createTask(cwd, "Feature task", undefined, undefined, "feature");
+      store.createPlan(cwd, "docs/debt.md", "debt");
+      const d1 = store.createTask(cwd, "Debt task", undefined, undefined, "debt");
+
+      expect(f1.id).toBe("task-1");
+      expect(d1.id).toBe("task-1");
+      expect(store.getTasks(cwd, "feature").map(t => t.title)).toEqual(["Feature task"]);
+      expect(store.getTasks(cwd, "debt").map(t => t.title)).toEqual(["Debt task"]);
+      expect(store.getPlan(cwd, "feature")?.task_count).toBe(1);
+    });
+
+    it("createPlan makes the new plan active and setActivePlan switches it", () => {
+      store.createPlan(cwd, "docs/feature.md", "feature");
+      store.createPlan(cwd, "docs/debt.md", "debt");
+
+      expect(store.getActivePlan(cwd)).toBe("debt");
+      expect(store.getPlan(cwd)?.prd).toBe("docs/debt.md");
+
+      store.setActivePlan(cwd, "feature");
+      expect(store.getPlan(cwd)?.prd).toBe("docs/feature.md");
+      expect(Object.fromEntries(store.listPlans(cwd).map(p => [p.slug, p.active]))).toEqual({
+        feature: true,
+        debt: false,
+      });
+    });
+
+    it("deletePlan leaves other plans intact and repoints the active plan", () => {
+      store.createPlan(cwd, "docs/feature.md", "feature");
+      store.createTask(cwd, "Feature task", undefined, undefined, "feature");
+      store.createPlan(cwd, "docs/debt.md", "debt");
+
+      expect(store.deletePlan(cwd, "debt")).toBe(true);
+      expect(store.hasPlan(cwd, "debt")).toBe(false);
+      expect(store.getActivePlan(cwd)).toBe("feature");
+      expect(store.getTasks(cwd, "feature")).toHaveLength(1);
+    });
+
+    it("derives slugs from names and PRD paths", () => {
+      expect(store.toPlanSlug("Tech Debt Q3")).toBe("tech-debt-q3");
+      expect(store.toPlanSlug("../escape")).toBe("escape");
+      expect(store.planSlugFromPrd("docs/PRD.md")).toBe("prd");
+    });
+
+    it("migrates a legacy single-plan layout into plans/default", () => {
+      fs.writeFileSync(path.join(dirs.crewDir, "plan.json"), JSON.stringify({
+        prd: "PRD.md",
+        created_at: "2026-01-01T00:00:00.000Z",
+        updated_at: "2026-01-01T00:00:00.000Z",
+        task_count: 1,
+        completed_count: 0,
+      }));
+      fs.mkdirSync(path.join(dirs.crewDir, "tasks"), { recursive: true });
+      fs.writeFileSync(path.join(dirs.crewDir, "tasks", "task-1.json"), JSON.stringify({
+        id: "task-1",
+        title: "Legacy task",
+        status: "todo",
+        depends_on: [],
+        created_at: "2026-01-01T00:00:00.000Z",
+        updated_at: "2026-01-01T00:00:00.000Z",
+        attempt_count: 0,
+      }));
+
+      expect(store.getPlan(cwd)?.prd).toBe("PRD.md");
+      expect(store.getTasks(cwd).map(t => t.title)).toEqual(["Legacy task"]);
+      expect(store.getActivePlan(cwd)).toBe("default");
+      expect(fs.existsSync(path.join(dirs.crewDir, "plan.json"))).toBe(false);
+      expect(fs.existsSync(path.join(dirs.tasksDir, "task-1.json"))).toBe(true);
+    });
+  });
+
+  describe("usage accounting", () => {
+    it("recordUsage accumulates on the task and the plan", () => {
+      store.createPlan(cwd, "docs/PRD.md");
+      const task = store.createTask(cwd, "Task one");
+      const usage = { input: 100, output: 20, cacheRead: 500, cacheWrite: 0, cost: 0.01 };
+
+      store.recordUsage(cwd, usage, task.id);
+      store.recordUsage(cwd, usage, task.id);
+      store.recordUsage(cwd, usage);
+
+      expect(store.getTask(cwd, task.id)?.usage).toEqual({ input: 200, output: 40, cacheRead: 1000, cacheWrite: 0, cost: 0.02 });
+      expect(store.getPlan(cwd)?.usage?.input).toBe(300);
+      expect(store.getPlan(cwd)?.usage?.cost).toBeCloseTo(0.03);
+    });
+  });
+
   describe("validatePlan", () => {
     it("detects orphan dependencies", () => {
       store.createPlan(cwd, "docs/PRD.md");
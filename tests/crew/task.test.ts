@@ -0,0 +1,35 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createTempCrewDirs, type TempCrewDirs } from "../helpers/temp-dirs.js";
+import { createMockContext } from "../helpers/mock-context.js";
+import { execute } from "../../crew/handlers/task.js";
+import * as store from "../../crew/store.js";
+import type { Dirs, MessengerState } from "../../lib.js";
+
+describe("crew/task.show", () => {
+  let dirs: TempCrewDirs;
+
+  const show = (id: string) =>
+    execute("show", { action: "task.show", id }, {} as MessengerState, {} as Dirs, createMockContext(dirs.cwd));
+
+  beforeEach(() => {
+    dirs = createTempCrewDirs();
+    store.createPlan(dirs.cwd, "docs/PRD.md");
+  });
+
+  it("shows a task that has no recorded usage", async () => {
+    const task = store.createTask(dirs.cwd, "Add login form", "Build it");
+
+    const response = await show(task.id);
+    expect(response.content[0].text).toContain(`# Task ${task.id}: Add login form`);
+    expect(response.content[0].text).not.toContain("**Usage:**");
+  });
+
+  it("shows the tokens and cost spent on a task", async () => {
+    const task = store.createTask(dirs.cwd, "Add login form", "Build it");
+    store.recordUsage(dirs.cwd, { input: 1200, output: 300, cacheRead: 0, cacheWrite: 0, cost: 0.5 }, task.id);
+
+    const response = await show(task.id);
+    expect(response.content[0].text).toContain("**Usage:**");
+    expect(response.details.task.usage).toMatchObject({ input: 1200, output: 300 });
+  });
+});
@@ -0,0 +1,65 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createTempCrewDirs } from "../../helpers/temp-dirs.js";
+import { getArtifactPaths, listArtifacts, pruneArtifacts } from "../../../crew/utils/artifacts.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function writeRun(
+  dir: string,
+  runId: string,
+  agent: string,
+  index: number,
+  opts: { ageDays?: number; bytes?: number; taskId?: string } = {}
+): void {
+  const paths = getArtifactPaths(dir, runId, agent, index);
+  fs.writeFileSync(paths.inputPath, "# Task");
+  fs.writeFileSync(paths.outputPath, "x".repeat(opts.bytes ?? 10));
+  fs.writeFileSync(paths.jsonlPath, "{}\n");
+  fs.writeFileSync(paths.metadataPath, JSON.stringify({ runId, agent, index, taskId: opts.taskId, exitCode: 0 }));
+
+  const time = new Date(Date.now() - (opts.ageDays ?? 0) * DAY_MS);
+  for (const file of Object.values(paths)) fs.utimesSync(file, time, time);
+}
+
+describe("crew/utils/artifacts", () => {
+  let artifactsDir: string;
+
+  beforeEach(() => {
+    artifactsDir = path.join(createTempCrewDirs().crewDir, "artifacts");
+    fs.mkdirSync(artifactsDir, { recursive: true });
+  });
+
+  it("groups files into entries with metadata, newest first", () => {
+    writeRun(artifactsDir, "aaaa1111", "crew-worker", 0, { ageDays: 2, taskId: "task-1" });
+    writeRun(artifactsDir, "bbbb2222", "crew-reviewer", 0, { ageDays: 1 });
+
+    const entries = listArtifacts(artifactsDir);
+    expect(entries.map(e => e.runId)).toEqual(["bbbb2222", "aaaa1111"]);
+    expect(entries[1]).toMatchObject({ agent: "crew-worker", index: 0, taskId: "task-1", exitCode: 0 });
+    expect(entries[1].files).toHaveLength(4);
+  });
+
+  it("prunes entries older than cleanupDays", () => {
+    writeRun(artifactsDir, "old00000", "crew-worker", 0, { ageDays: 10 });
+    writeRun(artifactsDir, "new00000", "crew-worker", 0, { ageDays: 1 });
+
+    const pruned = pruneArtifacts(artifactsDir, { cleanupDays: 7 });
+
+    expect(pruned.removed.map(e => e.runId)).toEqual(["old00000"]);
+    expect(listArtifacts(artifactsDir).map(e => e.runId)).toEqual(["new00000"]);
+  });
+
+  it("evicts the oldest entries until under the size cap", () => {
+    const mb = 1024 * 1024;
+    writeRun(artifactsDir, "run00001", "crew-worker", 0, { ageDays: 3, bytes: mb });
+    writeRun(artifactsDir, "run00002", "crew-worker", 0, { ageDays: 2, bytes: mb });
+    writeRun(artifactsDir, "run00003", "crew-worker", 0, { ageDays: 1, bytes: mb });
+
+    const pruned = pruneArtifacts(artifactsDir, { cleanupDays: 7, maxSizeMB: 2.5 });
+
+    expect(pruned.removed.map(e => e.runId)).toEqual(["run00001"]);
+    expect(listArtifacts(artifactsDir).map(e => e.runId)).toEqual(["run00003", "run00002"]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { createProgress, updateProgress } from "../../../crew/utils/progress.js";
+import { addUsage, findPricing, priceUsage, usageFromResult } from "../../../crew/utils/usage.js";
+import type { AgentResult } from "../../../crew/types.js";
+
+describe("crew/utils/usage", () => {
+  it("keeps input, output and cache tokens separate while tracking progress", () => {
+    const progress = createProgress("crew-worker");
+    const start = Date.now();
+
+    updateProgress(progress, {
+      type: "message_end",
+      message: { role: "assistant", model: "claude-sonnet-4-20250514", usage: { input: 100, output: 50, cacheRead: 1000, cacheWrite: 200 } },
+    }, start);
+    updateProgress(progress, {
+      type: "message_end",
+      message: { role: "assistant", usage: { input: 10, output: 5 } },
+    }, start);
+
+    expect(progress.usage).toEqual({ input: 110, output: 55, cacheRead: 1000, cacheWrite: 200 });
+    expect(progress.tokens).toBe(165);
+    expect(progress.model).toBe("claude-sonnet-4-20250514");
+  });
+
+  it("resolves pricing by longest prefix and ignores provider prefixes", () => {
+    expect(findPricing("claude-opus-4-5-20251101")?.input).toBe(5);
+    expect(findPricing("claude-opus-4-20250514")?.input).toBe(15);
+    expect(findPricing("anthropic/claude-sonnet-4-20250514")?.output).toBe(15);
+    expect(findPricing("some-local-model")).toBeUndefined();
+    expect(findPricing("some-local-model", { "some-local": { input: 1, output: 1, cacheRead: 0, cacheWrite: 0 } })?.input).toBe(1);
+  });
+
+  it("prices each token class at its own rate", () => {
+    const usage = priceUsage(
+      { input: 1_000_000, output: 1_000_000, cacheRead: 1_000_000, cacheWrite: 1_000_000 },
+      "claude-sonnet-4"
+    );
+    expect(usage.cost).toBeCloseTo(3 + 15 + 0.3 + 3.75);
+
+    expect(priceUsage({ input: 500, output: 500, cacheRead: 0, cacheWrite: 0 }, "unknown").cost).toBe(0);
+  });
+
+  it("prefers the streamed model over the agent config when pricing a result", () => {
+    const progress = createProgress("crew-worker");
+    progress.usage = { input: 1_000_000, output: 0, cacheRead: 0, cacheWrite: 0 };
+    progress.model = "claude-haiku-4-5";
+    const agentResult = {
+      agent: "crew-worker",
+      exitCode: 0,
+      output: "",
+      truncated: false,
+      progress,
+      config: { name: "crew-worker", model: "claude-opus-4" },
+    } as AgentResult;
+
+    expect(usageFromResult(agentResult).cost).toBeCloseTo(1);
+  });
+
+  it("adds usage records field by field", () => {
+    const a = { input: 1, output: 2, cacheRead: 3, cacheWrite: 4, cost: 0.5 };
+    expect(addUsage(a, a)).toEqual({ input: 2, output: 4, cacheRead: 6, cacheWrite: 8, cost: 1 });
+    expect(addUsage(undefined, a)).toEqual(a);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { formatIssue, parseVerdict, validateVerdict } from "../../../crew/utils/verdict.js";
+
+describe("crew/utils/verdict", () => {
+  it("reads the fenced JSON verdict block with issue locations", () => {
+    const output = `Looked at the session changes.
+
+\`\`\`json
+{
+  "verdict": "needs_work",
+  "summary": "Expiry is not enforced.",
+  "issues": [
+    { "description": "Expiry check is inverted", "file": "src/auth/session.ts", "line": 42, "severity": "major" },
+    "Missing test for logout"
+  ],
+  "suggestions": ["Extract the clock"]
+}
+\`\`\`
+`;
+    const review = parseVerdict(output);
+
+    expect(review.format).toBe("json");
+    expect(review.verdict).toBe("NEEDS_WORK");
+    expect(review.summary).toBe("Expiry is not enforced.");
+    expect(review.issues).toEqual([
+      { description: "Expiry check is inverted", file: "src/auth/session.ts", line: 42, severity: "major" },
+      { description: "Missing test for logout" },
+    ]);
+    expect(review.suggestions).toEqual(["Extract the clock"]);
+    expect(formatIssue(review.issues[0])).toBe("src/auth/session.ts:42 [major] Expiry check is inverted");
+  });
+
+  it("rejects blocks that break the schema", () => {
+    const result = validateVerdict({ verdict: "LGTM", summary: 3, issues: [{ file: "a.ts", line: 0 }] });
+    expect("errors" in result && result.errors).toEqual([
+      "verdict must be one of SHIP, NEEDS_WORK, MAJOR_RETHINK",
+      "summary must be a string",
+      "issues[0].description must be a non-empty string",
+    ]);
+  });
+
+  it("falls back to the markdown sections and reports why", () => {
+    const output = `## Verdict: SHIP
+Looks good.
+
+## Issues
+- \`src/app.ts:7\`: [minor] Unused import
+- Issue 1: e.g. naming could be clearer
+
+\`\`\`json
+{ "verdict": "SHIP", "summary": }
+\`\`\`
+`;
+    const review = parseVerdict(output);
+
+    expect(review.format).toBe("markdown");
+    expect(review.errors).toHaveLength(1);
+    expect(review.verdict).toBe("SHIP");
+    expect(review.issues).toEqual([
+      { description: "Unused import", file: "src/app.ts", line: 7, severity: "minor" },
+      { description: "Issue 1: e.g. naming could be clearer" },
+    ]);
+  });
+});
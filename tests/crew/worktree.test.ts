@@ -0,0 +1,75 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { execFileSync } from "node:child_process";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createTempCrewDirs, type TempCrewDirs } from "../helpers/temp-dirs.js";
+import type { Task } from "../../crew/types.js";
+import {
+  createTaskWorktree,
+  getHeadCommit,
+  mergeTaskBranch,
+  orderByDependencies,
+  removeTaskWorktree,
+} from "../../crew/worktree.js";
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, { cwd, encoding: "utf-8", stdio: ["ignore", "pipe", "pipe"] }).trim();
+}
+
+function commitFile(cwd: string, file: string, content: string, message: string): void {
+  fs.writeFileSync(path.join(cwd, file), content);
+  git(cwd, "add", file);
+  git(cwd, "commit", "-q", "-m", message);
+}
+
+function task(id: string, depends_on: string[] = []): Task {
+  const now = new Date().toISOString();
+  return { id, title: id, status: "done", depends_on, created_at: now, updated_at: now, attempt_count: 1 };
+}
+
+describe("crew/worktree", () => {
+  let dirs: TempCrewDirs;
+
+  beforeEach(() => {
+    dirs = createTempCrewDirs();
+    git(dirs.cwd, "init", "-q");
+    git(dirs.cwd, "config", "user.name", "Test");
+    git(dirs.cwd, "config", "user.email", "test@example.com");
+    commitFile(dirs.cwd, "shared.txt", "base\n", "base");
+  });
+
+  it("creates a task worktree on its own branch with the crew dir linked", () => {
+    const wt = createTaskWorktree(dirs.cwd, "default", "task-1", getHeadCommit(dirs.cwd));
+
+    expect(wt.branch).toBe("crew/default/task-1");
+    expect(fs.readFileSync(path.join(wt.dir, "shared.txt"), "utf-8")).toBe("base\n");
+    expect(fs.realpathSync(path.join(wt.dir, ".pi", "messenger", "crew"))).toBe(fs.realpathSync(dirs.crewDir));
+    expect(git(dirs.cwd, "status", "--porcelain")).toBe("");
+
+    removeTaskWorktree(dirs.cwd, "default", "task-1");
+    expect(fs.existsSync(wt.dir)).toBe(false);
+    expect(git(dirs.cwd, "branch", "--list", wt.branch)).toBe("");
+  });
+
+  it("merges a finished branch and reports conflicts without leaving a merge in progress", () => {
+    const base = getHeadCommit(dirs.cwd);
+    const one = createTaskWorktree(dirs.cwd, "default", "task-1", base);
+    const two = createTaskWorktree(dirs.cwd, "default", "task-2", base);
+    commitFile(one.dir, "shared.txt", "from task-1\n", "task-1");
+    commitFile(two.dir, "shared.txt", "from task-2\n", "task-2");
+
+    expect(mergeTaskBranch(dirs.cwd, "default", task("task-1")).ok).toBe(true);
+    expect(fs.readFileSync(path.join(dirs.cwd, "shared.txt"), "utf-8")).toBe("from task-1\n");
+
+    const outcome = mergeTaskBranch(dirs.cwd, "default", task("task-2"));
+    expect(outcome.ok).toBe(false);
+    if (!outcome.ok) expect(outcome.conflicts).toEqual(["shared.txt"]);
+    expect(git(dirs.cwd, "status", "--porcelain")).toBe("");
+  });
+
+  it("orders tasks after their dependencies", () => {
+    const tasks = [task("task-1"), task("task-2", ["task-3"]), task("task-3", ["task-1"])];
+    expect(orderByDependencies(["task-2", "task-3", "task-1"], tasks)).toEqual(["task-1", "task-3", "task-2"]);
+    expect(orderByDependencies(["task-2"], tasks)).toEqual(["task-2"]);
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AgentMailMessage, MessagePriority } from "../lib.js";
+import { createPriorityDelivery, type PriorityDelivery } from "../delivery.js";
+
+function message(text: string, priority?: MessagePriority): AgentMailMessage {
+  return {
+    id: text,
+    from: "Peer",
+    to: "Me",
+    text,
+    timestamp: new Date().toISOString(),
+    replyTo: null,
+    ...(priority ? { priority } : {}),
+  };
+}
+
+describe("delivery/priorities", () => {
+  let shown: string[];
+  let digests: string[][];
+  let acknowledged: string[];
+  let delivery: PriorityDelivery;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    shown = [];
+    digests = [];
+    acknowledged = [];
+    delivery = createPriorityDelivery({
+      show: msg => shown.push(msg.text),
+      showDigest: messages => digests.push(messages.map(m => m.text)),
+      acknowledge: messages => acknowledged.push(...messages.map(m => m.text)),
+    });
+  });
+
+  afterEach(() => {
+    delivery.dispose();
+    vi.useRealTimers();
+  });
+
+  it("shows urgent messages at once and defers normal ones until the turn ends", () => {
+    delivery.markRunning();
+
+    expect(delivery.deliver(message("Build is red"))).toBe(true);
+    expect(delivery.deliver(message("When you get a chance", "normal"))).toBe(false);
+    expect(shown).toEqual(["Build is red"]);
+
+    delivery.turnEnded();
+    expect(shown).toEqual(["Build is red", "When you get a chance"]);
+    expect(acknowledged).toEqual(["When you get a chance"]);
+  });
+
+  it("shows normal messages at once while the agent is idle", () => {
+    expect(delivery.deliver(message("When you get a chance", "normal"))).toBe(true);
+    expect(shown).toEqual(["When you get a chance"]);
+  });
+
+  it("collects fyi messages into one digest once the agent is idle", () => {
+    delivery.markRunning();
+    delivery.deliver(message("Merged #12", "fyi"));
+    delivery.deliver(message("Merged #13", "fyi"));
+    vi.advanceTimersByTime(10_000);
+    expect(digests).toEqual([]);
+
+    delivery.agentEnded();
+    expect(digests).toEqual([["Merged #12", "Merged #13"]]);
+
+    delivery.deliver(message("Merged #14", "fyi"));
+    vi.advanceTimersByTime(10_000);
+    expect(digests).toEqual([["Merged #12", "Merged #13"], ["Merged #14"]]);
+    expect(acknowledged).toEqual(["Merged #12", "Merged #13", "Merged #14"]);
+    expect(shown).toEqual([]);
+  });
+
+  it("caps incoming priorities at maxPriority", () => {
+    const capped = createPriorityDelivery({
+      maxPriority: "normal",
+      show: msg => shown.push(msg.text),
+      showDigest: () => {},
+      acknowledge: () => {},
+    });
+    capped.markRunning();
+    expect(capped.deliver(message("Build is red"))).toBe(false);
+    capped.agentEnded();
+    expect(shown).toEqual(["Build is red"]);
+  });
+});
@@ -0,0 +1,646 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createTempCrewDirs } from "./helpers/temp-dirs.js";
+import { createMockContext } from "./helpers/mock-context.js";
+import type { AgentMailMessage, AgentRegistration, Dirs, MessagePayload, MessengerState, ReservationMode } from "../lib.js";
+import {
+  executeAsk,
+  executeChannelJoin,
+  executeChannelLeave,
+  executeChannelList,
+  executeChannelSend,
+  executeHistory,
+  executeList,
+  executeRelease,
+  executeReply,
+  executeSchedule,
+  executeScheduleCancel,
+  executeScheduleList,
+  executeReserve,
+  executeReserveRequest,
+  executeReserveSteal,
+  executeSend,
+  executeSendAndWait,
+  executeThread,
+  executeWhois,
+  resolveDueReservationRequests,
+  resolveReservationRequest,
+} from "../handlers.js";
+import {
+  addReservationRequest,
+  flushReadReceipts,
+  flushScheduledMessages,
+  getConflictsWithOtherAgents,
+  getRepoContext,
+  getReservationQueue,
+  getReservationRequests,
+  invalidateAgentsCache,
+  processAllPendingMessages,
+  processReservationQueue,
+  updateRegistration,
+} from "../store.js";
+import { readFeedEvents } from "../feed.js";
+import { appendMessageLog, backfillChatHistory, pruneMessageLog } from "../message-log.js";
+
+function writeRegistration(dirs: Dirs, reg: Partial<AgentRegistration>): void {
+  fs.mkdirSync(dirs.registry, { recursive: true });
+  fs.writeFileSync(path.join(dirs.registry, `${reg.name}.json`), JSON.stringify({
+    pid: process.pid,
+    sessionId: "",
+    model: "test",
+    startedAt: new Date().toISOString(),
+    isHuman: false,
+    session: { toolCalls: 0, tokens: 0, filesModified: [] },
+    activity: { lastActivityAt: new Date().toISOString() },
+    ...reg,
+  }));
+  invalidateAgentsCache();
+}
+
+describe("handlers/reservation takeover", async () => {
+  let cwd: string;
+  let dirs: Dirs;
+  let state: MessengerState;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    cwd = fs.realpathSync(createTempCrewDirs().root);
+    vi.spyOn(process, "cwd").mockReturnValue(cwd);
+    const base = path.join(cwd, "messenger");
+    dirs = { base, registry: path.join(base, "registry"), inbox: path.join(base, "inbox") };
+    state = {
+      agentName: "Me",
+      registered: true,
+      scopeToFolder: false,
+      isHuman: false,
+      reservations: [],
+      chatHistory: new Map(),
+      broadcastHistory: [],
+      channels: [],
+      session: { toolCalls: 0, tokens: 0, filesModified: [] },
+      activity: { lastActivityAt: new Date().toISOString() },
+    } as unknown as MessengerState;
+    writeRegistration(dirs, { name: "Me", cwd });
+  });
+
+  function holder(name: string, pattern: string, idleMs: number, mode?: ReservationMode): void {
+    const since = new Date(Date.now() - idleMs).toISOString();
+    writeRegistration(dirs, {
+      name,
+      cwd,
+      activity: { lastActivityAt: since },
+      reservations: [{ pattern, ...(mode ? { mode } : {}), repo: getRepoContext(cwd).id, since }],
+    });
+  }
+
+  it("hands a requested reservation over from a stuck holder", async () => {
+    holder("Sleepy", "src/", 2 * 60 * 60_000);
+
+    const outcome = await resolveReservationRequest(state, dirs, createMockContext(cwd), { paths: ["src/a.ts"], cwd }, 900);
+
+    expect(outcome.granted).toEqual(["src/a.ts"]);
+    expect(state.reservations.map(r => r.pattern)).toEqual(["src/a.ts"]);
+    const sleepy = JSON.parse(fs.readFileSync(path.join(dirs.registry, "Sleepy.json"), "utf-8")) as AgentRegistration;
+    expect(sleepy.reservations).toBeUndefined();
+    expect(readFeedEvents(dirs).map(e => [e.type, e.target, e.preview])).toContainEqual(["reserve.grant", "src/", "Sleepy"]);
+    expect(fs.readdirSync(path.join(dirs.inbox, "Sleepy"))).toHaveLength(1);
+  });
+
+  it("leaves the reservation with a holder that is still active", async () => {
+    holder("Busy", "src/a.ts", 60_000);
+
+    const outcome = await resolveReservationRequest(state, dirs, createMockContext(cwd), { paths: ["src/a.ts"], cwd }, 900);
+
+    expect(outcome.granted).toEqual([]);
+    expect(outcome.denied).toEqual([{ agent: "Busy", patterns: ["src/a.ts"] }]);
+    expect(state.reservations).toEqual([]);
+  });
+
+  it("stores a request for a glob overlapping a held directory and resolves it once due", async () => {
+    holder("Sleepy", "src/", 2 * 60 * 60_000);
+    const ctx = createMockContext(cwd);
+
+    const response = await executeReserveRequest(state, dirs, ctx, ["src/*.ts"], undefined, undefined, "exclusive", { timeout: 0 });
+
+    expect(response.details.requested).toEqual([{ agent: "Sleepy", patterns: ["src/"] }]);
+    expect(getReservationRequests(dirs)).toMatchObject([{ agent: "Me", paths: ["src/*.ts"] }]);
+
+    const outcomes = await resolveDueReservationRequests(state, dirs, ctx, 900);
+
+    expect(outcomes).toEqual(["Reservation request granted: src/*.ts. Taken over: src/ (from Sleepy)."]);
+    expect(getReservationRequests(dirs)).toEqual([]);
+    expect(await resolveDueReservationRequests(state, dirs, ctx, 900)).toEqual([]);
+  });
+
+  it("keeps every request stored by agents asking at the same time", async () => {
+    const dueAt = new Date(Date.now() + 60_000).toISOString();
+    await Promise.all(["One", "Two", "Three"].map(agent =>
+      addReservationRequest(dirs, { agent, paths: ["src/a.ts"], cwd, dueAt })
+    ));
+    expect(getReservationRequests(dirs).map(r => r.agent).sort()).toEqual(["One", "Three", "Two"]);
+  });
+
+  it("lets only humans steal, with an audited reason", async () => {
+    holder("Busy", "src/a.ts", 60_000);
+    const ctx = createMockContext(cwd);
+
+    expect((await executeReserveSteal(state, dirs, ctx, ["src/a.ts"], "hotfix")).details.error).toBe("not_human");
+
+    state.isHuman = true;
+    expect((await executeReserveSteal(state, dirs, ctx, ["src/a.ts"])).details.error).toBe("missing_reason");
+
+    const response = await executeReserveSteal(state, dirs, ctx, ["src/a.ts"], "prod hotfix");
+    expect(response.details.stolen).toEqual([{ agent: "Busy", patterns: ["src/a.ts"] }]);
+
+    holder("Other", "src/lib/", 60_000);
+    expect((await executeReserveSteal(state, dirs, ctx, ["src/**/*.ts"], "refactor")).details.stolen)
+      .toEqual([{ agent: "Other", patterns: ["src/lib/"] }]);
+    expect(readFeedEvents(dirs).map(e => [e.type, e.preview])).toContainEqual(["reserve.steal", "Busy: prod hotfix"]);
+  });
+
+  it("lets shared readers coexist while blocking writers and exclusive reservations", async () => {
+    holder("Reader", "src/types.ts", 0, "shared");
+    holder("Planner", "src/", 0, "intent");
+    const ctx = createMockContext(cwd);
+
+    expect((await executeReserve(state, dirs, ctx, ["src/types.ts"])).details.error).toBe("reservation_conflict");
+    expect((await executeReserve(state, dirs, ctx, ["src/types.ts"], undefined, undefined, "shared")).details.error).toBeUndefined();
+    expect(state.reservations.map(r => [r.pattern, r.mode])).toEqual([["src/types.ts", "shared"]]);
+
+    const conflicts = getConflictsWithOtherAgents("src/types.ts", state, dirs, cwd);
+    expect(conflicts.map(c => [c.agent, c.mode])).toEqual([["Reader", "shared"]]);
+    expect(getConflictsWithOtherAgents("src/other.ts", state, dirs, cwd)).toEqual([]);
+  });
+
+  it("queues a waiter and hands the reservation over on release", async () => {
+    const ctx = createMockContext(cwd);
+    const busy = { ...state, agentName: "Busy", reservations: [] } as MessengerState;
+    writeRegistration(dirs, { name: "Busy", cwd });
+    expect((await executeReserve(busy, dirs, ctx, ["src/a.ts"])).details.error).toBeUndefined();
+
+    const queued = await executeReserve(state, dirs, ctx, ["src/a.ts"], "fix typo", undefined, "exclusive", true);
+    expect(queued.details.queued).toEqual([{ pattern: "src/a.ts", behind: ["Busy"], position: 1 }]);
+    expect(state.reservations).toEqual([]);
+    expect(executeList(state, dirs).content[0].text).toContain("\u23F3 src/a.ts (#1)");
+    expect(executeWhois(state, dirs, "Busy").content[0].text).toContain("Me waiting for src/a.ts (fix typo)");
+
+    const released = await executeRelease(busy, dirs, ctx, ["src/a.ts"]);
+    expect(released.details.granted).toEqual([{ agent: "Me", pattern: "src/a.ts" }]);
+    expect(fs.readdirSync(path.join(dirs.inbox, "Me"))).toHaveLength(1);
+
+    updateRegistration(state, dirs, ctx);
+    expect(state.reservations.map(r => [r.pattern, r.reason])).toEqual([["src/a.ts", "fix typo"]]);
+    expect(getConflictsWithOtherAgents("src/a.ts", busy, dirs, cwd).map(c => c.agent)).toEqual(["Me"]);
+  });
+
+  it("keeps a glob waiter queued while the holder still has the directory", async () => {
+    const ctx = createMockContext(cwd);
+    const busy = { ...state, agentName: "Busy", reservations: [] } as MessengerState;
+    writeRegistration(dirs, { name: "Busy", cwd });
+    expect((await executeReserve(busy, dirs, ctx, ["src/"])).details.error).toBeUndefined();
+
+    const queued = await executeReserve(state, dirs, ctx, ["src/*.ts"], undefined, undefined, "exclusive", true);
+    expect(queued.details.queued).toEqual([{ pattern: "src/*.ts", behind: ["Busy"], position: 1 }]);
+    expect(await processReservationQueue(busy, dirs)).toEqual([]);
+
+    const released = await executeRelease(busy, dirs, ctx, ["src/"]);
+    expect(released.details.granted).toEqual([{ agent: "Me", pattern: "src/*.ts" }]);
+  });
+
+  it("grants a waiter once when two agents process the queue at the same time", async () => {
+    const ctx = createMockContext(cwd);
+    const busy = { ...state, agentName: "Busy", reservations: [] } as MessengerState;
+    const other = { ...state, agentName: "Other", reservations: [] } as MessengerState;
+    writeRegistration(dirs, { name: "Busy", cwd });
+    writeRegistration(dirs, { name: "Other", cwd });
+    await executeReserve(busy, dirs, ctx, ["src/a.ts"]);
+    await Promise.all([
+      executeReserve(state, dirs, ctx, ["src/a.ts"], undefined, undefined, "exclusive", true),
+      executeReserve(other, dirs, ctx, ["src/a.ts"], undefined, undefined, "exclusive", true),
+    ]);
+    expect(getReservationQueue(dirs).map(w => w.agent).sort()).toEqual(["Me", "Other"]);
+
+    busy.reservations = [];
+    updateRegistration(busy, dirs, ctx);
+    const granted = await Promise.all([processReservationQueue(busy, dirs), processReservationQueue(other, dirs)]);
+    expect(granted.flat().map(w => w.agent)).toEqual(["Me"]);
+    expect(getReservationQueue(dirs).map(w => w.agent)).toEqual(["Other"]);
+  });
+});
+
+describe("handlers/threads", () => {
+  let dirs: Dirs;
+  let state: MessengerState;
+
+  beforeEach(() => {
+    const base = path.join(createTempCrewDirs().root, "messenger");
+    dirs = { base, registry: path.join(base, "registry"), inbox: path.join(base, "inbox") };
+    state = {
+      agentName: "Me",
+      registered: true,
+      scopeToFolder: false,
+      chatHistory: new Map(),
+      broadcastHistory: [],
+    } as unknown as MessengerState;
+    writeRegistration(dirs, { name: "Peer", cwd: base });
+  });
+
+  it("threads replies by short ID and shows the conversation tree", () => {
+    const question = {
+      id: "aaaaaaaa-0000-0000-0000-000000000000",
+      from: "Peer",
+      to: "Me",
+      text: "Which schema version?",
+      timestamp: new Date(Date.now() - 60_000).toISOString(),
+      replyTo: null,
+      threadId: "aaaaaaaa-0000-0000-0000-000000000000",
+    };
+    state.chatHistory.set("Peer", [question]);
+
+    const sent = executeSend(state, dirs, "Peer", false, "v2, see types.ts", "aaaaaaaa");
+    expect(sent.details.messages).toEqual([
+      { to: "Peer", id: expect.any(String), threadId: question.id },
+    ]);
+    expect(state.chatHistory.get("Peer")?.[1].replyTo).toBe(question.id);
+
+    const tree = executeThread(state, "aaaaaaaa").content[0].text;
+    expect(tree).toContain("# Thread aaaaaaaa (2 message(s))");
+    expect(tree).toMatch(/^- Peer → you .*: Which schema version\?$/m);
+    expect(tree).toMatch(/^  - You → Peer .*: v2, see types.ts$/m);
+
+    expect(executeThread(state).content[0].text).toContain("aaaaaaaa with Peer - 2 message(s)");
+    expect(executeThread(state, "zzzz").details.error).toBe("thread_not_found");
+  });
+
+  it("attaches a validated payload to the delivered message", () => {
+    const sent = executeSend(state, dirs, "Peer", false, "Look here", undefined, undefined, {
+      kind: "files",
+      files: ["src/auth.ts:10-24", { path: "src/db.ts", startLine: 3, note: "pool size", extra: true }],
+    } as unknown as MessagePayload);
+    expect(sent.content[0].text).toContain("Attached: 2 files: src/auth.ts:10-24, src/db.ts:3.");
+
+    const inbox = path.join(dirs.inbox, "Peer");
+    const [file] = fs.readdirSync(inbox);
+    expect(JSON.parse(fs.readFileSync(path.join(inbox, file), "utf-8")).payload).toEqual({
+      kind: "files",
+      files: [{ path: "src/auth.ts", startLine: 10, endLine: 24 }, { path: "src/db.ts", startLine: 3, note: "pool size" }],
+    });
+    const id = (sent.details.messages as Array<{ id: string }>)[0].id.slice(0, 8);
+    expect(executeThread(state, id).content[0].text)
+      .toContain("  **Files**\n  - `src/auth.ts:10-24`");
+
+    const invalid = executeSend(state, dirs, "Peer", false, "x", undefined, undefined, { kind: "diff", diff: "" });
+    expect(invalid.details).toMatchObject({ error: "invalid_payload", errors: ["diff must be a non-empty string"] });
+  });
+
+  it("drops a received payload that doesn't validate and keeps the text", () => {
+    const inbox = path.join(dirs.inbox, "Me");
+    fs.mkdirSync(inbox, { recursive: true });
+    const base = { from: "Peer", to: "Me", timestamp: new Date().toISOString(), replyTo: null };
+    fs.writeFileSync(path.join(inbox, "1-a.json"), JSON.stringify({ ...base, id: "m1", text: "See image", payload: { kind: "image" } }));
+    fs.writeFileSync(path.join(inbox, "2-b.json"), JSON.stringify({ ...base, id: "m2", text: "See lines", payload: { kind: "files", files: ["a.ts:3"] } }));
+    state.pendingReadReceipts = [];
+
+    const received: AgentMailMessage[] = [];
+    processAllPendingMessages(state, dirs, msg => received.push(msg));
+
+    expect(received.map(m => [m.text, m.payload])).toEqual([
+      ["See image", undefined],
+      ["See lines", { kind: "files", files: [{ path: "a.ts", startLine: 3 }] }],
+    ]);
+  });
+});
+
+
+describe("handlers/history", () => {
+  let dirs: Dirs;
+  let state: MessengerState;
+
+  beforeEach(() => {
+    const base = path.join(createTempCrewDirs().root, "messenger");
+    dirs = { base, registry: path.join(base, "registry"), inbox: path.join(base, "inbox") };
+    state = {
+      agentName: "Me",
+      registered: true,
+      scopeToFolder: false,
+      chatHistory: new Map(),
+      broadcastHistory: [],
+    } as unknown as MessengerState;
+    writeRegistration(dirs, { name: "Peer", cwd: base });
+    writeRegistration(dirs, { name: "Other", cwd: base });
+  });
+
+  it("searches the log by peer, time range and text, and backfills DM tabs", () => {
+    appendMessageLog(dirs, {
+      id: "old", from: "Peer", to: "Me", text: "Schema draft is up",
+      timestamp: new Date(Date.now() - 3 * 3_600_000).toISOString(), replyTo: null,
+    });
+    executeSend(state, dirs, "Peer", false, "Reviewing the schema now");
+    executeSend(state, dirs, "Other", false, "Lunch?");
+
+    const recent = executeHistory(state, dirs, { since: "1h" });
+    expect(recent.details.messages.map((m: { text: string }) => m.text)).toEqual(["Reviewing the schema now", "Lunch?"]);
+
+    const schema = executeHistory(state, dirs, { peer: "Peer", query: "SCHEMA" });
+    expect(schema.details.messages).toHaveLength(2);
+    expect(schema.content[0].text).toContain("# Message History (2, with Peer, matching \"SCHEMA\")");
+    expect(schema.content[0].text).toMatch(/Peer → you \(id old\): Schema draft is up$/m);
+
+    expect(executeHistory(state, dirs, { until: "yesterday-ish" }).details.error).toBe("invalid_until");
+
+    const restarted = { ...state, chatHistory: new Map() } as MessengerState;
+    expect(backfillChatHistory(restarted, dirs)).toBe(3);
+    expect(restarted.chatHistory.get("Peer")?.map(m => m.text)).toEqual(["Schema draft is up", "Reviewing the schema now"]);
+    expect(backfillChatHistory(restarted, dirs)).toBe(0);
+  });
+
+  it("lists a channel message once and keeps only the newest entries after pruning", () => {
+    state.channels = ["#api"];
+    state.channelHistory = new Map();
+    writeRegistration(dirs, { name: "Peer", cwd: dirs.base, channels: ["#api"] });
+    writeRegistration(dirs, { name: "Other", cwd: dirs.base, channels: ["#api"] });
+    invalidateAgentsCache();
+    executeChannelSend(state, dirs, "#api", "Deploying v2");
+
+    const history = executeHistory(state, dirs, {});
+    expect(history.details.messages.map((m: { text: string }) => m.text)).toEqual(["Deploying v2"]);
+    expect(history.content[0].text).toContain("You → #api");
+
+    for (let i = 0; i < 5; i++) executeSend(state, dirs, "Peer", false, `Note ${i}`);
+    pruneMessageLog(dirs, 3);
+    expect(executeHistory(state, dirs, {}).details.messages.map((m: { text: string }) => m.text))
+      .toEqual(["Note 2", "Note 3", "Note 4"]);
+
+    // Longer than one read chunk, with multi-byte text across chunk boundaries
+    for (let i = 0; i < 400; i++) {
+      appendMessageLog(dirs, {
+        id: `bulk-${i}`, from: "Peer", to: "Me", text: `${i} ${"é→".repeat(100)}`,
+        timestamp: new Date().toISOString(), replyTo: null,
+      });
+    }
+    const newest = executeHistory(state, dirs, { limit: 400 }).details.messages as Array<{ id: string; text: string }>;
+    expect(newest.map(m => m.id)).toEqual(Array.from({ length: 400 }, (_, i) => `bulk-${i}`));
+    expect(newest.every(m => m.text.endsWith("é→".repeat(100)))).toBe(true);
+  });
+});
+
+describe("handlers/receipts", () => {
+  let dirs: Dirs;
+  let me: MessengerState;
+  let peer: MessengerState;
+
+  const agentState = (agentName: string) => ({
+    agentName,
+    registered: true,
+    scopeToFolder: false,
+    chatHistory: new Map(),
+    broadcastHistory: [],
+    pendingReadReceipts: [],
+  }) as unknown as MessengerState;
+
+  beforeEach(() => {
+    const base = path.join(createTempCrewDirs().root, "messenger");
+    dirs = { base, registry: path.join(base, "registry"), inbox: path.join(base, "inbox") };
+    me = agentState("Me");
+    peer = agentState("Peer");
+    for (const name of ["Me", "Peer"]) {
+      writeRegistration(dirs, { name, cwd: base });
+      fs.mkdirSync(path.join(dirs.inbox, name), { recursive: true });
+    }
+  });
+
+  it("waits for delivered and read receipts written back by the recipient", async () => {
+    const pending = executeSendAndWait(me, dirs, "Peer", "Rebase onto main please", undefined, "read", 5);
+
+    const delivered: string[] = [];
+    processAllPendingMessages(peer, dirs, msg => delivered.push(msg.text));
+    processAllPendingMessages(me, dirs, () => {});
+    expect(delivered).toEqual(["Rebase onto main please"]);
+    expect(me.chatHistory.get("Peer")?.[0].deliveredAt).toBeDefined();
+    expect(me.chatHistory.get("Peer")?.[0].readAt).toBeUndefined();
+
+    flushReadReceipts(peer, dirs);
+    processAllPendingMessages(me, dirs, () => {});
+
+    const response = await pending;
+    expect(response.content[0].text).toContain("Read by Peer.");
+    expect(response.details.receipts).toEqual([
+      { to: "Peer", id: expect.any(String), deliveredAt: expect.any(String), readAt: expect.any(String) },
+    ]);
+    expect(peer.pendingReadReceipts).toEqual([]);
+  });
+
+  it("holds back read receipts for messages the recipient deferred", () => {
+    executeSend(me, dirs, "Peer", false, "When you get a chance", undefined, "normal");
+    processAllPendingMessages(peer, dirs, msg => msg.priority !== "normal");
+    expect(peer.pendingReadReceipts).toEqual([]);
+
+    flushReadReceipts(peer, dirs);
+    processAllPendingMessages(me, dirs, () => {});
+    const sent = me.chatHistory.get("Peer")![0];
+    expect(sent.priority).toBe("normal");
+    expect(sent.deliveredAt).toBeDefined();
+    expect(sent.readAt).toBeUndefined();
+  });
+
+  it("sends no receipts for broadcasts", () => {
+    executeSend(me, dirs, undefined, true, "Deploy freeze at 5pm");
+    const delivered: string[] = [];
+    processAllPendingMessages(peer, dirs, msg => delivered.push(msg.text));
+    flushReadReceipts(peer, dirs);
+
+    expect(delivered).toEqual(["Deploy freeze at 5pm"]);
+    expect(fs.readdirSync(path.join(dirs.inbox, "Me"))).toEqual([]);
+  });
+
+  it("reports recipients that did not acknowledge in time", async () => {
+    const response = await executeSendAndWait(me, dirs, "Peer", "Anyone there?", undefined, "delivered", 0);
+    expect(response.details.timedOut).toBe(true);
+    expect(response.details.waiting).toEqual(["Peer"]);
+    expect(response.content[0].text).toContain("No delivered receipt after 0s from Peer.");
+  });
+});
+
+describe("handlers/ask", () => {
+  let dirs: Dirs;
+  let me: MessengerState;
+  let peer: MessengerState;
+
+  const agentState = (agentName: string) => ({
+    agentName,
+    registered: true,
+    scopeToFolder: false,
+    chatHistory: new Map(),
+    broadcastHistory: [],
+    pendingReadReceipts: [],
+  }) as unknown as MessengerState;
+
+  beforeEach(() => {
+    const base = path.join(createTempCrewDirs().root, "messenger");
+    dirs = { base, registry: path.join(base, "registry"), inbox: path.join(base, "inbox") };
+    me = agentState("Me");
+    peer = agentState("Peer");
+    for (const name of ["Me", "Peer"]) {
+      writeRegistration(dirs, { name, cwd: base });
+      fs.mkdirSync(path.join(dirs.inbox, name), { recursive: true });
+    }
+  });
+
+  it("blocks until the recipient replies to the question", async () => {
+    const pending = executeAsk(me, dirs, "Peer", "What's the new signature of createTask?", 5);
+
+    processAllPendingMessages(peer, dirs, msg => peer.chatHistory.set(msg.from, [msg]));
+    const question = peer.chatHistory.get("Me")![0];
+    expect(question.question).toBe(true);
+    executeReply(peer, dirs, question.id.slice(0, 8), "createTask(cwd, title, options?)");
+
+    const delivered: string[] = [];
+    processAllPendingMessages(me, dirs, msg => delivered.push(msg.text));
+    const response = await pending;
+
+    expect(delivered).toEqual([]);
+    expect(response.details.answer.text).toBe("createTask(cwd, title, options?)");
+    expect(response.content[0].text).toContain("Peer answered");
+    expect(me.chatHistory.get("Peer")?.map(m => m.text)).toEqual([
+      "What's the new signature of createTask?",
+      "createTask(cwd, title, options?)",
+    ]);
+  });
+
+  it("gives up on timeout or abort and logs the unanswered question", async () => {
+    const timedOut = await executeAsk(me, dirs, "Peer", "Still there?", 0);
+    expect(timedOut.details.error).toBe("timeout");
+
+    const controller = new AbortController();
+    const pending = executeAsk(me, dirs, "Peer", "Hello?", 60, controller.signal);
+    controller.abort();
+    expect((await pending).details.error).toBe("aborted");
+
+    const unanswered = readFeedEvents(dirs).filter(e => e.type === "ask.unanswered");
+    expect(unanswered.map(e => [e.target, e.preview])).toEqual([["Peer", "Still there?"], ["Peer", "Hello?"]]);
+    expect(executeReply(me, dirs, "nope", "x").details.error).toBe("message_not_found");
+  });
+});
+
+describe("handlers/channels", () => {
+  let dirs: Dirs;
+  let me: MessengerState;
+
+  beforeEach(() => {
+    const base = path.join(createTempCrewDirs().root, "messenger");
+    dirs = { base, registry: path.join(base, "registry"), inbox: path.join(base, "inbox") };
+    me = {
+      agentName: "Me",
+      registered: true,
+      scopeToFolder: false,
+      reservations: [],
+      chatHistory: new Map(),
+      broadcastHistory: [],
+      channels: [],
+      channelHistory: new Map(),
+      session: { toolCalls: 0, tokens: 0, filesModified: [] },
+      activity: { lastActivityAt: new Date().toISOString() },
+    } as unknown as MessengerState;
+    writeRegistration(dirs, { name: "Me", cwd: base });
+    writeRegistration(dirs, { name: "Backend", cwd: base, channels: ["#api"] });
+    writeRegistration(dirs, { name: "Frontend", cwd: base, channels: ["#ui"] });
+  });
+
+  it("delivers channel messages to members only", () => {
+    const ctx = createMockContext();
+    expect(executeChannelSend(me, dirs, "#api", "v2 is live").details.error).toBe("not_member");
+    expect(executeChannelJoin(me, dirs, ctx, "API").content[0].text).toBe("Joined #api. Members: Backend.");
+
+    const reg = JSON.parse(fs.readFileSync(path.join(dirs.registry, "Me.json"), "utf-8")) as AgentRegistration;
+    expect(reg.channels).toEqual(["#api"]);
+
+    const sent = executeChannelSend(me, dirs, "#api", "v2 is live");
+    expect(sent.details.sent).toEqual(["Backend"]);
+    expect(fs.readdirSync(path.join(dirs.inbox, "Backend"))).toHaveLength(1);
+    expect(fs.existsSync(path.join(dirs.inbox, "Frontend"))).toBe(false);
+
+    const [delivered] = fs.readdirSync(path.join(dirs.inbox, "Backend"))
+      .map(f => JSON.parse(fs.readFileSync(path.join(dirs.inbox, "Backend", f), "utf-8")));
+    expect(delivered).toMatchObject({ channel: "#api", to: "Backend", text: "v2 is live", id: sent.details.id });
+    expect(me.channelHistory.get("#api")?.map(m => m.to)).toEqual(["#api"]);
+
+    expect(executeChannelList(me, dirs).content[0].text).toContain("- #api (joined): Me, Backend\n- #ui: Frontend");
+    expect(executeChannelJoin(me, dirs, ctx, "bad name!").details.error).toBe("invalid_channel");
+
+    // Nobody else in #docs: nothing sent, nothing in its history
+    executeChannelJoin(me, dirs, ctx, "#docs");
+    expect(executeChannelSend(me, dirs, "#docs", "anyone?").details.error).toBe("no_members");
+    expect(me.channelHistory.has("#docs")).toBe(false);
+
+    executeChannelLeave(me, dirs, ctx, "#api");
+    expect(me.channels).toEqual(["#docs"]);
+  });
+});
+
+describe("handlers/scheduled messages", () => {
+  let dirs: Dirs;
+  let me: MessengerState;
+  let peer: MessengerState;
+
+  const agentState = (agentName: string) => ({
+    agentName,
+    registered: true,
+    scopeToFolder: false,
+    chatHistory: new Map(),
+    broadcastHistory: [],
+  }) as unknown as MessengerState;
+
+  beforeEach(() => {
+    const base = path.join(createTempCrewDirs().root, "messenger");
+    dirs = { base, registry: path.join(base, "registry"), inbox: path.join(base, "inbox") };
+    me = agentState("Me");
+    peer = agentState("Peer");
+    writeRegistration(dirs, { name: "Me", cwd: base });
+    writeRegistration(dirs, { name: "Peer", cwd: base });
+  });
+
+  it("queues a delayed message that the sender sends once when due", async () => {
+    const scheduled = await executeSchedule(me, dirs, "Peer", false, "Time to rebase", { delay: "20m" });
+    expect(scheduled.content[0].text).toMatch(/^Scheduled for Peer at .* \(in 20m\), id [0-9a-f]{8}\./);
+    expect(executeScheduleList(me, dirs).content[0].text).toContain(`→ Peer at `);
+
+    expect(await flushScheduledMessages(me, dirs)).toEqual([]);
+    const later = Date.now() + 21 * 60_000;
+    // Left to the sender while it is live
+    expect(await flushScheduledMessages(peer, dirs, later)).toEqual([]);
+    expect((await flushScheduledMessages(me, dirs, later)).map(d => [d.message.text, d.sent])).toEqual([["Time to rebase", ["Peer"]]]);
+    expect(await flushScheduledMessages(me, dirs, later)).toEqual([]);
+    expect(me.chatHistory.get("Peer")?.map(m => m.text)).toEqual(["Time to rebase"]);
+
+    const inbox = path.join(dirs.inbox, "Peer");
+    const delivered = fs.readdirSync(inbox).map(f => JSON.parse(fs.readFileSync(path.join(inbox, f), "utf-8")));
+    expect(delivered).toMatchObject([{ from: "Me", to: "Peer", text: "Time to rebase" }]);
+    expect(executeScheduleList(me, dirs).content[0].text).toBe("No scheduled messages.");
+  });
+
+  it("sends for a sender that has left and logs recipients that have left", async () => {
+    writeRegistration(dirs, { name: "Gone", cwd: dirs.base });
+    await executeSchedule(me, dirs, ["Peer", "Gone"], false, "Standup in 5", { delay: "10m" });
+    fs.rmSync(path.join(dirs.registry, "Gone.json"));
+    fs.rmSync(path.join(dirs.registry, "Me.json"));
+    invalidateAgentsCache();
+
+    const deliveries = await flushScheduledMessages(peer, dirs, Date.now() + 11 * 60_000);
+
+    expect(deliveries.map(d => [d.message.from, d.sent, d.undeliverable])).toEqual([["Me", ["Peer"], ["Gone"]]]);
+    expect(readFeedEvents(dirs).map(e => [e.type, e.target])).toContainEqual(["message.undeliverable", "Gone"]);
+  });
+
+  it("lets only the sender cancel, and rejects unusable times", async () => {
+    const scheduled = await executeSchedule(me, dirs, undefined, true, "Freeze merges", { at: "23:59" });
+    const id = scheduled.details.scheduled.id.slice(0, 8);
+
+    expect((await executeScheduleCancel(peer, dirs, id)).details.error).toBe("not_sender");
+    expect((await executeScheduleCancel(me, dirs, id)).content[0].text).toBe(`Cancelled scheduled message ${id}.`);
+    expect((await executeScheduleCancel(me, dirs, id)).details.error).toBe("not_found");
+
+    expect((await executeSchedule(me, dirs, "Peer", false, "x", { delay: "soon" })).details.error).toBe("invalid_time");
+    expect((await executeSchedule(me, dirs, "Peer", false, "x", { at: "2020-01-01T00:00:00Z" })).details.error).toBe("time_in_past");
+  });
+});
@@ -9,6 +9,7 @@ export interface TempCrewDirs {
   root: string;
   cwd: string;
   crewDir: string;
+  planDir: string;
   tasksDir: string;
   blocksDir: string;
 }
@@ -20,13 +21,14 @@ export function createTempCrewDirs(): TempCrewDirs {
   const cwd = root;
   const messengerDir = path.join(cwd, ".pi", "messenger");
   const crewDir = path.join(messengerDir, "crew");
-  const tasksDir = path.join(crewDir, "tasks");
-  const blocksDir = path.join(crewDir, "blocks");
+  const planDir = path.join(crewDir, "plans", "default");
+  const tasksDir = path.join(planDir, "tasks");
+  const blocksDir = path.join(planDir, "blocks");
 
   fs.mkdirSync(tasksDir, { recursive: true });
   fs.mkdirSync(blocksDir, { recursive: true });
 
-  return { root, cwd, crewDir, tasksDir, blocksDir };
+  return { root, cwd, crewDir, planDir, tasksDir, blocksDir };
 }
 
 afterEach(() => {
@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import {
+  commandTargetHitsReservation,
+  formatReservation,
+  matchesReservation,
+  pathMatchesReservation,
+  reservationBlocks,
+  groupThreads,
+  effectivePriority,
+  formatDigest,
+  formatTimeUntil,
+  resolveDueTime,
+  validatePayload,
+  formatPayload,
+  payloadLines,
+  payloadSummary,
+  type AgentMailMessage,
+  type MessagePayload,
+} from "../lib.js";
+
+const since = "2026-01-01T00:00:00.000Z";
+
+describe("lib/reservations", () => {
+  it("keeps exact and directory-prefix matching", () => {
+    expect(pathMatchesReservation("src/a.ts", "src/a.ts")).toBe(true);
+    expect(pathMatchesReservation("src/a.tsx", "src/a.ts")).toBe(false);
+    expect(pathMatchesReservation("src/auth/login.ts", "src/auth/")).toBe(true);
+    expect(pathMatchesReservation("src/authz.ts", "src/auth/")).toBe(false);
+  });
+
+  it("matches globs segment by segment", () => {
+    expect(pathMatchesReservation("src/a.test.ts", "src/**/*.test.ts")).toBe(true);
+    expect(pathMatchesReservation("src/x/y/a.test.ts", "src/**/*.test.ts")).toBe(true);
+    expect(pathMatchesReservation("src/x/a.ts", "src/**/*.test.ts")).toBe(false);
+    expect(pathMatchesReservation("src/x/a.ts", "src/*.ts")).toBe(false);
+    expect(pathMatchesReservation("src/a.tsx", "src/a.{ts,tsx}")).toBe(true);
+    expect(pathMatchesReservation("lib/v2.ts", "lib/v[0-9].ts")).toBe(true);
+    expect(pathMatchesReservation("lib/v2+x.ts", "lib/v?+x.ts")).toBe(true);
+  });
+
+  it("applies ! exclusions to a reservation", () => {
+    const reservation = { pattern: "packages/api/", exclude: ["packages/api/generated/"], since };
+
+    expect(matchesReservation("packages/api/server.ts", reservation)).toBe(true);
+    expect(matchesReservation("packages/api/generated/client.ts", reservation)).toBe(false);
+    expect(formatReservation(reservation)).toBe("packages/api/ (except packages/api/generated/)");
+  });
+
+  it("treats bash targets naming a directory or glob as touching the reservation", () => {
+    const file = { pattern: "src/auth/login.ts", since };
+    const dir = { pattern: "src/auth/", since };
+
+    expect(commandTargetHitsReservation("src/auth/login.ts", file)).toBe(true);
+    expect(commandTargetHitsReservation("src", file)).toBe(true);
+    expect(commandTargetHitsReservation("src/", dir)).toBe(true);
+    expect(commandTargetHitsReservation("**", dir)).toBe(true);
+    expect(commandTargetHitsReservation("src/auth/*.ts", file)).toBe(true);
+    expect(commandTargetHitsReservation("src/lib/", dir)).toBe(false);
+    expect(commandTargetHitsReservation("srcx", file)).toBe(false);
+  });
+
+  it("detects overlap between globs and held directories or globs", () => {
+    const hit = (target: string, pattern: string) => commandTargetHitsReservation(target, { pattern, since });
+
+    expect(hit("src/**/*.ts", "src/")).toBe(true);
+    expect(hit("src/*.ts", "src/")).toBe(true);
+    expect(hit("src/**/*.ts", "src/**/*.test.ts")).toBe(true);
+    expect(hit("*.ts", "lib/x.ts")).toBe(true);
+    expect(hit("src/*.{ts,tsx}", "src/*.tsx")).toBe(true);
+    expect(hit("src/*.ts", "lib/")).toBe(false);
+    expect(hit("src/*.md", "src/*.ts")).toBe(false);
+    expect(hit("src/*.ts", "src/auth/login.ts")).toBe(false);
+    expect(hit("packages/api/generated/client.ts", "packages/api/")).toBe(true);
+    expect(commandTargetHitsReservation("packages/api/generated/client.ts", {
+      pattern: "packages/api/", exclude: ["packages/api/generated/"], since,
+    })).toBe(false);
+  });
+
+  it("applies the reservation mode compatibility matrix", () => {
+    expect(reservationBlocks(undefined, "write")).toBe(true);
+    expect(reservationBlocks("exclusive", "shared")).toBe(true);
+    expect(reservationBlocks("shared", "shared")).toBe(false);
+    expect(reservationBlocks("shared", "write")).toBe(true);
+    expect(reservationBlocks("shared", "exclusive")).toBe(true);
+    expect(reservationBlocks("intent", "write")).toBe(false);
+    expect(reservationBlocks("exclusive", "intent")).toBe(false);
+  });
+});
+
+function mail(id: string, minute: number, replyTo: string | null = null, threadId?: string): AgentMailMessage {
+  return {
+    id,
+    from: minute % 2 ? "A" : "B",
+    to: minute % 2 ? "B" : "A",
+    text: id,
+    timestamp: `2026-01-01T00:0${minute}:00.000Z`,
+    replyTo,
+    ...(threadId ? { threadId } : {}),
+  };
+}
+
+describe("lib/threads", () => {
+  it("groups replies under their root in tree order, most recent thread last", () => {
+    const threads = groupThreads([
+      mail("root", 0, null, "root"),
+      mail("other", 1, null, "other"),
+      mail("r1", 2, "root", "root"),
+      mail("r2", 3, "root", "root"),
+      mail("r1a", 4, "r1", "root"),
+    ]);
+
+    expect(threads.map(t => t.id)).toEqual(["other", "root"]);
+    expect(threads[1].messages.map(m => m.id)).toEqual(["root", "r1", "r1a", "r2"]);
+    expect(threads[1].depths).toEqual([0, 1, 2, 1]);
+  });
+
+  it("follows replyTo chains for messages without a thread ID", () => {
+    const threads = groupThreads([mail("a", 0), mail("b", 1, "a"), mail("c", 2, "b"), mail("d", 3, "gone")]);
+
+    expect(threads.map(t => [t.id, t.messages.map(m => m.id)])).toEqual([
+      ["a", ["a", "b", "c"]],
+      ["gone", ["d"]],
+    ]);
+  });
+});
+
+describe("lib/message priority", () => {
+  it("treats unset priority as urgent and caps it at the recipient's maximum", () => {
+    expect(effectivePriority(mail("a", 0))).toBe("urgent");
+    expect(effectivePriority({ ...mail("a", 0), priority: "fyi" })).toBe("fyi");
+    expect(effectivePriority(mail("a", 0), "normal")).toBe("normal");
+    expect(effectivePriority({ ...mail("a", 0), priority: "fyi" }, "normal")).toBe("fyi");
+  });
+
+  it("summarizes held fyi messages in one digest", () => {
+    const digest = formatDigest([
+      { ...mail("1111111122", 1), text: "main is green" },
+      { ...mail("2222222233", 3), text: "deploy done\nlogs in #infra", channel: "#infra" },
+    ]);
+    expect(digest).toBe([
+      "**FYI digest** (2 messages, no reply needed)",
+      "",
+      "- A [id 11111111]: main is green",
+      "- A in #infra [id 22222222]: deploy done",
+      "  logs in #infra",
+    ].join("\n"));
+  });
+});
+
+describe("lib/scheduling", () => {
+  it("resolves delays, ISO times and HH:MM that roll over to tomorrow", () => {
+    const now = new Date(2026, 2, 1, 18, 30).getTime();
+
+    expect(resolveDueTime(undefined, "20m", now)).toBe(now + 20 * 60_000);
+    expect(resolveDueTime("17:00", undefined, now)).toBe(new Date(2026, 2, 2, 17, 0).getTime());
+    expect(resolveDueTime("19:05", undefined, now)).toBe(new Date(2026, 2, 1, 19, 5).getTime());
+    expect(resolveDueTime("2026-03-05T09:00:00Z", undefined, now)).toBe(Date.parse("2026-03-05T09:00:00Z"));
+    expect(resolveDueTime("25:00", undefined, now)).toBeUndefined();
+    expect(resolveDueTime(undefined, "20", now)).toBeUndefined();
+  });
+
+  it("formats time left until a due time", () => {
+    const now = Date.parse("2026-03-01T12:00:00Z");
+    const at = (min: number) => new Date(now + min * 60_000).toISOString();
+    expect(formatTimeUntil(at(20), now)).toBe("in 20m");
+    expect(formatTimeUntil(at(185), now)).toBe("in 3h 5m");
+    expect(formatTimeUntil(at(60 * 26), now)).toBe("in 1d 2h");
+    expect(formatTimeUntil(at(-5), now)).toBe("now");
+  });
+});
+
+describe("lib/message payloads", () => {
+  it("rejects malformed payloads with one error per problem", () => {
+    expect(validatePayload("src/a.ts")).toEqual({ errors: ["payload must be an object"] });
+    expect(validatePayload({ kind: "image" })).toEqual({ errors: ["kind must be one of files, diff, task, json"] });
+    expect(validatePayload({ kind: "files", files: [{ path: "a.ts", startLine: 0 }, "b.ts", { path: "c.ts", endLine: 4 }] })).toEqual({
+      errors: ["files[0].startLine must be a positive integer", "files[2].endLine must be a line number at or after startLine"],
+    });
+    expect(validatePayload({ kind: "task", taskId: "task-3", title: 7 })).toEqual({ errors: ["title must be a string"] });
+  });
+
+  it("summarizes a diff and fences it so backticks inside can't end the block", () => {
+    const diff = "--- a/README.md\n+++ b/README.md\n@@ -1,2 +1,2 @@\n-Run ```npm test```\n+Run `npm test`\n+Then lint\n";
+    const checked = validatePayload({ kind: "diff", diff });
+    if (!("payload" in checked)) throw new Error("expected a valid payload");
+
+    expect(payloadSummary(checked.payload)).toBe("diff README.md (+2 -1)");
+    expect(formatPayload(checked.payload)).toBe(`**Diff** README.md (+2 -1)\n\n\`\`\`\`diff\n${diff.trimEnd()}\n\`\`\`\``);
+    expect(formatPayload({ kind: "task", taskId: "task-3", plan: "auth", title: "Add session helper" })).toBe(
+      "**Task** task-3 in plan auth: Add session helper \u2014 details: pi_messenger({ action: \"task.show\", id: \"task-3\", plan: \"auth\" })",
+    );
+  });
+
+  it("renders nothing for a payload kind it doesn't know", () => {
+    const unknown = { kind: "image", url: "x.png" } as unknown as MessagePayload;
+
+    expect(formatPayload(unknown)).toBe("");
+    expect(payloadLines(unknown)).toEqual([]);
+    expect(payloadSummary(unknown)).toBe("attachment");
+  });
+});
+
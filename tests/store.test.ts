@@ -0,0 +1,142 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createTempCrewDirs } from "./helpers/temp-dirs.js";
+import type { AgentRegistration, Dirs, MessengerState } from "../lib.js";
+import {
+  getConflictsWithOtherAgents,
+  getRepoContext,
+  invalidateAgentsCache,
+  normalizeReservationPath,
+  renewReservations,
+  revokeReservation,
+  updateRegistration,
+} from "../store.js";
+import { createMockContext } from "./helpers/mock-context.js";
+
+function registerPeer(dirs: Dirs, reg: Partial<AgentRegistration>): void {
+  fs.mkdirSync(dirs.registry, { recursive: true });
+  const now = new Date().toISOString();
+  fs.writeFileSync(path.join(dirs.registry, `${reg.name}.json`), JSON.stringify({
+    pid: process.pid,
+    sessionId: "",
+    model: "test",
+    startedAt: now,
+    isHuman: false,
+    session: { toolCalls: 0, tokens: 0, filesModified: [] },
+    activity: { lastActivityAt: now },
+    ...reg,
+  }));
+  invalidateAgentsCache();
+}
+
+describe("store/reservation paths", () => {
+  let repo: string;
+  let worktree: string;
+  let dirs: Dirs;
+
+  beforeEach(() => {
+    const root = fs.realpathSync(createTempCrewDirs().root);
+    repo = path.join(root, "repo");
+    fs.mkdirSync(path.join(repo, ".git", "worktrees", "wt"), { recursive: true });
+    fs.mkdirSync(path.join(repo, "src"), { recursive: true });
+    fs.writeFileSync(path.join(repo, "src", "a.ts"), "");
+    fs.symlinkSync(path.join(repo, "src"), path.join(repo, "lib"), "dir");
+
+    // A linked worktree, laid out the way `git worktree add` does it
+    worktree = path.join(root, "wt");
+    fs.mkdirSync(path.join(worktree, "src"), { recursive: true });
+    fs.writeFileSync(path.join(worktree, ".git"), `gitdir: ${path.join(repo, ".git", "worktrees", "wt")}\n`);
+    fs.writeFileSync(path.join(repo, ".git", "worktrees", "wt", "commondir"), "../..\n");
+
+    const base = path.join(root, "messenger");
+    dirs = { base, registry: path.join(base, "registry"), inbox: path.join(base, "inbox") };
+  });
+
+  it("normalizes relative, absolute and symlinked paths to one form", () => {
+    const sub = path.join(repo, "src");
+
+    expect(normalizeReservationPath("./src/a.ts", repo)).toBe("src/a.ts");
+    expect(normalizeReservationPath(path.join(repo, "src", "a.ts"), sub)).toBe("src/a.ts");
+    expect(normalizeReservationPath("a.ts", sub)).toBe("src/a.ts");
+    expect(normalizeReservationPath("lib/a.ts", repo)).toBe("src/a.ts");
+    expect(normalizeReservationPath("src/new/file.ts", repo)).toBe("src/new/file.ts");
+    expect(normalizeReservationPath("./src/", repo)).toBe("src/");
+    expect(normalizeReservationPath("./src/**/*.test.ts", repo)).toBe("src/**/*.test.ts");
+    expect(normalizeReservationPath("**/*.md", sub)).toBe("src/**/*.md");
+  });
+
+  it("gives linked worktrees the main repository's identity", () => {
+    expect(getRepoContext(worktree).id).toBe(getRepoContext(repo).id);
+    expect(getRepoContext(worktree).root).toBe(worktree);
+    expect(normalizeReservationPath(path.join(worktree, "src", "a.ts"), worktree)).toBe("src/a.ts");
+  });
+
+  it("finds conflicts across cwds that share a repository", () => {
+    const state = { agentName: "Me", scopeToFolder: false } as MessengerState;
+    registerPeer(dirs, {
+      name: "Peer",
+      cwd: worktree,
+      reservations: [{ pattern: "src/", repo: getRepoContext(worktree).id, since: new Date().toISOString() }],
+    });
+
+    const conflicts = getConflictsWithOtherAgents("./src/a.ts", state, dirs, repo);
+    expect(conflicts.map(c => [c.agent, c.path])).toEqual([["Peer", "src/a.ts"]]);
+
+    const elsewhere = path.join(path.dirname(repo), "other");
+    fs.mkdirSync(path.join(elsewhere, ".git"), { recursive: true });
+    expect(getConflictsWithOtherAgents("src/a.ts", state, dirs, elsewhere)).toEqual([]);
+  });
+});
+
+describe("store/reservation leases", () => {
+  let dirs: Dirs;
+
+  beforeEach(() => {
+    const base = path.join(createTempCrewDirs().root, "messenger");
+    dirs = { base, registry: path.join(base, "registry"), inbox: path.join(base, "inbox") };
+  });
+
+  it("renews half-used leases and drops lapsed ones", () => {
+    const now = Date.parse("2026-03-01T12:00:00.000Z");
+    const at = (offsetSec: number) => new Date(now + offsetSec * 1000).toISOString();
+    const state = {
+      agentName: "Me",
+      reservations: [
+        { pattern: "fresh.ts", since: at(-10), ttl: 600, expiresAt: at(590) },
+        { pattern: "aging.ts", since: at(-400), ttl: 600, expiresAt: at(200) },
+        { pattern: "lapsed.ts", since: at(-700), ttl: 600, expiresAt: at(-100) },
+        { pattern: "forever.ts", since: at(-700) },
+      ],
+    } as MessengerState;
+
+    expect(renewReservations(state, dirs, now)).toBe(true);
+    expect(state.reservations.map(r => [r.pattern, r.expiresAt])).toEqual([
+      ["fresh.ts", at(590)],
+      ["aging.ts", at(600)],
+      ["forever.ts", undefined],
+    ]);
+    expect(renewReservations(state, dirs, now)).toBe(false);
+  });
+
+  it("keeps a revoked reservation from being written back by its holder", () => {
+    const since = new Date(Date.now() - 1000).toISOString();
+    const state = {
+      agentName: "Holder",
+      registered: true,
+      reservations: [{ pattern: "src/a.ts", since }, { pattern: "src/b.ts", since }],
+      channels: [],
+      session: { toolCalls: 0, tokens: 0, filesModified: [] },
+      activity: { lastActivityAt: since },
+    } as unknown as MessengerState;
+    registerPeer(dirs, { name: "Holder", cwd: "/tmp", reservations: state.reservations });
+
+    expect(revokeReservation(dirs, "Holder", "src/a.ts", "Lead")).toBe(true);
+    updateRegistration(state, dirs, createMockContext());
+
+    const reg = JSON.parse(fs.readFileSync(path.join(dirs.registry, "Holder.json"), "utf-8")) as AgentRegistration;
+    expect(state.reservations.map(r => r.pattern)).toEqual(["src/b.ts"]);
+    expect(reg.reservations?.map(r => r.pattern)).toEqual(["src/b.ts"]);
+    expect(reg.revokedReservations).toBeUndefined();
+  });
+});
@@ -0,0 +1,184 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTempCrewDirs } from "./helpers/temp-dirs.js";
+import { MIRROR_TTL_MS, type AgentMailMessage, type Dirs, type MessengerState } from "../lib.js";
+import { getActiveAgents, getRepoContext, invalidateAgentsCache, sendMessageToAgent, unregister, validateTargetAgent } from "../store.js";
+import { logFeedEvent, readFeedEvents } from "../feed.js";
+import { executeReserveSteal } from "../handlers.js";
+import { createRelayServer } from "../relay-server.js";
+import { createMockContext } from "./helpers/mock-context.js";
+import { createRelayClient, createRelayTransport, useTransport, type MessengerTransport } from "../transport.js";
+
+interface Machine {
+  dirs: Dirs;
+  state: MessengerState;
+  transport: MessengerTransport;
+}
+
+/** One agent in its own messenger directory, as if on its own machine. */
+function machine(agentName: string, host: string, url: string): Machine {
+  const base = path.join(createTempCrewDirs().root, "messenger");
+  const dirs = { base, registry: path.join(base, "registry"), inbox: path.join(base, "inbox") };
+  const now = new Date().toISOString();
+  fs.mkdirSync(dirs.registry, { recursive: true });
+  fs.writeFileSync(path.join(dirs.registry, `${agentName}.json`), JSON.stringify({
+    name: agentName,
+    pid: process.pid,
+    sessionId: "",
+    cwd: base,
+    model: "test",
+    startedAt: now,
+    isHuman: false,
+    session: { toolCalls: 0, tokens: 0, filesModified: [] },
+    activity: { lastActivityAt: now },
+  }));
+  const state = {
+    agentName,
+    registered: true,
+    scopeToFolder: false,
+    reservations: [],
+    chatHistory: new Map(),
+    channelHistory: new Map(),
+    broadcastHistory: [],
+  } as unknown as MessengerState;
+  const transport = createRelayTransport(dirs, { url, token: "secret", host });
+  useTransport(transport);
+  return { dirs, state, transport };
+}
+
+function inboxMessages(dirs: Dirs, name: string): AgentMailMessage[] {
+  const inbox = path.join(dirs.inbox, name);
+  return fs.readdirSync(inbox).map(f => JSON.parse(fs.readFileSync(path.join(inbox, f), "utf-8")));
+}
+
+function message(to: string, text: string): AgentMailMessage {
+  return { id: `${to}-${text}`, from: "Tester", to, text, timestamp: new Date().toISOString(), replyTo: null };
+}
+
+describe("transport/relay", () => {
+  let server: Server;
+  let url: string;
+  let a: Machine;
+  let b: Machine;
+
+  const syncBoth = async () => {
+    await a.transport.sync!(a.state);
+    await b.transport.sync!(b.state);
+    await a.transport.sync!(a.state);
+  };
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    server = createRelayServer({ token: "secret" });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    a = machine("Alpha", "box-a", url);
+    b = machine("Beta", "box-b", url);
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("joins agents on two machines into one mesh and carries messages between them", async () => {
+    await syncBoth();
+
+    expect(getActiveAgents(a.state, a.dirs).map(r => [r.name, r.host])).toEqual([["Beta", "box-b"]]);
+    expect(getActiveAgents(b.state, b.dirs).map(r => [r.name, r.host])).toEqual([["Alpha", "box-a"]]);
+    expect(validateTargetAgent("Beta", a.dirs)).toEqual({ valid: true });
+
+    sendMessageToAgent(a.state, a.dirs, "Beta", "Schema is v2");
+    logFeedEvent(a.dirs, "Alpha", "message", "Beta", "→ Beta: \"Schema is v2\"");
+    await syncBoth();
+
+    expect(inboxMessages(b.dirs, "Beta")).toMatchObject([{ from: "Alpha", to: "Beta", text: "Schema is v2" }]);
+    expect(inboxMessages(a.dirs, "Beta")).toEqual([]);
+    expect(readFeedEvents(b.dirs).filter(e => e.agent === "Alpha")).toMatchObject([
+      { type: "message", target: "Beta", host: "box-a" },
+    ]);
+    expect(readFeedEvents(a.dirs).filter(e => e.agent === "Alpha")).toHaveLength(1);
+  });
+
+  it("drops an agent from the other machines once it leaves the relay", async () => {
+    await syncBoth();
+    await unregister(a.state, a.dirs);
+    await a.transport.close!();
+    await b.transport.sync!(b.state);
+
+    expect(getActiveAgents(b.state, b.dirs)).toEqual([]);
+    expect(fs.existsSync(path.join(b.dirs.registry, "Alpha.json"))).toBe(false);
+  });
+
+  it("expires mirrored agents once syncs stop refreshing them", async () => {
+    await syncBoth();
+    const later = Date.now() + MIRROR_TTL_MS + 1;
+    vi.spyOn(Date, "now").mockReturnValue(later);
+    invalidateAgentsCache();
+
+    expect(getActiveAgents(b.state, b.dirs)).toEqual([]);
+    expect(fs.existsSync(path.join(b.dirs.registry, "Alpha.json"))).toBe(false);
+    // Alpha's own machine reports its leave
+    expect(readFeedEvents(b.dirs).filter(e => e.type === "leave")).toEqual([]);
+  });
+
+  it("keeps messages for another machine until the relay can be reached", async () => {
+    await syncBoth();
+    await new Promise(resolve => server.close(resolve));
+
+    sendMessageToAgent(a.state, a.dirs, "Beta", "Schema is v2");
+    await a.transport.close!();
+
+    expect(inboxMessages(a.dirs, "Beta")).toMatchObject([{ to: "Beta", text: "Schema is v2" }]);
+  });
+
+  it("refuses to steal a reservation held on another machine", async () => {
+    const cwd = b.dirs.base;
+    vi.spyOn(process, "cwd").mockReturnValue(cwd);
+    const alphaReg = path.join(a.dirs.registry, "Alpha.json");
+    fs.writeFileSync(alphaReg, JSON.stringify({
+      ...JSON.parse(fs.readFileSync(alphaReg, "utf-8")),
+      reservations: [{ pattern: "src/a.ts", repo: getRepoContext(cwd).id, since: new Date().toISOString() }],
+    }));
+    await syncBoth();
+    b.state.isHuman = true;
+
+    const response = await executeReserveSteal(b.state, b.dirs, createMockContext(cwd), ["src/a.ts"], "hotfix");
+
+    expect(response.details).toMatchObject({ error: "remote_holder", holders: ["Alpha"] });
+    expect(response.content[0].text).toContain("Alpha (on box-a): src/a.ts");
+    expect(getActiveAgents(b.state, b.dirs).find(r => r.name === "Alpha")?.reservations).toMatchObject([{ pattern: "src/a.ts" }]);
+  });
+
+  it("only accepts messages and receipts for agents on the relay", async () => {
+    await syncBoth();
+    const client = createRelayClient({ url, token: "secret" });
+
+    await expect(client.deliver("Beta", { text: "hi" } as unknown as AgentMailMessage)).rejects.toThrow("400");
+    await expect(client.deliver("Nobody", message("Nobody", "hi"))).rejects.toThrow("404");
+    await expect(client.deliver("Beta", message("Beta", "hi"))).resolves.toBeUndefined();
+  });
+
+  it("keeps relay inbox items until the next take acknowledges them", async () => {
+    await syncBoth();
+    const client = createRelayClient({ url, token: "secret" });
+    await client.deliver("Beta", message("Beta", "one"));
+
+    const first = await client.takeInbox("Beta");
+    expect(first.items).toMatchObject([{ text: "one" }]);
+    expect((await client.takeInbox("Beta")).items).toMatchObject([{ text: "one" }]);
+
+    await client.deliver("Beta", message("Beta", "two"));
+    const second = await client.takeInbox("Beta", first.cursor);
+    expect(second.items).toMatchObject([{ text: "two" }]);
+    expect((await client.takeInbox("Beta", second.cursor)).items).toEqual([]);
+  });
+
+  it("rejects requests without the relay's token", async () => {
+    await expect(createRelayClient({ url }).listRegistrations()).rejects.toThrow("401");
+    await expect(createRelayClient({ url, token: "secreT" }).listRegistrations()).rejects.toThrow("401");
+    await expect(createRelayClient({ url, token: "secret" }).listRegistrations()).resolves.toEqual([]);
+  });
+});
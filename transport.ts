@@ -0,0 +1,369 @@
+/**
+ * Pi Messenger - Transports
+ *
+ * The store reads and writes registrations, inboxes and the feed through a
+ * transport, picked once at startup with useTransport. The filesystem
+ * transport is the messenger directory itself (every agent on one machine).
+ * The relay transport keeps a local copy of the mesh in that directory, so
+ * the inbox watcher and the overlay work unchanged, and carries writes to a
+ * relay server (relay-server.ts) so agents on other machines join the mesh.
+ */
+
+import * as fs from "node:fs";
+import { hostname } from "node:os";
+import { join } from "node:path";
+import {
+  MIRROR_TTL_MS,
+  type AgentMailMessage,
+  type AgentRegistration,
+  type Dirs,
+  type MessageReceipt,
+  type MessengerState,
+} from "./lib.js";
+import { feedPath, readFeedEvents, type FeedEvent } from "./feed.js";
+import { invalidateAgentsCache } from "./store.js";
+
+export type InboxItem = AgentMailMessage | MessageReceipt;
+
+export interface MessengerTransport {
+  readonly kind: "filesystem" | "relay";
+  /** Messenger directory the transport keeps its state in. */
+  readonly dirs: Dirs;
+  /** Publish an agent's registration, or withdraw it with null. */
+  publishRegistration(name: string, reg: AgentRegistration | null): void;
+  /** Null when the agent isn't registered; throws when the registration can't be read. */
+  readRegistration(name: string): AgentRegistration | null;
+  /** Every readable registration, live or not. */
+  listRegistrations(): AgentRegistration[];
+  /** Put a message or receipt in an agent's inbox. */
+  deliver(to: string, item: InboxItem): void;
+  /** Remove and return everything waiting in an agent's inbox, oldest first. */
+  takeInbox(name: string): InboxItem[];
+  appendFeed(event: FeedEvent): void;
+  /** Exchange state with the rest of the mesh; called every RELAY_SYNC_MS. */
+  sync?(state: MessengerState): Promise<void>;
+  /** Finish writes still in flight, before the process exits. */
+  close?(): Promise<void>;
+}
+
+// Keyed by messenger directory
+const transports = new Map<string, MessengerTransport>();
+
+/** Route the store's operations on `transport.dirs` through `transport`. Called once at startup. */
+export function useTransport(transport: MessengerTransport): void {
+  transports.set(transport.dirs.base, transport);
+}
+
+/** The transport picked for `dirs`, or the filesystem when none was. */
+export function transportFor(dirs: Dirs): MessengerTransport {
+  return transports.get(dirs.base) ?? createFileTransport(dirs);
+}
+
+// =============================================================================
+// Filesystem
+// =============================================================================
+
+export function createFileTransport(dirs: Dirs): MessengerTransport {
+  const registrationPath = (name: string) => join(dirs.registry, `${name}.json`);
+
+  return {
+    kind: "filesystem",
+    dirs,
+
+    publishRegistration(name, reg) {
+      if (!reg) {
+        fs.rmSync(registrationPath(name), { force: true });
+        return;
+      }
+      fs.mkdirSync(dirs.registry, { recursive: true });
+      fs.mkdirSync(join(dirs.inbox, name), { recursive: true });
+      fs.writeFileSync(registrationPath(name), JSON.stringify(reg, null, 2));
+    },
+
+    readRegistration(name) {
+      const regPath = registrationPath(name);
+      if (!fs.existsSync(regPath)) return null;
+      return JSON.parse(fs.readFileSync(regPath, "utf-8"));
+    },
+
+    listRegistrations() {
+      let files: string[];
+      try {
+        files = fs.readdirSync(dirs.registry).filter(f => f.endsWith(".json"));
+      } catch {
+        return [];
+      }
+      const registrations: AgentRegistration[] = [];
+      for (const file of files) {
+        try {
+          registrations.push(JSON.parse(fs.readFileSync(join(dirs.registry, file), "utf-8")));
+        } catch {
+          // Ignore malformed registrations
+        }
+      }
+      return registrations;
+    },
+
+    deliver(to, item) {
+      const inbox = join(dirs.inbox, to);
+      fs.mkdirSync(inbox, { recursive: true });
+      const random = Math.random().toString(36).substring(2, 8);
+      fs.writeFileSync(join(inbox, `${Date.now()}-${random}.json`), JSON.stringify(item, null, 2));
+    },
+
+    takeInbox(name) {
+      const inbox = join(dirs.inbox, name);
+      let files: string[];
+      try {
+        files = fs.readdirSync(inbox).filter(f => f.endsWith(".json")).sort();
+      } catch {
+        return [];
+      }
+      const items: InboxItem[] = [];
+      for (const file of files) {
+        // Rename first, so two instances draining the same inbox never both take a file
+        const taken = join(inbox, `${file}.taken-${process.pid}`);
+        try {
+          fs.renameSync(join(inbox, file), taken);
+        } catch {
+          continue;
+        }
+        try {
+          items.push(JSON.parse(fs.readFileSync(taken, "utf-8")));
+        } catch {
+          // Drop malformed files rather than retrying them forever
+        }
+        fs.rmSync(taken, { force: true });
+      }
+      return items;
+    },
+
+    appendFeed(event) {
+      fs.mkdirSync(dirs.base, { recursive: true });
+      fs.appendFileSync(feedPath(dirs), JSON.stringify(event) + "\n");
+    },
+  };
+}
+
+// =============================================================================
+// Relay
+// =============================================================================
+
+const RELAY_TIMEOUT_MS = 5000;
+
+export interface RelayOptions {
+  url: string;                   // e.g. "http://relay.local:7777"
+  token?: string;                // Sent as a bearer token when the relay requires one
+  host?: string;                 // Marks this machine's agents and events on the relay (default: hostname)
+}
+
+export interface FeedPage {
+  events: FeedEvent[];
+  cursor: string;                // Pass back to readFeed for the events after these
+}
+
+export interface InboxPage {
+  items: InboxItem[];
+  cursor: string;                // Pass back to takeInbox once the items are stored
+}
+
+/** The relay server's HTTP API (see relay-server.ts). */
+export interface RelayClient {
+  publishRegistration(name: string, reg: AgentRegistration | null): Promise<void>;
+  listRegistrations(): Promise<AgentRegistration[]>;
+  deliver(to: string, item: InboxItem): Promise<void>;
+  /** Everything waiting for `name`, after dropping what `ack` (a previous page's cursor) acknowledges. */
+  takeInbox(name: string, ack?: string): Promise<InboxPage>;
+  appendFeed(events: FeedEvent[]): Promise<void>;
+  /** Events appended after `cursor`. Without a cursor, no events: just the current end of the feed. */
+  readFeed(cursor?: string): Promise<FeedPage>;
+}
+
+export function createRelayClient(options: RelayOptions): RelayClient {
+  const base = options.url.endsWith("/") ? options.url : `${options.url}/`;
+
+  async function request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await fetch(new URL(path, base), {
+      method,
+      headers: {
+        ...(body !== undefined ? { "content-type": "application/json" } : {}),
+        ...(options.token ? { authorization: `Bearer ${options.token}` } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(RELAY_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Relay ${method} /${path} failed: ${response.status} ${response.statusText}`);
+    }
+    return (response.status === 204 ? undefined : await response.json()) as T;
+  }
+
+  const agent = (name: string) => `agents/${encodeURIComponent(name)}`;
+  const inbox = (name: string) => `inbox/${encodeURIComponent(name)}`;
+
+  return {
+    publishRegistration: (name, reg) => reg ? request("PUT", agent(name), reg) : request("DELETE", agent(name)),
+    listRegistrations: () => request("GET", "agents"),
+    deliver: (to, item) => request("POST", inbox(to), item),
+    takeInbox: (name, ack) => request("POST", `${inbox(name)}/take${ack === undefined ? "" : `?ack=${encodeURIComponent(ack)}`}`),
+    appendFeed: events => request("POST", "feed", events),
+    readFeed: cursor => request("GET", cursor === undefined ? "feed" : `feed?after=${encodeURIComponent(cursor)}`),
+  };
+}
+
+/**
+ * Agents on this machine are published to the relay as they register, and
+ * messages to agents on other machines go straight to it; when the relay
+ * can't be reached they wait in the local copy for the next sync. Each sync
+ * mirrors the other machines' agents into the local registry (marked with
+ * `host` and stamped with `mirroredAt`), pulls our inbox into the local one
+ * where the watcher picks it up, and swaps feed events.
+ */
+export function createRelayTransport(dirs: Dirs, options: RelayOptions): MessengerTransport {
+  const local = createFileTransport(dirs);
+  const relay = createRelayClient(options);
+  const host = options.host ?? hostname();
+  const outgoingFeed: FeedEvent[] = [];
+  let relayCursor: string | undefined;
+  let inboxAck: { name: string; cursor: string } | undefined;  // Last page taken from the relay, not yet acknowledged
+
+  // Relay writes run one at a time, so a withdrawal never overtakes the registration it withdraws
+  let writes: Promise<void> = Promise.resolve();
+  function enqueue(write: () => Promise<void>): void {
+    writes = writes.then(write).catch(() => {});  // The next sync republishes
+  }
+
+  function isMirror(name: string): boolean {
+    try {
+      return local.readRegistration(name)?.host !== undefined;
+    } catch {
+      return false;
+    }
+  }
+
+  async function takeRelayInbox(name: string): Promise<void> {
+    const ack = inboxAck?.name === name ? inboxAck.cursor : undefined;
+    const page = await relay.takeInbox(name, ack);
+    for (const item of page.items) local.deliver(name, item);
+    inboxAck = page.items.length > 0 ? { name, cursor: page.cursor } : undefined;
+  }
+
+  async function pushFeed(): Promise<void> {
+    if (outgoingFeed.length === 0) return;
+    const events = outgoingFeed.slice();
+    await relay.appendFeed(events.map(e => ({ ...e, host })));
+    outgoingFeed.splice(0, events.length);
+  }
+
+  async function pullFeed(): Promise<void> {
+    // The first sync only marks where the relay's feed ends
+    if (relayCursor === undefined) {
+      relayCursor = (await relay.readFeed()).cursor;
+      return;
+    }
+    const theirs = await relay.readFeed(relayCursor);
+    const incoming = theirs.events.filter(e => e.host !== host);
+    if (incoming.length > 0) {
+      // Another instance on this machine may have pulled the same events already
+      const seen = new Set(readFeedEvents(dirs, 200).map(feedEventKey));
+      for (const event of incoming) {
+        if (!seen.has(feedEventKey(event))) local.appendFeed(event);
+      }
+    }
+    relayCursor = theirs.cursor;
+  }
+
+  return {
+    kind: "relay",
+    dirs,
+
+    publishRegistration(name, reg) {
+      const mirror = reg ? reg.host !== undefined : isMirror(name);
+      local.publishRegistration(name, reg);
+      if (mirror) return;
+      enqueue(() => relay.publishRegistration(name, reg && { ...reg, host }));
+    },
+
+    readRegistration: name => local.readRegistration(name),
+    listRegistrations: () => local.listRegistrations(),
+
+    deliver(to, item) {
+      if (!isMirror(to)) {
+        local.deliver(to, item);
+        return;
+      }
+      enqueue(async () => {
+        try {
+          await relay.deliver(to, item);
+        } catch {
+          local.deliver(to, item);
+        }
+      });
+    },
+
+    takeInbox: name => local.takeInbox(name),
+
+    appendFeed(event) {
+      local.appendFeed(event);
+      if (event.host === undefined) outgoingFeed.push(event);
+    },
+
+    async sync(state) {
+      if (!state.registered) return;
+      await writes;
+      const registrations = local.listRegistrations();
+
+      const own = registrations.find(r => r.name === state.agentName && r.host === undefined);
+      if (!own) return;
+      // Republished every sync: the relay drops registrations that go quiet
+      await relay.publishRegistration(state.agentName, { ...own, host });
+
+      // Mirror the other machines' agents (a local agent keeps its name); drop mirrors of agents that have left the relay
+      const now = Date.now();
+      const localNames = new Set(registrations.filter(r => r.host === undefined).map(r => r.name));
+      const remote = (await relay.listRegistrations())
+        .filter(r => r.host !== undefined && r.host !== host && !localNames.has(r.name));
+      const remoteNames = new Set(remote.map(r => r.name));
+      for (const reg of remote) {
+        const existing = registrations.find(r => r.name === reg.name);
+        const fresh = existing !== undefined && now - Date.parse(existing.mirroredAt ?? "") < MIRROR_TTL_MS / 4;
+        if (!fresh || JSON.stringify({ ...existing, mirroredAt: undefined }) !== JSON.stringify(reg)) {
+          local.publishRegistration(reg.name, { ...reg, mirroredAt: new Date(now).toISOString() });
+        }
+      }
+      for (const reg of registrations) {
+        if (reg.host !== undefined && !remoteNames.has(reg.name)) local.publishRegistration(reg.name, null);
+      }
+      invalidateAgentsCache();
+
+      // Messages that couldn't be sent when they were written
+      for (const name of remoteNames) {
+        const queued = local.takeInbox(name);
+        for (let i = 0; i < queued.length; i++) {
+          try {
+            await relay.deliver(name, queued[i]);
+          } catch (err) {
+            for (const item of queued.slice(i)) local.deliver(name, item);
+            throw err;
+          }
+        }
+      }
+
+      await takeRelayInbox(state.agentName);
+
+      await pushFeed();
+      await pullFeed();
+    },
+
+    async close() {
+      await writes;
+      await pushFeed();
+      // Acknowledge what the last sync stored; anything newer waits in the local inbox
+      while (inboxAck) await takeRelayInbox(inboxAck.name);
+    },
+  };
+}
+
+function feedEventKey(event: FeedEvent): string {
+  return `${event.ts}|${event.host ?? ""}|${event.agent}|${event.type}|${event.target ?? ""}`;
+}